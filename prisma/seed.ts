@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
-import { hashPassword } from '../src/utils/password.utils';
+import { generateToken, getTokenExpiration, hashToken } from '../src/utils/token.utils';
+import { DEFAULT_ADMIN_ROLES, SUPER_ADMIN_ROLE_SLUG } from '../src/config/permissions.config';
 
 const prisma = new PrismaClient();
 
@@ -85,30 +86,69 @@ async function main() {
   }
   console.log(`✅ Created ${categories.length} business categories`);
 
-  // Seed Admin User
-  console.log('👤 Seeding admin user...');
-  const adminEmail = 'admin@capitalbridge.com';
-  const adminPassword = 'Admin@123'; // Default admin password
+  // Seed Admin Roles
+  console.log('🔐 Seeding admin roles...');
+  for (const role of DEFAULT_ADMIN_ROLES) {
+    await prisma.adminRole.upsert({
+      where: { slug: role.slug },
+      update: {
+        name: role.name,
+        description: role.description,
+        permissions: role.permissions
+      },
+      create: role,
+    });
+  }
+  console.log(`✅ Created ${DEFAULT_ADMIN_ROLES.length} admin roles`);
+
+  const superAdminRole = await prisma.adminRole.findUniqueOrThrow({
+    where: { slug: SUPER_ADMIN_ROLE_SLUG }
+  });
 
-  const existingAdmin = await prisma.admin.findUnique({
-    where: { email: adminEmail }
+  // Admins created before roles existed keep their full access
+  const { count: backfilledAdmins } = await prisma.admin.updateMany({
+    where: { roleId: null },
+    data: { roleId: superAdminRole.id }
   });
+  if (backfilledAdmins > 0) {
+    console.log(`✅ Assigned ${backfilledAdmins} existing admin(s) to the super admin role`);
+  }
+
+  // Seed first admin (only when no admins exist)
+  // No password is stored: the admin sets one through a single-use link
+  console.log('👤 Seeding admin user...');
+  const adminEmail = process.env.SEED_ADMIN_EMAIL?.toLowerCase();
+  const adminCount = await prisma.admin.count();
 
-  if (!existingAdmin) {
-    const hashedPassword = await hashPassword(adminPassword);
-    await prisma.admin.create({
+  if (adminCount > 0) {
+    console.log('ℹ️  Admin users already exist');
+  } else if (!adminEmail) {
+    console.log('ℹ️  No admin users exist. Set SEED_ADMIN_EMAIL and re-run the seed, or run scripts/create-admin.ts');
+  } else {
+    const admin = await prisma.admin.create({
       data: {
         email: adminEmail,
-        passwordHash: hashedPassword,
-        username: 'Admin',
-        isActive: true
+        username: process.env.SEED_ADMIN_NAME || 'Admin',
+        isActive: true,
+        roleId: superAdminRole.id
       }
     });
+
+    const token = generateToken();
+    await prisma.authToken.create({
+      data: {
+        userId: admin.id,
+        role: 'ADMIN',
+        purpose: 'ADMIN_INVITE',
+        tokenHash: hashToken(token),
+        expiresAt: getTokenExpiration()
+      }
+    });
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
     console.log('✅ Admin user created');
-    console.log(`   Email: ${adminEmail}`);
-    console.log(`   Password: ${adminPassword}`);
-  } else {
-    console.log('ℹ️  Admin user already exists');
+    console.log(`   Email: ${admin.email}`);
+    console.log(`   Set a password: ${frontendUrl}/admin/accept-invite?token=${token}`);
   }
 
   console.log('🎉 Database seed completed successfully!');
@@ -1,13 +1,24 @@
 import { PrismaClient } from '@prisma/client';
-import { hashPassword } from '../src/utils/password.utils';
+import { generateToken, getTokenExpiration, hashToken } from '../src/utils/token.utils';
+import { SUPER_ADMIN_ROLE_SLUG } from '../src/config/permissions.config';
 
 const prisma = new PrismaClient();
 
+/**
+ * Create a super admin without a password and print a link to set one
+ * Usage: tsx scripts/create-admin.ts <email> [name]
+ */
 async function createAdmin() {
   try {
-    const email = 'admin@gmail.com';
-    const password = 'aarthiq';
-    const username = 'Admin';
+    const [emailArg, username = 'Admin'] = process.argv.slice(2);
+
+    if (!emailArg) {
+      console.log('Usage: tsx scripts/create-admin.ts <email> [name]');
+      process.exitCode = 1;
+      return;
+    }
+
+    const email = emailArg.toLowerCase();
 
     // Check if admin already exists
     const existingAdmin = await prisma.admin.findUnique({
@@ -19,19 +30,40 @@ async function createAdmin() {
       return;
     }
 
-    // Hash the password
-    const passwordHash = await hashPassword(password);
+    // New admins created from the command line get full access
+    const superAdminRole = await prisma.adminRole.findUnique({
+      where: { slug: SUPER_ADMIN_ROLE_SLUG }
+    });
+
+    if (!superAdminRole) {
+      console.log('Admin roles are missing. Run the database seed first.');
+      return;
+    }
 
     // Create the admin
     const admin = await prisma.admin.create({
       data: {
         email,
-        passwordHash,
         username,
-        isActive: true
+        isActive: true,
+        roleId: superAdminRole.id
+      }
+    });
+
+    // Single-use link for the admin to choose their own password
+    const token = generateToken();
+    await prisma.authToken.create({
+      data: {
+        userId: admin.id,
+        role: 'ADMIN',
+        purpose: 'ADMIN_INVITE',
+        tokenHash: hashToken(token),
+        expiresAt: getTokenExpiration()
       }
     });
 
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
     console.log('Admin created successfully!');
     console.log({
       id: admin.id,
@@ -39,6 +71,7 @@ async function createAdmin() {
       username: admin.username,
       isActive: admin.isActive
     });
+    console.log(`Set a password: ${frontendUrl}/admin/accept-invite?token=${token}`);
 
   } catch (error) {
     console.error('Error creating admin:', error);
@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import { parseLocation, formatLocation } from '../src/utils/address.utils';
+
+const prisma = new PrismaClient();
+
+/**
+ * Fill province, district and municipality from the free-text location of existing businesses
+ * Only businesses without a district are touched; locations that cannot be parsed are listed for manual review
+ * Usage: tsx scripts/migrate-business-locations.ts [--dry-run]
+ */
+async function migrateBusinessLocations() {
+  try {
+    const dryRun = process.argv.includes('--dry-run');
+
+    const businesses = await prisma.business.findMany({
+      where: { district: null },
+      select: { id: true, name: true, location: true }
+    });
+
+    const unparsed: { id: string; name: string; location: string }[] = [];
+    let migrated = 0;
+
+    for (const business of businesses) {
+      const address = parseLocation(business.location);
+
+      if (!address) {
+        unparsed.push(business);
+        continue;
+      }
+
+      if (!dryRun) {
+        await prisma.business.update({
+          where: { id: business.id },
+          data: {
+            province: address.province,
+            district: address.district,
+            municipality: address.municipality,
+            location: formatLocation(address)
+          }
+        });
+      }
+
+      migrated++;
+      console.log(`${dryRun ? '[dry run] ' : ''}${business.name}: "${business.location}" -> ${address.municipality || '-'} / ${address.district} / ${address.province}`);
+    }
+
+    console.log(`\n${migrated} of ${businesses.length} businesses ${dryRun ? 'can be' : 'were'} migrated`);
+
+    if (unparsed.length > 0) {
+      console.log('Locations that need a manual update:');
+      for (const business of unparsed) {
+        console.log(`  ${business.id}  ${business.name}: "${business.location}"`);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error migrating business locations:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateBusinessLocations();
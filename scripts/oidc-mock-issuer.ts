@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import prisma from '../src/config/prisma.config';
+import { hashToken } from '../src/utils/token.utils';
+import { startOidcLogin, completeOidcLogin } from '../src/services/oidc.service';
+
+/**
+ * Run admin single sign-on against a local mock identity provider
+ * Covers state, nonce and PKCE checks, signing key rotation and ID tokens with the wrong
+ * issuer, audience or algorithm. Needs a database (DATABASE_URL); a throwaway admin is
+ * created for the run and removed afterwards.
+ * Usage: tsx scripts/oidc-mock-issuer.ts
+ */
+
+const CLIENT_ID = 'mock-client';
+const CLIENT_SECRET = 'mock-client-secret';
+const REDIRECT_URI = 'http://localhost:3000/admin/sso/callback';
+const EMAIL_DOMAIN = 'oidc-check.example.com';
+
+interface SigningKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicJwk: crypto.webcrypto.JsonWebKey;
+}
+
+// What the next ID token issued by the mock provider should get wrong, if anything
+interface IdTokenOverrides {
+  issuer?: string;
+  audience?: string;
+  nonce?: string;
+  algorithm?: 'HS256' | 'none';
+  unpublishedKey?: boolean;
+  emailVerified?: boolean;
+}
+
+const createSigningKey = (): SigningKey => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    kid: crypto.randomBytes(8).toString('hex'),
+    privateKey,
+    publicJwk: publicKey.export({ format: 'jwk' })
+  };
+};
+
+const toBase64Url = (buffer: Buffer) => {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Minimal OpenID provider: discovery, JWKS, authorization and token endpoints
+ * The token endpoint enforces PKCE (S256) and client authentication like a real provider
+ */
+const startMockIssuer = async (subject: string, email: string) => {
+  const codes = new Map<string, { codeChallenge: string; nonce: string; redirectUri: string }>();
+  const state = {
+    keys: [createSigningKey()],
+    overrides: {} as IdTokenOverrides,
+    jwksRequests: 0
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', issuer);
+
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      state.jwksRequests++;
+      return sendJson(200, {
+        keys: state.keys.map(key => ({ ...key.publicJwk, kid: key.kid, use: 'sig', alg: 'RS256' }))
+      });
+    }
+
+    if (url.pathname === '/authorize') {
+      const params = url.searchParams;
+
+      if (
+        params.get('response_type') !== 'code' ||
+        params.get('client_id') !== CLIENT_ID ||
+        params.get('code_challenge_method') !== 'S256' ||
+        !params.get('code_challenge') ||
+        !params.get('nonce') ||
+        !params.get('state')
+      ) {
+        return sendJson(400, { error: 'invalid_request' });
+      }
+
+      const code = crypto.randomBytes(16).toString('hex');
+      codes.set(code, {
+        codeChallenge: params.get('code_challenge')!,
+        nonce: params.get('nonce')!,
+        redirectUri: params.get('redirect_uri')!
+      });
+
+      res.writeHead(302, { Location: `${params.get('redirect_uri')}?code=${code}&state=${params.get('state')}` });
+      return res.end();
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      const params = new URLSearchParams(body);
+      const expectedCredentials = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
+
+      if (req.headers.authorization !== `Basic ${expectedCredentials}`) {
+        return sendJson(401, { error: 'invalid_client' });
+      }
+
+      const grant = codes.get(params.get('code') || '');
+      codes.delete(params.get('code') || '');
+
+      const verifier = params.get('code_verifier') || '';
+      const challenge = toBase64Url(crypto.createHash('sha256').update(verifier).digest());
+
+      if (
+        params.get('grant_type') !== 'authorization_code' ||
+        !grant ||
+        grant.redirectUri !== params.get('redirect_uri') ||
+        grant.codeChallenge !== challenge
+      ) {
+        return sendJson(400, { error: 'invalid_grant' });
+      }
+
+      const overrides = state.overrides;
+      const claims = {
+        sub: subject,
+        email,
+        email_verified: overrides.emailVerified,
+        name: 'OIDC Check',
+        nonce: overrides.nonce ?? grant.nonce
+      };
+      const options: jwt.SignOptions = {
+        issuer: overrides.issuer ?? issuer,
+        audience: overrides.audience ?? CLIENT_ID,
+        expiresIn: 300
+      };
+
+      let idToken: string;
+
+      if (overrides.algorithm === 'HS256') {
+        idToken = jwt.sign(claims, CLIENT_SECRET, { ...options, algorithm: 'HS256', keyid: state.keys[0].kid });
+      } else if (overrides.algorithm === 'none') {
+        idToken = jwt.sign(claims, '', { ...options, algorithm: 'none' });
+      } else {
+        const key = overrides.unpublishedKey ? createSigningKey() : state.keys[0];
+        idToken = jwt.sign(claims, key.privateKey, { ...options, algorithm: 'RS256', keyid: key.kid });
+      }
+
+      return sendJson(200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+    }
+
+    return sendJson(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    state,
+    // Publish a new signing key and stop signing with the old one
+    rotateKeys: () => {
+      state.keys = [createSigningKey()];
+    },
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
+
+/**
+ * Start sign-in and follow the provider redirect back with its code
+ */
+const authorize = async () => {
+  const { authorizationUrl } = await startOidcLogin();
+  const response = await fetch(authorizationUrl, { redirect: 'manual' });
+  const callback = new URL(response.headers.get('location') || '', REDIRECT_URI);
+
+  return {
+    authorizationUrl: new URL(authorizationUrl),
+    code: callback.searchParams.get('code') || '',
+    state: callback.searchParams.get('state') || ''
+  };
+};
+
+async function checkOidcAgainstMockIssuer() {
+  const subject = `mock-subject-${crypto.randomBytes(6).toString('hex')}`;
+  const email = `${subject}@${EMAIL_DOMAIN}`;
+  const issuedStates: string[] = [];
+  let failures = 0;
+
+  const issuer = await startMockIssuer(subject, email);
+
+  process.env.OIDC_DISCOVERY_URL = `${issuer.issuer}/.well-known/openid-configuration`;
+  process.env.OIDC_CLIENT_ID = CLIENT_ID;
+  process.env.OIDC_CLIENT_SECRET = CLIENT_SECRET;
+  process.env.OIDC_REDIRECT_URI = REDIRECT_URI;
+  process.env.OIDC_ALLOWED_EMAIL_DOMAIN = EMAIL_DOMAIN;
+  process.env.OIDC_AUTO_CREATE_ADMINS = 'false';
+
+  const admin = await prisma.admin.create({
+    data: { email, username: 'OIDC Check', isActive: true }
+  });
+
+  // Sign in with the given provider behaviour; tamper lets a check alter the stored request first
+  const signIn = async (
+    overrides: IdTokenOverrides = {},
+    tamper?: (stateHash: string) => Promise<unknown>
+  ) => {
+    issuer.state.overrides = { emailVerified: true, ...overrides };
+    const flow = await authorize();
+    issuedStates.push(flow.state);
+
+    if (tamper) {
+      await tamper(hashToken(flow.state));
+    }
+
+    return { flow, result: await completeOidcLogin(flow.code, flow.state) };
+  };
+
+  const check = async (name: string, expectSuccess: boolean, run: () => Promise<unknown>) => {
+    try {
+      await run();
+      if (expectSuccess) {
+        console.log(`PASS  ${name}`);
+      } else {
+        failures++;
+        console.log(`FAIL  ${name}: sign-in was accepted`);
+      }
+    } catch (error) {
+      if (expectSuccess) {
+        failures++;
+        console.log(`FAIL  ${name}: ${(error as Error).message}`);
+      } else {
+        console.log(`PASS  ${name} (rejected: ${(error as Error).message})`);
+      }
+    }
+  };
+
+  try {
+    let completed: Awaited<ReturnType<typeof authorize>> | null = null;
+
+    await check('valid sign-in links the admin by verified email', true, async () => {
+      const { flow, result } = await signIn();
+      completed = flow;
+
+      if (result.adminId !== admin.id) {
+        throw new Error(`signed in as ${result.adminId} instead of ${admin.id}`);
+      }
+      if (flow.authorizationUrl.searchParams.get('code_challenge_method') !== 'S256') {
+        throw new Error('authorization request does not use PKCE S256');
+      }
+    });
+
+    await check('state cannot be used twice', false, async () => {
+      if (!completed) throw new Error('no completed sign-in to replay');
+      await completeOidcLogin(completed.code, completed.state);
+    });
+
+    await check('unknown state is rejected', false, async () => {
+      const flow = await authorize();
+      issuedStates.push(flow.state);
+      await completeOidcLogin(flow.code, crypto.randomBytes(32).toString('hex'));
+    });
+
+    await check('expired state is rejected', false, () => signIn({}, stateHash =>
+      prisma.oidcAuthRequest.update({ where: { stateHash }, data: { expiresAt: new Date(Date.now() - 1000) } })
+    ));
+
+    await check('PKCE verifier that does not match the challenge is rejected', false, () => signIn({}, stateHash =>
+      prisma.oidcAuthRequest.update({ where: { stateHash }, data: { codeVerifier: crypto.randomBytes(48).toString('hex') } })
+    ));
+
+    await check('nonce from another request is rejected', false, () => signIn({ nonce: crypto.randomBytes(32).toString('hex') }));
+
+    await check('rotated signing key is picked up from JWKS', true, async () => {
+      const jwksRequests = issuer.state.jwksRequests;
+      issuer.rotateKeys();
+      await signIn();
+
+      if (issuer.state.jwksRequests === jwksRequests) {
+        throw new Error('JWKS was not re-fetched for the new kid');
+      }
+    });
+
+    await check('key missing from JWKS is rejected', false, () => signIn({ unpublishedKey: true }));
+    await check('wrong issuer is rejected', false, () => signIn({ issuer: 'https://attacker.example.com' }));
+    await check('wrong audience is rejected', false, () => signIn({ audience: 'another-client' }));
+    await check('HS256 token signed with the client secret is rejected', false, () => signIn({ algorithm: 'HS256' }));
+    await check('unsigned token is rejected', false, () => signIn({ algorithm: 'none' }));
+    await check('email without email_verified is rejected', false, () => signIn({ emailVerified: undefined }));
+
+    console.log(`\n${failures === 0 ? 'All checks passed' : `${failures} check(s) failed`}`);
+    process.exitCode = failures === 0 ? 0 : 1;
+
+  } catch (error) {
+    console.error('Error running OIDC checks:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.oidcAuthRequest.deleteMany({
+      where: { stateHash: { in: issuedStates.map(state => hashToken(state)) } }
+    });
+    await prisma.admin.delete({ where: { id: admin.id } });
+    await issuer.close();
+    await prisma.$disconnect();
+  }
+}
+
+checkOidcAgainstMockIssuer();
@@ -0,0 +1,40 @@
+/**
+ * OpenID Connect sign-in for admins
+ * Disabled unless the discovery URL, client ID, client secret and redirect URI are all set
+ */
+
+export interface OidcConfig {
+  discoveryUrl: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  // Only identities with an email at this domain may sign in (e.g. "example.com")
+  allowedEmailDomain: string | null;
+  // Create an admin on first sign-in instead of requiring an existing account
+  autoCreateAdmins: boolean;
+  // Role given to admins created on first sign-in
+  defaultRoleSlug: string | null;
+}
+
+export const getOidcConfig = (): OidcConfig | null => {
+  const discoveryUrl = process.env.OIDC_DISCOVERY_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  const redirectUri = process.env.OIDC_REDIRECT_URI;
+
+  if (!discoveryUrl || !clientId || !clientSecret || !redirectUri) {
+    return null;
+  }
+
+  return {
+    discoveryUrl,
+    clientId,
+    clientSecret,
+    redirectUri,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    allowedEmailDomain: process.env.OIDC_ALLOWED_EMAIL_DOMAIN?.toLowerCase() || null,
+    autoCreateAdmins: process.env.OIDC_AUTO_CREATE_ADMINS === 'true',
+    defaultRoleSlug: process.env.OIDC_DEFAULT_ROLE || null
+  };
+};
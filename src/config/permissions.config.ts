@@ -0,0 +1,64 @@
+/**
+ * Admin permissions and the default roles that bundle them,
+ * plus the scopes a business API key can be granted
+ */
+
+export const PERMISSIONS = {
+  ONBOARDING_REVIEW: 'onboarding.review',
+  BUSINESS_READ: 'business.read',
+  BUSINESS_EDIT: 'business.edit',
+  INTERESTS_READ: 'interests.read',
+  INTERESTS_MANAGE: 'interests.manage',
+  REMOVAL_APPROVE: 'removal.approve',
+  ACCOUNTS_UNLOCK: 'accounts.unlock',
+  ADMINS_MANAGE: 'admins.manage'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const SUPER_ADMIN_ROLE_SLUG = 'super_admin';
+
+// Seeded by prisma/seed.ts; re-running the seed resets their permissions to these
+export const DEFAULT_ADMIN_ROLES: {
+  slug: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}[] = [
+  {
+    slug: SUPER_ADMIN_ROLE_SLUG,
+    name: 'Super Admin',
+    description: 'Full access, including managing other admins',
+    permissions: ALL_PERMISSIONS
+  },
+  {
+    slug: 'onboarding_reviewer',
+    name: 'Onboarding Reviewer',
+    description: 'Reviews onboarding requests and business profiles',
+    permissions: [
+      PERMISSIONS.ONBOARDING_REVIEW,
+      PERMISSIONS.BUSINESS_READ
+    ]
+  },
+  {
+    slug: 'crm_operator',
+    name: 'CRM Operator',
+    description: 'Works investor interests and follow-ups',
+    permissions: [
+      PERMISSIONS.INTERESTS_READ,
+      PERMISSIONS.INTERESTS_MANAGE,
+      PERMISSIONS.BUSINESS_READ
+    ]
+  }
+];
+
+export const API_KEY_SCOPES = {
+  INTERESTS_CREATE: 'interests.create',
+  INTERESTS_READ: 'interests.read'
+} as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[keyof typeof API_KEY_SCOPES];
+
+export const ALL_API_KEY_SCOPES: ApiKeyScope[] = Object.values(API_KEY_SCOPES);
@@ -1,7 +1,7 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
 
 // Base upload directory
 const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
@@ -202,6 +202,20 @@ export const deleteFile = (filePath: string): boolean => {
   }
 };
 
+// Error middleware for upload routes: remove the files multer stored when validation
+// or the handler fails, so rejected requests do not leave files in temp folders
+export const removeUploadedFilesOnError = (err: unknown, req: Request, _res: Response, next: NextFunction) => {
+  const files = req.files
+    ? Array.isArray(req.files) ? req.files : Object.values(req.files).flat()
+    : [];
+
+  for (const file of [...files, ...(req.file ? [req.file] : [])]) {
+    deleteFile(file.path);
+  }
+
+  next(err);
+};
+
 // Registration-specific storage configuration
 const registrationStorage = multer.diskStorage({
   destination: (req: Request, file, cb) => {
@@ -0,0 +1,53 @@
+import { MediaType, VerificationItem } from '@prisma/client';
+
+/**
+ * KYC checks an admin works through before approving a business,
+ * and the badge each passed check shows on the public profile
+ */
+
+export interface VerificationItemConfig {
+  label: string;
+  badge: string;
+  // Whether approval waits on this check; admins can override it per business
+  required: boolean;
+  // Business fields the check vouches for; changing one sends a passed check back to pending
+  fields: string[];
+  // Document that must be uploaded before the check can pass
+  mediaType?: MediaType;
+}
+
+// Comma-separated list of items required by default
+const REQUIRED_ITEMS = (process.env.VERIFICATION_REQUIRED_ITEMS ||
+  'REGISTRATION_CERTIFICATE,PAN_CERTIFICATE,CONTACT_PHONE,FINANCIAL_DOCUMENTS')
+  .split(',')
+  .map(item => item.trim());
+
+export const VERIFICATION_ITEMS: Record<VerificationItem, VerificationItemConfig> = {
+  REGISTRATION_CERTIFICATE: {
+    label: 'Registration certificate matches the registration number',
+    badge: 'Registered company',
+    required: REQUIRED_ITEMS.includes('REGISTRATION_CERTIFICATE'),
+    fields: ['name', 'registrationNumber'],
+    mediaType: 'REGISTRATION_CERTIFICATE'
+  },
+  PAN_CERTIFICATE: {
+    label: 'PAN certificate matches the PAN number',
+    badge: 'PAN verified',
+    required: REQUIRED_ITEMS.includes('PAN_CERTIFICATE'),
+    fields: ['panNumber'],
+    mediaType: 'PAN_CERTIFICATE'
+  },
+  CONTACT_PHONE: {
+    label: 'Contact phone verified',
+    badge: 'Phone verified',
+    required: REQUIRED_ITEMS.includes('CONTACT_PHONE'),
+    fields: ['contactPhone']
+  },
+  FINANCIAL_DOCUMENTS: {
+    label: 'Financial documents reviewed',
+    badge: 'Financials reviewed',
+    required: REQUIRED_ITEMS.includes('FINANCIAL_DOCUMENTS'),
+    fields: [],
+    mediaType: 'FINANCIAL_DOCUMENT'
+  }
+};
@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  listAdmins,
+  listAdminRoles,
+  inviteAdmin,
+  resendAdminInvitation,
+  updateAdminRole,
+  deactivateAdmin,
+  reactivateAdmin
+} from '../services/admin.service';
+import { listAuditLogs } from '../services/audit.service';
+
+/**
+ * GET /api/admins
+ * List admins (Admin)
+ */
+export const listAdminsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { isActive } = req.query;
+
+    const admins = await listAdmins({
+      isActive: isActive === undefined ? undefined : isActive === 'true'
+    });
+
+    return res.status(200).json({ admins });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/admins/roles
+ * List assignable admin roles (Admin)
+ */
+export const listAdminRolesHandler = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const roles = await listAdminRoles();
+
+    return res.status(200).json({ roles });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/admins/invite
+ * Invite a new admin (Admin)
+ */
+export const inviteAdminHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { email, username, roleId } = req.body;
+
+    const admin = await inviteAdmin(req.user.id, { email, username, roleId });
+
+    return res.status(201).json({
+      message: 'Admin invited successfully',
+      admin
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/admins/:id/resend-invite
+ * Resend the invitation email (Admin)
+ */
+export const resendAdminInvitationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    await resendAdminInvitation(id);
+
+    return res.status(200).json({
+      message: 'Invitation resent successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/admins/:id/role
+ * Change an admin's role (Admin)
+ */
+export const updateAdminRoleHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { roleId } = req.body;
+
+    const admin = await updateAdminRole(id, roleId);
+
+    return res.status(200).json({
+      message: 'Admin role updated successfully',
+      admin
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/admins/:id/deactivate
+ * Deactivate an admin (Admin)
+ */
+export const deactivateAdminHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+
+    const admin = await deactivateAdmin(id, req.user.id);
+
+    return res.status(200).json({
+      message: 'Admin deactivated successfully',
+      admin
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/admins/:id/reactivate
+ * Reactivate an admin (Admin)
+ */
+export const reactivateAdminHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const admin = await reactivateAdmin(id);
+
+    return res.status(200).json({
+      message: 'Admin reactivated successfully',
+      admin
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/admins/audit-logs
+ * List audit log entries (Admin)
+ */
+export const listAuditLogsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, adminId, targetType, targetId, action } = req.query;
+
+    const result = await listAuditLogs({
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+      adminId: adminId as string | undefined,
+      targetType: targetType as string | undefined,
+      targetId: targetId as string | undefined,
+      action: action as string | undefined
+    });
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,68 @@
 import { Request, Response, NextFunction } from 'express';
-import { loginUser } from '../services/auth.service';
+import { loginUser, requestPasswordReset, resetPassword } from '../services/auth.service';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSessionByRefreshToken,
+  revokeAllSessions,
+  listActiveSessions,
+  revokeOwnSession,
+  SessionClient
+} from '../services/session.service';
+import {
+  listLockedAccounts,
+  unlockAccount,
+  unlockAccountWithToken
+} from '../services/loginProtection.service';
+import {
+  isAdminTwoFactorRequired,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  createTwoFactorChallenge,
+  completeTwoFactorChallenge
+} from '../services/twoFactor.service';
+import { getAuthenticatedUser } from '../services/account.service';
+import { acceptAdminInvitation } from '../services/admin.service';
+import { confirmBusinessEmailChange } from '../services/businessProfile.service';
+import { endImpersonation } from '../services/impersonation.service';
+import { requestMagicLink, consumeMagicLink } from '../services/magicLink.service';
+import { isOidcEnabled, startOidcLogin, completeOidcLogin } from '../services/oidc.service';
+import {
+  validateBusinessInvitation,
+  acceptBusinessInvitation
+} from '../services/businessMember.service';
+
+/**
+ * Device details stored on the session for the sessions list
+ */
+const getSessionClient = (req: Request): SessionClient => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent')
+});
+
+type LoginUser =
+  | Awaited<ReturnType<typeof loginUser>>
+  | Awaited<ReturnType<typeof getAuthenticatedUser>>;
+
+/**
+ * User details returned by every login response
+ * Rejected businesses get the rejection reason so they can fix their profile
+ */
+const toLoginUserPayload = (user: LoginUser) => ({
+  id: user.id,
+  email: user.email,
+  role: user.role,
+  username: user.username,
+  businessRole: 'businessRole' in user ? user.businessRole : undefined,
+  businessStatus: 'businessStatus' in user ? user.businessStatus : undefined,
+  rejectionReason: 'rejectionReason' in user ? user.rejectionReason : undefined
+});
 
 /**
  * POST /api/auth/login
- * Login user (Business or Admin)
+ * Login user (Admin, Business or Investor)
  */
 export const loginHandler = async (
   req: Request,
@@ -13,7 +72,676 @@ export const loginHandler = async (
   try {
     const { email, password } = req.body;
 
-    const user = await loginUser(email, password);
+    const user = await loginUser(email, password, req.ip || 'unknown');
+
+    // Password was correct but a second factor is still needed
+    if (user.twoFactorEnabled) {
+      const challengeToken = await createTwoFactorChallenge(user.id, user.role);
+
+      return res.status(200).json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken
+      });
+    }
+
+    const tokens = await createSession(user.id, user.role, getSessionClient(req));
+
+    return res.status(200).json({
+      message: 'Login successful',
+      user: toLoginUserPayload(user),
+      twoFactorSetupRequired: user.role === 'ADMIN' && isAdminTwoFactorRequired(),
+      ...tokens
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access/refresh token pair
+ */
+export const refreshHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokens = await rotateRefreshToken(refreshToken, getSessionClient(req));
+
+    return res.status(200).json({
+      message: 'Token refreshed successfully',
+      ...tokens
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/logout
+ * Revoke the session belonging to a refresh token
+ */
+export const logoutHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { refreshToken } = req.body;
+
+    await revokeSessionByRefreshToken(refreshToken);
+
+    return res.status(200).json({
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/forgot-password
+ * Send a password reset link if the account exists
+ */
+export const forgotPasswordHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { email } = req.body;
+
+    await requestPasswordReset(email);
+
+    // Same response whether or not the account exists
+    return res.status(200).json({
+      message: 'If an account exists for this email, a password reset link has been sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token
+ */
+export const resetPasswordHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, password } = req.body;
+
+    await resetPassword(token, password);
+
+    return res.status(200).json({
+      message: 'Password has been reset successfully. Please log in with your new password.'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/unlock-account
+ * Unlock a locked account using the emailed token
+ */
+export const unlockAccountHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.body;
+
+    await unlockAccountWithToken(token);
+
+    return res.status(200).json({
+      message: 'Account unlocked successfully. You can now log in.'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/auth/locked-accounts
+ * List currently locked accounts (Admin)
+ */
+export const listLockedAccountsHandler = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const accounts = await listLockedAccounts();
+
+    return res.status(200).json({ accounts });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/auth/locked-accounts/:id/unlock
+ * Unlock an account (Admin)
+ */
+export const adminUnlockAccountHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    await unlockAccount(id, role);
+
+    return res.status(200).json({
+      message: 'Account unlocked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/2fa/verify
+ * Complete login with a TOTP or recovery code
+ */
+export const verifyTwoFactorLoginHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    const { userId, role, loginMethod } = await completeTwoFactorChallenge(challengeToken, code);
+    const user = await getAuthenticatedUser(userId, role);
+    const tokens = await createSession(user.id, user.role, getSessionClient(req), loginMethod);
+
+    return res.status(200).json({
+      message: 'Login successful',
+      user: toLoginUserPayload(user),
+      ...tokens
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/2fa/setup
+ * Generate a TOTP secret and otpauth URI for enrollment
+ */
+export const setupTwoFactorHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await beginTwoFactorSetup(req.user.id, req.user.role);
+
+    return res.status(200).json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrollment and receive recovery codes
+ */
+export const enableTwoFactorHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { code } = req.body;
+
+    const result = await enableTwoFactor(req.user.id, req.user.role, code);
+
+    return res.status(200).json({
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn off two-factor authentication
+ */
+export const disableTwoFactorHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { password, code } = req.body;
+
+    await disableTwoFactor(req.user.id, req.user.role, password, code);
+
+    return res.status(200).json({
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Regenerate recovery codes
+ */
+export const regenerateRecoveryCodesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { code } = req.body;
+
+    const result = await regenerateRecoveryCodes(req.user.id, req.user.role, code);
+
+    return res.status(200).json({
+      message: 'Recovery codes regenerated. Previous codes no longer work.',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/auth/invitations/:token
+ * Validate a business team invitation
+ */
+export const validateInvitationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.params;
+
+    const result = await validateBusinessInvitation(token);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/accept-invitation
+ * Accept a business team invitation and set a password
+ */
+export const acceptInvitationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, password } = req.body;
+
+    const member = await acceptBusinessInvitation(token, password);
+
+    return res.status(201).json({
+      message: 'Invitation accepted. You can now log in.',
+      member
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/accept-admin-invite
+ * Set a password for an invited admin account
+ */
+export const acceptAdminInvitationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, password } = req.body;
+
+    await acceptAdminInvitation(token, password);
+
+    return res.status(200).json({
+      message: 'Password set successfully. You can now log in.'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/auth/sessions
+ * List active sessions of the logged-in account
+ */
+export const listSessionsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const sessions = await listActiveSessions(req.user.id, req.user.role, req.user.sessionId);
+
+    return res.status(200).json({ sessions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke one session of the logged-in account
+ */
+export const revokeSessionHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+
+    await revokeOwnSession(req.user.id, req.user.role, id);
+
+    return res.status(200).json({
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/auth/sessions
+ * Revoke all other sessions, or every session with ?includeCurrent=true
+ */
+export const revokeAllSessionsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const includeCurrent = req.query.includeCurrent === 'true';
+
+    await revokeAllSessions(
+      req.user.id,
+      req.user.role,
+      includeCurrent ? undefined : req.user.sessionId
+    );
+
+    return res.status(200).json({
+      message: includeCurrent
+        ? 'All sessions revoked successfully'
+        : 'All other sessions revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/confirm-email-change
+ * Confirm a login email change with the emailed token
+ */
+export const confirmEmailChangeHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.body;
+
+    const result = await confirmBusinessEmailChange(token);
+
+    return res.status(200).json({
+      message: 'Email changed successfully. Use your new email to log in.',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/auth/impersonation
+ * Banner data for the current session (who is impersonating and until when)
+ */
+export const getImpersonationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { impersonation } = req.user;
+
+    return res.status(200).json({
+      impersonating: !!impersonation,
+      impersonation: impersonation && {
+        admin: {
+          id: impersonation.adminId,
+          username: impersonation.adminUsername,
+          email: impersonation.adminEmail
+        },
+        businessId: req.user.businessId,
+        businessName: req.user.username,
+        startedAt: impersonation.startedAt,
+        expiresAt: impersonation.expiresAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/impersonation/end
+ * End the current impersonation session
+ */
+export const endImpersonationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!req.user.impersonation) {
+      return res.status(400).json({ error: 'This session is not an impersonation session' });
+    }
+
+    await endImpersonation(
+      req.user.impersonation.adminId,
+      req.user.sessionId,
+      req.user.businessId || req.user.id,
+      req.ip
+    );
+
+    return res.status(200).json({
+      message: 'Impersonation ended'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/magic-link
+ * Email a single-use login link (Investor)
+ */
+export const requestMagicLinkHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { email } = req.body;
+
+    await requestMagicLink(email, req.ip || 'unknown');
+
+    return res.status(200).json({
+      message: 'If an investor account exists for this email, a login link has been sent.'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/magic-link/verify
+ * Log in with a magic link token
+ * The session only works on investor routes
+ */
+export const verifyMagicLinkHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.body;
+
+    const user = await consumeMagicLink(token);
+
+    if (user.twoFactorEnabled) {
+      const challengeToken = await createTwoFactorChallenge(user.id, user.role, 'MAGIC_LINK');
+
+      return res.status(200).json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken
+      });
+    }
+
+    const tokens = await createSession(user.id, user.role, getSessionClient(req), 'MAGIC_LINK');
+
+    return res.status(200).json({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        username: user.username
+      },
+      ...tokens
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/auth/oidc
+ * Whether admins can sign in with the identity provider
+ */
+export const getOidcStatusHandler = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    return res.status(200).json({ enabled: isOidcEnabled() });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/auth/oidc/start
+ * Get the identity provider URL to start admin sign-in
+ */
+export const startOidcLoginHandler = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await startOidcLogin();
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/auth/oidc/callback
+ * Complete admin sign-in with the code returned by the identity provider
+ */
+export const oidcCallbackHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { code, state } = req.body;
+
+    const { adminId } = await completeOidcLogin(code, state);
+    const user = await getAuthenticatedUser(adminId, 'ADMIN');
+
+    if (user.twoFactorEnabled) {
+      const challengeToken = await createTwoFactorChallenge(user.id, user.role, 'OIDC');
+
+      return res.status(200).json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken
+      });
+    }
+
+    const tokens = await createSession(user.id, user.role, getSessionClient(req), 'OIDC');
 
     return res.status(200).json({
       message: 'Login successful',
@@ -23,8 +751,8 @@ export const loginHandler = async (
         role: user.role,
         username: user.username
       },
-      // Auth token format for API requests (temporary stub format)
-      authToken: `${user.id}|${user.email}|${user.role}`
+      twoFactorSetupRequired: isAdminTwoFactorRequired(),
+      ...tokens
     });
   } catch (error) {
     next(error);
@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import {
-  getAllCategories,
+  getNepalLocations,
   listPendingBusinesses,
+  assignBusinessReview,
   approveBusiness,
   rejectBusiness,
   listApprovedBusinesses,
@@ -14,6 +15,17 @@ import {
   approveRemovalRequest,
   rejectRemovalRequest
 } from '../services/business.service';
+import { listBusinessReviewRounds } from '../services/businessReviewRound.service';
+import { getVerificationChecklist, updateVerificationCheck } from '../services/businessVerification.service';
+import {
+  getAllCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  mergeCategories
+} from '../services/category.service';
+import { startImpersonation } from '../services/impersonation.service';
+import { VerificationItem } from '@prisma/client';
 
 /**
  * GET /api/businesses/categories
@@ -32,6 +44,134 @@ export const getAllCategoriesHandler = async (
   }
 };
 
+/**
+ * POST /api/businesses/categories
+ * Create a category or subcategory
+ */
+export const createCategoryHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { name, slug, description, parentId } = req.body;
+
+    const category = await createCategory({ name, slug, description, parentId }, req.user.id, req.ip);
+
+    return res.status(201).json({
+      message: 'Category created',
+      category
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/businesses/categories/:categoryId
+ * Update a category or move it under another category
+ */
+export const updateCategoryHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { name, slug, description, parentId } = req.body;
+
+    const category = await updateCategory(
+      parseInt(req.params.categoryId),
+      { name, slug, description, parentId },
+      req.user.id,
+      req.ip
+    );
+
+    return res.status(200).json({
+      message: 'Category updated',
+      category
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/businesses/categories/:categoryId
+ * Delete an unused category
+ */
+export const deleteCategoryHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await deleteCategory(parseInt(req.params.categoryId), req.user.id, req.ip);
+
+    return res.status(200).json({ message: 'Category deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/businesses/categories/:categoryId/merge
+ * Merge a duplicate category into another category
+ */
+export const mergeCategoriesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await mergeCategories(
+      parseInt(req.params.categoryId),
+      req.body.targetCategoryId,
+      req.user.id,
+      req.ip
+    );
+
+    return res.status(200).json({
+      message: 'Categories merged',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/businesses/locations
+ * Get Nepal provinces, districts and local levels
+ */
+export const getNepalLocationsHandler = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const provinces = getNepalLocations();
+    return res.status(200).json({ provinces });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * GET /api/businesses/pending
  * List pending businesses for approval (Admin)
@@ -42,9 +182,12 @@ export const listPendingBusinessesHandler = async (
   next: NextFunction
 ) => {
   try {
-    const { page, limit } = req.query;
+    const { assignee, overdue, page, limit } = req.query;
 
     const result = await listPendingBusinesses({
+      // "me" is the signed-in admin's queue
+      assigneeId: assignee === 'me' ? req.user?.id : assignee === 'unassigned' ? null : assignee as string | undefined,
+      overdue: overdue === 'true',
       page: page ? parseInt(page as string) : undefined,
       limit: limit ? parseInt(limit as string) : undefined
     });
@@ -55,6 +198,97 @@ export const listPendingBusinessesHandler = async (
   }
 };
 
+/**
+ * PUT /api/businesses/:id/assignee
+ * Assign a business review to a reviewer (Admin)
+ */
+export const assignBusinessReviewHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { assigneeId } = req.body;
+
+    const business = await assignBusinessReview(id, assigneeId);
+
+    return res.status(200).json({
+      message: assigneeId ? 'Business review assigned' : 'Business review unassigned',
+      business
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/businesses/:id/review-rounds
+ * Get each submission of a business for review, what changed and the outcome
+ */
+export const getBusinessReviewRoundsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const rounds = await listBusinessReviewRounds(id, true);
+
+    return res.status(200).json({ rounds });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/businesses/:id/verification
+ * Get the KYC verification checklist of a business
+ */
+export const getVerificationChecklistHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const verification = await getVerificationChecklist(id);
+
+    return res.status(200).json({ verification });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/businesses/:id/verification/:item
+ * Record a verification check
+ */
+export const updateVerificationCheckHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id, item } = req.params;
+
+    const verification = await updateVerificationCheck(id, item as VerificationItem, req.user.id, req.body);
+
+    return res.status(200).json({
+      message: 'Verification check updated',
+      verification
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * PUT /api/businesses/:id/approve
  * Approve business
@@ -65,8 +299,12 @@ export const approveBusinessHandler = async (
   next: NextFunction
 ) => {
   try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
     const { id } = req.params;
-    const business = await approveBusiness(id);
+    const business = await approveBusiness(id, req.user.id);
 
     return res.status(200).json({
       message: 'Business approved successfully',
@@ -91,10 +329,14 @@ export const rejectBusinessHandler = async (
   next: NextFunction
 ) => {
   try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
     const { id } = req.params;
     const { rejectionReason } = req.body;
 
-    const business = await rejectBusiness(id, rejectionReason);
+    const business = await rejectBusiness(id, req.user.id, rejectionReason);
 
     return res.status(200).json({
       message: 'Business rejected',
@@ -120,10 +362,12 @@ export const listApprovedBusinessesHandler = async (
   next: NextFunction
 ) => {
   try {
-    const { categoryId, page, limit } = req.query;
+    const { categoryId, province, district, page, limit } = req.query;
 
     const result = await listApprovedBusinesses({
-      categoryId: categoryId as string | undefined,
+      categoryId: categoryId ? parseInt(categoryId as string) : undefined,
+      province: province as string | undefined,
+      district: district as string | undefined,
       page: page ? parseInt(page as string) : undefined,
       limit: limit ? parseInt(limit as string) : undefined
     });
@@ -163,9 +407,11 @@ export const listAllBusinessesForAdminHandler = async (
   next: NextFunction
 ) => {
   try {
-    const { page, limit } = req.query;
+    const { province, district, page, limit } = req.query;
 
     const result = await listAllBusinessesForAdmin({
+      province: province as string | undefined,
+      district: district as string | undefined,
       page: page ? parseInt(page as string) : undefined,
       limit: limit ? parseInt(limit as string) : undefined
     });
@@ -308,3 +554,34 @@ export const rejectRemovalRequestHandler = async (
     next(error);
   }
 };
+
+/**
+ * POST /api/businesses/:id/impersonate
+ * Start a time-limited session viewing the business as its owner (Super admin)
+ */
+export const startImpersonationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const result = await startImpersonation(req.user.id, id, reason, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return res.status(201).json({
+      message: 'Impersonation session started',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
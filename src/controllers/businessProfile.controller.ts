@@ -3,8 +3,10 @@ import {
   getOwnBusinessProfile,
   updateOwnBusinessProfile,
   changeBusinessPassword,
+  requestBusinessEmailChange,
   requestBusinessRemoval
 } from '../services/businessProfile.service';
+import { resubmitBusiness, listBusinessReviewRounds } from '../services/businessReviewRound.service';
 import {
   getBusinessInterests,
   updateInterestFollowUp,
@@ -16,6 +18,19 @@ import {
   deleteLeadSource,
   getTodayFollowUps
 } from '../services/interest.service';
+import {
+  listBusinessMembers,
+  inviteBusinessMember,
+  revokeBusinessInvitation,
+  updateBusinessMemberRole,
+  removeBusinessMember
+} from '../services/businessMember.service';
+import {
+  listApiKeys,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey
+} from '../services/apiKey.service';
 import { InterestStatus } from '@prisma/client';
 
 /**
@@ -28,11 +43,11 @@ export const getOwnProfileHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const business = await getOwnBusinessProfile(req.user.id);
+    const business = await getOwnBusinessProfile(req.user.businessId);
 
     return res.status(200).json({ business });
   } catch (error) {
@@ -50,11 +65,11 @@ export const updateOwnProfileHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const updated = await updateOwnBusinessProfile(req.user.id, req.body);
+    const updated = await updateOwnBusinessProfile(req.user.businessId, req.body);
 
     return res.status(200).json({
       message: 'Profile updated successfully',
@@ -65,6 +80,53 @@ export const updateOwnProfileHandler = async (
   }
 };
 
+/**
+ * POST /api/business/resubmit
+ * Resubmit a rejected business for review
+ */
+export const resubmitBusinessHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const submission = await resubmitBusiness(req.user.businessId);
+
+    return res.status(200).json({
+      message: 'Business resubmitted for review',
+      submission
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/business/review-rounds
+ * Get the review history of own business
+ */
+export const getOwnReviewRoundsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const rounds = await listBusinessReviewRounds(req.user.businessId);
+
+    return res.status(200).json({ rounds });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * GET /api/business/interests
  * Get interest submissions for own business
@@ -75,16 +137,13 @@ export const getOwnBusinessInterestsHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    // First get the business ID for this login
-    const business = await getOwnBusinessProfile(req.user.id);
-
     const { page, limit, status, source } = req.query;
 
-    const result = await getBusinessInterests(business.id, {
+    const result = await getBusinessInterests(req.user.businessId, {
       page: page ? parseInt(page as string) : undefined,
       limit: limit ? parseInt(limit as string) : undefined,
       status: status as InterestStatus | undefined,
@@ -113,7 +172,7 @@ export const changePasswordHandler = async (
 
     const { currentPassword, newPassword } = req.body;
 
-    await changeBusinessPassword(req.user.id, currentPassword, newPassword);
+    await changeBusinessPassword(req.user.id, req.user.sessionId, currentPassword, newPassword);
 
     return res.status(200).json({
       message: 'Password updated successfully'
@@ -123,6 +182,32 @@ export const changePasswordHandler = async (
   }
 };
 
+/**
+ * PUT /api/business/change-email
+ * Request a login email change (confirmed from the new address)
+ */
+export const changeEmailHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { currentPassword, newEmail } = req.body;
+
+    await requestBusinessEmailChange(req.user.id, currentPassword, newEmail);
+
+    return res.status(200).json({
+      message: 'Verification link sent to the new email address. Your email will change once it is confirmed.'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * POST /api/business/request-removal
  * Request business profile removal
@@ -133,13 +218,13 @@ export const requestRemovalHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
     const { reason } = req.body;
 
-    await requestBusinessRemoval(req.user.id, reason);
+    await requestBusinessRemoval(req.user.businessId, reason);
 
     return res.status(200).json({
       message: 'Removal request submitted successfully'
@@ -159,7 +244,7 @@ export const updateInterestFollowUpHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
@@ -171,10 +256,7 @@ export const updateInterestFollowUpHandler = async (
       return res.status(400).json({ error: 'Invalid status value' });
     }
 
-    // Get the business ID for this login
-    const business = await getOwnBusinessProfile(req.user.id);
-
-    const updated = await updateInterestFollowUp(id, business.id, {
+    const updated = await updateInterestFollowUp(id, req.user.businessId, {
       contacted,
       followUpRemarks,
       status: status as InterestStatus | undefined,
@@ -200,7 +282,7 @@ export const addInterestFollowUpHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
@@ -211,10 +293,7 @@ export const addInterestFollowUpHandler = async (
       return res.status(400).json({ error: 'Remarks are required' });
     }
 
-    // Get the business ID for this login
-    const business = await getOwnBusinessProfile(req.user.id);
-
-    const followUp = await addInterestFollowUp(id, business.id, remarks, nextFollowUpDate);
+    const followUp = await addInterestFollowUp(id, req.user.businessId, remarks, nextFollowUpDate);
 
     return res.status(201).json({
       message: 'Follow-up added successfully',
@@ -235,7 +314,7 @@ export const updateFollowUpHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
@@ -246,10 +325,7 @@ export const updateFollowUpHandler = async (
       return res.status(400).json({ error: 'Remarks are required' });
     }
 
-    // Get the business ID for this login
-    const business = await getOwnBusinessProfile(req.user.id);
-
-    const followUp = await updateFollowUp(followUpId, business.id, remarks, nextFollowUpDate);
+    const followUp = await updateFollowUp(followUpId, req.user.businessId, remarks, nextFollowUpDate);
 
     return res.status(200).json({
       message: 'Follow-up updated successfully',
@@ -270,16 +346,13 @@ export const deleteFollowUpHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
     const { followUpId } = req.params;
 
-    // Get the business ID for this login
-    const business = await getOwnBusinessProfile(req.user.id);
-
-    await deleteFollowUp(followUpId, business.id);
+    await deleteFollowUp(followUpId, req.user.businessId);
 
     return res.status(200).json({
       message: 'Follow-up deleted successfully'
@@ -299,12 +372,11 @@ export const getLeadSourcesHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const business = await getOwnBusinessProfile(req.user.id);
-    const result = await getLeadSources(business.id);
+    const result = await getLeadSources(req.user.businessId);
 
     return res.status(200).json(result);
   } catch (error) {
@@ -322,7 +394,7 @@ export const addLeadSourceHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
@@ -332,8 +404,7 @@ export const addLeadSourceHandler = async (
       return res.status(400).json({ error: 'Source name is required' });
     }
 
-    const business = await getOwnBusinessProfile(req.user.id);
-    const source = await addLeadSource(business.id, name.trim());
+    const source = await addLeadSource(req.user.businessId, name.trim());
 
     return res.status(201).json({
       message: 'Lead source added successfully',
@@ -354,14 +425,13 @@ export const deleteLeadSourceHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
     const { sourceId } = req.params;
 
-    const business = await getOwnBusinessProfile(req.user.id);
-    await deleteLeadSource(sourceId, business.id);
+    await deleteLeadSource(sourceId, req.user.businessId);
 
     return res.status(200).json({
       message: 'Lead source deleted successfully'
@@ -381,12 +451,11 @@ export const getTodayFollowUpsHandler = async (
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
+    if (!req.user?.businessId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const business = await getOwnBusinessProfile(req.user.id);
-    const interests = await getTodayFollowUps(business.id);
+    const interests = await getTodayFollowUps(req.user.businessId);
 
     return res.status(200).json({
       interests,
@@ -396,3 +465,234 @@ export const getTodayFollowUpsHandler = async (
     next(error);
   }
 };
+
+/**
+ * GET /api/business/members
+ * List team members and pending invitations
+ */
+export const listMembersHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await listBusinessMembers(req.user.businessId);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/business/members/invitations
+ * Invite a new team member
+ */
+export const inviteMemberHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { email, role } = req.body;
+
+    const invitation = await inviteBusinessMember(req.user.businessId, req.user.id, email, role);
+
+    return res.status(201).json({
+      message: 'Invitation sent successfully',
+      invitation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/business/members/invitations/:invitationId
+ * Revoke a pending invitation
+ */
+export const revokeInvitationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { invitationId } = req.params;
+
+    await revokeBusinessInvitation(req.user.businessId, invitationId);
+
+    return res.status(200).json({
+      message: 'Invitation revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/business/members/:memberId
+ * Change a team member's role
+ */
+export const updateMemberRoleHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { memberId } = req.params;
+    const { role } = req.body;
+
+    const member = await updateBusinessMemberRole(req.user.businessId, memberId, role);
+
+    return res.status(200).json({
+      message: 'Team member updated successfully',
+      member
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/business/members/:memberId
+ * Remove a team member
+ */
+export const removeMemberHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { memberId } = req.params;
+
+    await removeBusinessMember(req.user.businessId, memberId);
+
+    return res.status(200).json({
+      message: 'Team member removed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/business/api-keys
+ * List API keys
+ */
+export const listApiKeysHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const apiKeys = await listApiKeys(req.user.businessId);
+
+    return res.status(200).json({ apiKeys });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/business/api-keys
+ * Create an API key (the key is only returned once)
+ */
+export const createApiKeyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { name, scopes } = req.body;
+
+    const result = await createApiKey(req.user.businessId, req.user.id, name, scopes);
+
+    return res.status(201).json({
+      message: 'API key created. Copy it now, it will not be shown again.',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/business/api-keys/:keyId/rotate
+ * Replace an API key's secret
+ */
+export const rotateApiKeyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { keyId } = req.params;
+
+    const result = await rotateApiKey(req.user.businessId, keyId);
+
+    return res.status(200).json({
+      message: 'API key rotated. Copy it now, it will not be shown again.',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/business/api-keys/:keyId
+ * Revoke an API key
+ */
+export const revokeApiKeyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user?.businessId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { keyId } = req.params;
+
+    await revokeApiKey(req.user.businessId, keyId);
+
+    return res.status(200).json({
+      message: 'API key revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
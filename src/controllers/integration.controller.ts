@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  submitInterest,
+  getBusinessInterests,
+  resolveLeadSource
+} from '../services/interest.service';
+import { InterestStatus } from '@prisma/client';
+
+// Leads pushed through the API come from the business's own website unless told otherwise
+const DEFAULT_INTEGRATION_SOURCE = 'Website';
+
+/**
+ * POST /api/integrations/interests
+ * Create an interest for the API key's business
+ */
+export const createIntegrationInterestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.apiKey) {
+      return res.status(401).json({ error: 'API key required' });
+    }
+
+    const { investorName, phoneNumber, email, message, hasConsent, source } = req.body;
+
+    const leadSource = await resolveLeadSource(
+      req.apiKey.businessId,
+      source || DEFAULT_INTEGRATION_SOURCE
+    );
+
+    const interest = await submitInterest({
+      businessId: req.apiKey.businessId,
+      investorName,
+      phoneNumber,
+      email,
+      message,
+      hasConsent,
+      ...leadSource
+    });
+
+    return res.status(201).json({
+      message: 'Interest created successfully',
+      interest: {
+        id: interest.id,
+        source: interest.source,
+        status: interest.status,
+        submittedAt: interest.submittedAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/integrations/interests
+ * List interests of the API key's business
+ */
+export const listIntegrationInterestsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.apiKey) {
+      return res.status(401).json({ error: 'API key required' });
+    }
+
+    const { page, limit, status, source } = req.query;
+
+    const result = await getBusinessInterests(req.apiKey.businessId, {
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+      status: status as InterestStatus | undefined,
+      source: source as string | undefined
+    });
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
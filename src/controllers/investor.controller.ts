@@ -0,0 +1,185 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  registerInvestor,
+  resendInvestorVerification,
+  verifyInvestorEmail,
+  getInvestorProfile,
+  updateInvestorProfile,
+  listInvestorInterests,
+  submitInvestorInterest
+} from '../services/investor.service';
+
+/**
+ * POST /api/investors/register
+ * Register an investor account and send the verification email
+ */
+export const registerInvestorHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { email, password, fullName, phoneNumber } = req.body;
+
+    const investor = await registerInvestor({ email, password, fullName, phoneNumber });
+
+    return res.status(201).json({
+      message: 'Registration successful. Please check your email to verify your account.',
+      investor
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/investors/verify-email
+ * Verify an investor's email address
+ */
+export const verifyInvestorEmailHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.body;
+
+    const result = await verifyInvestorEmail(token);
+
+    return res.status(200).json({
+      message: 'Email verified successfully. You can now log in.',
+      linkedInquiries: result.linkedInquiries
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/investors/resend-verification
+ * Send a new verification link
+ */
+export const resendVerificationHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { email } = req.body;
+
+    await resendInvestorVerification(email);
+
+    return res.status(200).json({
+      message: 'If an unverified account exists for this email, a new verification link has been sent.'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/investors/me
+ * Get the logged-in investor's profile
+ */
+export const getInvestorProfileHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const investor = await getInvestorProfile(req.user.id);
+
+    return res.status(200).json({ investor });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/investors/me
+ * Update the logged-in investor's contact details
+ */
+export const updateInvestorProfileHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { fullName, phoneNumber } = req.body;
+
+    const investor = await updateInvestorProfile(req.user.id, { fullName, phoneNumber });
+
+    return res.status(200).json({
+      message: 'Profile updated successfully',
+      investor
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/investors/me/interests
+ * List every inquiry the investor has made
+ */
+export const listInvestorInterestsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { page, limit } = req.query;
+
+    const result = await listInvestorInterests(req.user.id, {
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined
+    });
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/investors/me/interests
+ * Submit interest in a business using the saved contact details
+ */
+export const submitInvestorInterestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { businessId, message, hasConsent } = req.body;
+
+    const interest = await submitInvestorInterest(req.user.id, { businessId, message, hasConsent });
+
+    return res.status(201).json({
+      message: 'Interest submitted successfully',
+      interest: {
+        id: interest.id,
+        businessName: interest.businessName,
+        submittedAt: interest.submittedAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
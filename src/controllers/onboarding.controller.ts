@@ -2,11 +2,28 @@ import { Request, Response, NextFunction } from 'express';
 import {
   createOnboardingRequest,
   listOnboardingRequests,
+  assignOnboardingRequest,
+  markOnboardingRequestContacted,
+  addOnboardingContactNote,
   approveOnboardingRequest,
   rejectOnboardingRequest,
+  regenerateRegistrationLink,
+  requestNewRegistrationLink,
   validateRegistrationToken,
   completeBusinessRegistration
 } from '../services/onboarding.service';
+import {
+  scanOnboardingRequestForDuplicates,
+  dismissDuplicateMatch,
+  linkOnboardingRequests,
+  mergeOnboardingRequests
+} from '../services/onboardingDuplicate.service';
+import { getReviewMetrics } from '../services/reviewQueue.service';
+import {
+  inviteBusiness,
+  listBusinessInvitations,
+  InvitationStage
+} from '../services/onboardingInvitation.service';
 
 /**
  * POST /api/onboarding/request
@@ -45,10 +62,65 @@ export const listOnboardingRequestsHandler = async (
   next: NextFunction
 ) => {
   try {
-    const { status, page, limit } = req.query;
+    const { status, flagged, assignee, overdue, page, limit } = req.query;
 
     const result = await listOnboardingRequests({
       status: status as any,
+      flagged: flagged === undefined ? undefined : flagged === 'true',
+      // "me" is the signed-in admin's queue
+      assigneeId: assignee === 'me' ? req.user?.id : assignee === 'unassigned' ? null : assignee as string | undefined,
+      overdue: overdue === 'true',
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined
+    });
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/invitations
+ * Invite a business directly and send its registration link
+ */
+export const inviteBusinessHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const invitation = await inviteBusiness(req.user.id, req.body);
+
+    return res.status(201).json({
+      message: 'Invitation sent',
+      invitation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/onboarding/invitations
+ * List business invitations with their conversion stage
+ */
+export const listBusinessInvitationsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { invitedBy, stage, page, limit } = req.query;
+
+    const result = await listBusinessInvitations({
+      // "me" is the signed-in admin's invitations
+      invitedById: invitedBy === 'me' ? req.user?.id : invitedBy as string | undefined,
+      stage: stage as InvitationStage | undefined,
       page: page ? parseInt(page as string) : undefined,
       limit: limit ? parseInt(limit as string) : undefined
     });
@@ -59,6 +131,222 @@ export const listOnboardingRequestsHandler = async (
   }
 };
 
+/**
+ * GET /api/onboarding/review-metrics
+ * Queue sizes, aging and review times for onboarding requests and pending businesses (Admin)
+ */
+export const getReviewMetricsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { olderThanDays } = req.query;
+
+    const metrics = await getReviewMetrics(
+      olderThanDays ? parseInt(olderThanDays as string) : undefined
+    );
+
+    return res.status(200).json(metrics);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/onboarding/requests/:id/assignee
+ * Assign an onboarding request to a reviewer
+ */
+export const assignOnboardingRequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { assigneeId } = req.body;
+
+    const request = await assignOnboardingRequest(id, assigneeId);
+
+    return res.status(200).json({
+      message: assigneeId ? 'Onboarding request assigned' : 'Onboarding request unassigned',
+      request
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/onboarding/requests/:id/contacted
+ * Mark onboarding request as contacted, optionally logging a contact note
+ */
+export const markOnboardingRequestContactedHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+    const { method, note, contactedAt } = req.body || {};
+
+    const request = await markOnboardingRequestContacted(
+      id,
+      req.user.id,
+      note
+        ? {
+            method: method || 'OTHER',
+            note,
+            contactedAt: contactedAt ? new Date(contactedAt) : undefined
+          }
+        : undefined
+    );
+
+    return res.status(200).json({
+      message: 'Onboarding request marked as contacted',
+      request
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/requests/:id/notes
+ * Add a contact note to an onboarding request
+ */
+export const addOnboardingContactNoteHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+    const { method, note, contactedAt } = req.body;
+
+    const contactNote = await addOnboardingContactNote(id, req.user.id, {
+      method,
+      note,
+      contactedAt: contactedAt ? new Date(contactedAt) : undefined
+    });
+
+    return res.status(201).json({
+      message: 'Contact note added',
+      note: contactNote
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/requests/:id/duplicates/scan
+ * Re-check an onboarding request for possible duplicates
+ */
+export const scanDuplicatesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const matches = await scanOnboardingRequestForDuplicates(id);
+
+    return res.status(200).json({ matches });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/onboarding/requests/:id/duplicates/:matchId/dismiss
+ * Dismiss a possible duplicate as unrelated
+ */
+export const dismissDuplicateHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id, matchId } = req.params;
+    await dismissDuplicateMatch(id, matchId, req.user.id);
+
+    return res.status(200).json({
+      message: 'Possible duplicate dismissed'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/requests/:id/links
+ * Link two onboarding requests from the same company
+ */
+export const linkOnboardingRequestsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+    const { relatedRequestId } = req.body;
+
+    const match = await linkOnboardingRequests(id, relatedRequestId, req.user.id, req.ip);
+
+    return res.status(200).json({
+      message: 'Onboarding requests linked',
+      match
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/requests/:id/merge
+ * Merge a duplicate onboarding request into another request
+ */
+export const mergeOnboardingRequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { id } = req.params;
+    const { targetRequestId } = req.body;
+
+    const request = await mergeOnboardingRequests(id, targetRequestId, req.user.id, req.ip);
+
+    return res.status(200).json({
+      message: 'Onboarding request merged',
+      request
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * PUT /api/onboarding/requests/:id/approve
  * Approve onboarding request and generate token
@@ -69,8 +357,12 @@ export const approveOnboardingRequestHandler = async (
   next: NextFunction
 ) => {
   try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
     const { id } = req.params;
-    const request = await approveOnboardingRequest(id);
+    const request = await approveOnboardingRequest(id, req.user.id);
 
     return res.status(200).json({
       message: 'Onboarding request approved',
@@ -98,10 +390,14 @@ export const rejectOnboardingRequestHandler = async (
   next: NextFunction
 ) => {
   try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
     const { id } = req.params;
     const { rejectionReason } = req.body;
 
-    const request = await rejectOnboardingRequest(id, rejectionReason);
+    const request = await rejectOnboardingRequest(id, req.user.id, rejectionReason);
 
     return res.status(200).json({
       message: 'Onboarding request rejected',
@@ -117,6 +413,58 @@ export const rejectOnboardingRequestHandler = async (
   }
 };
 
+/**
+ * POST /api/onboarding/requests/:id/regenerate-link
+ * Replace an unused registration link and email it to the business
+ */
+export const regenerateRegistrationLinkHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const request = await regenerateRegistrationLink(id);
+
+    return res.status(200).json({
+      message: 'A new registration link has been sent',
+      request: {
+        id: request.id,
+        businessName: request.businessName,
+        email: request.email,
+        status: request.status,
+        onboardingToken: request.onboardingToken,
+        tokenExpiresAt: request.tokenExpiresAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/request-new-link
+ * Ask admins for a new registration link after the old one expired
+ */
+export const requestNewRegistrationLinkHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { email } = req.body;
+
+    await requestNewRegistrationLink(email);
+
+    // Same response whether or not an expired link exists for this email
+    return res.status(200).json({
+      message: 'If your registration link has expired, our team has been notified and will send you a new one'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * GET /api/onboarding/validate/:token
  * Validate registration token
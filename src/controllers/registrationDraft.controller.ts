@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  getRegistrationDraft,
+  saveRegistrationDraftStep,
+  addRegistrationDraftFiles,
+  deleteRegistrationDraftFile,
+  submitRegistrationDraft
+} from '../services/registrationDraft.service';
+import { RegistrationStep } from '../validators/onboarding.validator';
+
+/**
+ * GET /api/onboarding/drafts/:token
+ * Get the saved registration draft
+ */
+export const getRegistrationDraftHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.params;
+    const result = await getRegistrationDraft(token);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/onboarding/drafts/:token/steps/:step
+ * Save one step of the registration form
+ */
+export const saveRegistrationDraftStepHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, step } = req.params;
+    const draft = await saveRegistrationDraftStep(token, step as RegistrationStep, req.body);
+
+    return res.status(200).json({
+      message: 'Draft saved',
+      draft
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/drafts/:token/files
+ * Upload files to the registration draft
+ */
+export const addRegistrationDraftFilesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.params;
+    const files = (req.files as { [fieldname: string]: Express.Multer.File[] } | undefined) || {};
+
+    const draft = await addRegistrationDraftFiles(token, files);
+
+    return res.status(200).json({
+      message: 'Files saved to draft',
+      draft
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/onboarding/drafts/:token/files/:fileId
+ * Remove a file from the registration draft
+ */
+export const deleteRegistrationDraftFileHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, fileId } = req.params;
+    await deleteRegistrationDraftFile(token, fileId);
+
+    return res.status(200).json({
+      message: 'File removed from draft'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/onboarding/drafts/:token/submit
+ * Complete registration from the saved draft
+ */
+export const submitRegistrationDraftHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.params;
+    const { password } = req.body;
+
+    const result = await submitRegistrationDraft(token, password);
+
+    return res.status(201).json({
+      message: 'Registration completed successfully',
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        role: result.user.role
+      },
+      business: {
+        id: result.business.id,
+        name: result.business.name,
+        status: result.business.status
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import prisma from '../config/prisma.config';
 import { getFileUrl, deleteFile, GALLERY_LIMIT, ALLOWED_MIME_TYPES } from '../config/upload.config';
 import { MediaType } from '@prisma/client';
+import { resetVerificationChecksForMedia } from '../services/businessVerification.service';
 
 // Valid media types from Prisma schema
 const VALID_MEDIA_TYPES = [
@@ -24,7 +25,8 @@ const VALID_MEDIA_TYPES = [
  */
 export const uploadBusinessMedia = async (req: Request, res: Response) => {
   try {
-    const { businessId, mediaType, title, description } = req.body;
+    const { mediaType, title, description } = req.body;
+    const businessId = req.user?.businessId;
     const file = req.file;
 
     if (!file) {
@@ -32,7 +34,8 @@ export const uploadBusinessMedia = async (req: Request, res: Response) => {
     }
 
     if (!businessId) {
-      return res.status(400).json({ error: 'Business ID is required' });
+      deleteFile(file.path);
+      return res.status(404).json({ error: 'Business profile not found' });
     }
 
     if (!mediaType) {
@@ -139,6 +142,9 @@ export const uploadBusinessMedia = async (req: Request, res: Response) => {
       }
     });
 
+    // A new document has not been checked yet
+    await resetVerificationChecksForMedia(businessId, media.mediaType);
+
     return res.status(201).json({
       message: 'File uploaded successfully',
       media: {
@@ -166,7 +172,7 @@ export const uploadBusinessMedia = async (req: Request, res: Response) => {
  */
 export const uploadBusinessLogo = async (req: Request, res: Response) => {
   try {
-    const { businessId } = req.body;
+    const businessId = req.user?.businessId;
     const file = req.file;
 
     console.log('Logo upload request:', { businessId, hasFile: !!file, fileName: file?.originalname });
@@ -177,18 +183,7 @@ export const uploadBusinessLogo = async (req: Request, res: Response) => {
 
     if (!businessId) {
       deleteFile(file.path);
-      return res.status(400).json({ error: 'Business ID is required' });
-    }
-
-    // Validate UUID format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(businessId)) {
-      console.error('Invalid UUID format:', businessId);
-      deleteFile(file.path);
-      return res.status(400).json({ 
-        error: 'Invalid Business ID format',
-        details: 'Business ID must be a valid UUID' 
-      });
+      return res.status(404).json({ error: 'Business profile not found' });
     }
 
     // Verify business exists
@@ -258,10 +253,11 @@ export const uploadBusinessLogo = async (req: Request, res: Response) => {
  */
 export const addExternalUrl = async (req: Request, res: Response) => {
   try {
-    const { businessId, mediaType, externalUrl, title, description } = req.body;
+    const { mediaType, externalUrl, title, description } = req.body;
+    const businessId = req.user?.businessId;
 
     if (!businessId) {
-      return res.status(400).json({ error: 'Business ID is required' });
+      return res.status(404).json({ error: 'Business profile not found' });
     }
 
     if (!mediaType) {
@@ -310,6 +306,8 @@ export const addExternalUrl = async (req: Request, res: Response) => {
       }
     });
 
+    await resetVerificationChecksForMedia(businessId, media.mediaType);
+
     return res.status(201).json({
       message: 'External URL added successfully',
       media
@@ -330,22 +328,21 @@ export const addExternalUrl = async (req: Request, res: Response) => {
 export const deleteBusinessMedia = async (req: Request, res: Response) => {
   try {
     const { mediaId } = req.params;
+    const businessId = req.user?.businessId;
+
+    if (!businessId) {
+      return res.status(404).json({ error: 'Business profile not found' });
+    }
 
-    // Find media
-    const media = await prisma.businessMedia.findUnique({
-      where: { id: mediaId },
-      include: { business: true }
+    // Only media of the signed-in business can be deleted
+    const media = await prisma.businessMedia.findFirst({
+      where: { id: mediaId, businessId }
     });
 
     if (!media) {
       return res.status(404).json({ error: 'Media not found' });
     }
 
-    // TODO: Add authentication check
-    // if (media.business.businessLoginId !== req.user?.id) {
-    //   return res.status(403).json({ error: 'Not authorized' });
-    // }
-
     // Extract file path from URL
     const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
     const filePath = media.fileUrl?.replace(`${baseUrl}/uploads`, './uploads').replace(/\//g, '\\') || '';
@@ -358,6 +355,9 @@ export const deleteBusinessMedia = async (req: Request, res: Response) => {
       where: { id: mediaId }
     });
 
+    // Checks made against the deleted document no longer hold
+    await resetVerificationChecksForMedia(businessId, media.mediaType);
+
     return res.status(200).json({
       message: 'Media deleted successfully'
     });
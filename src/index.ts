@@ -10,6 +10,9 @@ import onboardingRoutes from './routes/onboarding.routes';
 import businessRoutes from './routes/business.routes';
 import interestRoutes from './routes/interest.routes';
 import businessProfileRoutes from './routes/businessProfile.routes';
+import adminRoutes from './routes/admin.routes';
+import integrationRoutes from './routes/integration.routes';
+import investorRoutes from './routes/investor.routes';
 
 // Import error handler
 import { errorHandler } from './middlewares/errorHandler.middleware';
@@ -20,6 +23,9 @@ dotenv.config();
 const app: Application = express();
 const PORT = process.env.PORT ;
 
+// Number of reverse proxies in front of the app, so req.ip is the real client IP
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '0'));
+
 // Middleware
 // Configure CORS - support multiple origins from comma-separated FRONTEND_URL
 const allowedOrigins = (process.env.FRONTEND_URL || 'http://localhost:8081')
@@ -30,7 +36,8 @@ app.use(cors({
   origin: allowedOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['X-Impersonation-Admin', 'X-Impersonation-Expires-At']
 }));
 
 app.use(express.json());
@@ -50,6 +57,9 @@ app.use('/api/onboarding', onboardingRoutes);
 app.use('/api/businesses', businessRoutes);
 app.use('/api/interests', interestRoutes);
 app.use('/api/business', businessProfileRoutes);
+app.use('/api/admins', adminRoutes);
+app.use('/api/integrations', integrationRoutes);
+app.use('/api/investors', investorRoutes);
 
 // Error handling middleware (must be last)
 app.use(errorHandler);
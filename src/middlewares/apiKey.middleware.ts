@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { UnauthorizedError, ForbiddenError } from '../utils/errors';
+import { ApiKeyScope } from '../config/permissions.config';
+import { authenticateApiKey } from '../services/apiKey.service';
+
+/**
+ * API key authentication for business integrations
+ * Requires header: X-API-Key: <key>
+ */
+export const authenticateWithApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const key = req.get('x-api-key');
+
+    if (!key) {
+      throw new UnauthorizedError('API key required');
+    }
+
+    req.apiKey = await authenticateApiKey(key);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * API key scope check
+ * @param scope - Scope the key must have been granted
+ */
+export const requireApiKeyScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey) {
+      return next(new UnauthorizedError('API key required'));
+    }
+
+    if (!req.apiKey.scopes.includes(scope)) {
+      return next(new ForbiddenError('API key is not allowed to perform this action'));
+    }
+
+    next();
+  };
+};
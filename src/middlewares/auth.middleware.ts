@@ -1,37 +1,76 @@
 import { Request, Response, NextFunction } from 'express';
-import { UnauthorizedError, ForbiddenError } from '../utils/errors';
+import { BusinessMemberRole, BusinessStatus, UserRole } from '@prisma/client';
+import { UnauthorizedError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { verifyAccessToken } from '../utils/jwt.utils';
+import { assertActiveSession } from '../services/session.service';
+import { getAuthenticatedUser } from '../services/account.service';
+import { isAdminTwoFactorRequired } from '../services/twoFactor.service';
+import { Permission, SUPER_ADMIN_ROLE_SLUG } from '../config/permissions.config';
+import { tagImpersonatedRequest } from './impersonation.middleware';
 
 /**
- * Authentication middleware stub
- * TODO: Replace with better-auth integration
+ * Extract the bearer token from the Authorization header
  */
-export const authenticate = async (
+const getBearerToken = (req: Request): string | null => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader) {
+    return null;
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    throw new UnauthorizedError('Invalid authentication token');
+  }
+
+  return token;
+};
+
+/**
+ * Verify an access token and load the account it belongs to
+ * The session and the Admin/BusinessLogin record are checked on every request
+ * so revocation and deactivation take effect immediately
+ */
+const resolveUser = async (token: string) => {
+  const payload = verifyAccessToken(token);
+
+  const { loginMethod, impersonation } = await assertActiveSession(payload.sid, payload.sub, payload.role);
+  const user = await getAuthenticatedUser(payload.sub, payload.role);
+
+  return {
+    ...user,
+    sessionId: payload.sid,
+    loginMethod,
+    impersonation
+  };
+};
+
+/**
+ * Authenticate the request and attach the user
+ * @param allowMagicLink - Accept sessions started from an emailed login link
+ */
+const authenticateRequest = async (
   req: Request,
   res: Response,
-  next: NextFunction
+  next: NextFunction,
+  allowMagicLink: boolean
 ) => {
   try {
-    // TODO: Implement actual authentication
-    // For now, check for a simple header
-    const authHeader = req.headers.authorization;
+    const token = getBearerToken(req);
 
-    if (!authHeader) {
+    if (!token) {
       throw new UnauthorizedError('Authentication required');
     }
 
-    // Stub: Parse user from header
-    // In production, this would validate JWT or session
-    const [userId, email, role] = authHeader.split('|');
+    const user = await resolveUser(token);
 
-    if (!userId || !email || !role) {
-      throw new UnauthorizedError('Invalid authentication token');
+    if (user.loginMethod === 'MAGIC_LINK' && !allowMagicLink) {
+      throw new ForbiddenError('Please log in with your password to use this feature');
     }
 
-    req.user = {
-      id: userId,
-      email: email,
-      role: role as 'ADMIN' | 'BUSINESS'
-    };
+    req.user = user;
+    tagImpersonatedRequest(req, res);
 
     next();
   } catch (error) {
@@ -39,11 +78,28 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Authentication middleware
+ * Requires a valid access token: Authorization: Bearer <token>
+ * Magic-link sessions are rejected; use authenticateInvestor on investor routes
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  return authenticateRequest(req, res, next, false);
+};
+
+/**
+ * Authentication middleware for investor-facing routes
+ * Same as authenticate, but also accepts magic-link sessions
+ */
+export const authenticateInvestor = (req: Request, res: Response, next: NextFunction) => {
+  return authenticateRequest(req, res, next, true);
+};
+
 /**
  * Authorization middleware - check user role
  * @param roles - Allowed roles
  */
-export const authorize = (...roles: ('ADMIN' | 'BUSINESS')[]) => {
+export const authorize = (...roles: UserRole[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return next(new UnauthorizedError('Authentication required'));
@@ -53,6 +109,98 @@ export const authorize = (...roles: ('ADMIN' | 'BUSINESS')[]) => {
       return next(new ForbiddenError('Insufficient permissions'));
     }
 
+    // Admins without 2FA can only reach the enrollment routes when it is mandatory
+    if (req.user.role === 'ADMIN' && !req.user.twoFactorEnabled && isAdminTwoFactorRequired()) {
+      return next(new ForbiddenError('Two-factor authentication must be enabled for admin accounts'));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Admin permission check
+ * Use after authorize('ADMIN'); the admin's role must grant every listed permission
+ * @param permissions - Required permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('Authentication required'));
+    }
+
+    const granted = req.user.permissions || [];
+
+    if (req.user.role !== 'ADMIN' || !permissions.every(permission => granted.includes(permission))) {
+      return next(new ForbiddenError('Insufficient permissions'));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Super admin check for actions no other admin role may perform
+ * Use after authorize('ADMIN')
+ */
+export const requireSuperAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new UnauthorizedError('Authentication required'));
+  }
+
+  if (req.user.role !== 'ADMIN' || req.user.adminRole !== SUPER_ADMIN_ROLE_SLUG) {
+    return next(new ForbiddenError('Only super admins can perform this action'));
+  }
+
+  next();
+};
+
+/**
+ * Business team authorization - check the member's role in their business
+ * Use after authorize('BUSINESS')
+ * @param roles - Allowed business member roles
+ */
+export const requireBusinessRole = (...roles: BusinessMemberRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('Authentication required'));
+    }
+
+    if (!req.user.businessId || !req.user.businessRole) {
+      return next(new NotFoundError('Business profile not found'));
+    }
+
+    if (!roles.includes(req.user.businessRole)) {
+      return next(new ForbiddenError('Your team role does not allow this action'));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Business review status check - rejected businesses may only fix their profile and resubmit
+ * Use after authorize('BUSINESS')
+ * @param statuses - Allowed business statuses
+ */
+export const requireBusinessStatus = (...statuses: BusinessStatus[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('Authentication required'));
+    }
+
+    if (!req.user.businessId || !req.user.businessStatus) {
+      return next(new NotFoundError('Business profile not found'));
+    }
+
+    if (!statuses.includes(req.user.businessStatus)) {
+      return next(new ForbiddenError(
+        req.user.businessStatus === 'REJECTED'
+          ? 'Your business registration was rejected. Update your profile and resubmit it for review'
+          : 'This is not available while your business is under review'
+      ));
+    }
+
     next();
   };
 };
@@ -66,16 +214,15 @@ export const optionalAuth = async (
   next: NextFunction
 ) => {
   try {
-    const authHeader = req.headers.authorization;
-
-    if (authHeader) {
-      const [userId, email, role] = authHeader.split('|');
-      if (userId && email && role) {
-        req.user = {
-          id: userId,
-          email: email,
-          role: role as 'ADMIN' | 'BUSINESS'
-        };
+    const token = getBearerToken(req);
+
+    if (token) {
+      const user = await resolveUser(token);
+
+      // Magic-link sessions only count on investor routes
+      if (user.loginMethod !== 'MAGIC_LINK') {
+        req.user = user;
+        tagImpersonatedRequest(req, res);
       }
     }
 
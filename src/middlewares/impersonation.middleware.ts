@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { ForbiddenError } from '../utils/errors';
+import { recordAuditLog } from '../services/audit.service';
+
+// Requests that only read data are tagged but not written to the audit log
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Body fields never copied into the audit log
+const SENSITIVE_FIELD_PATTERN = /password|token|secret|code/i;
+
+const redactBody = (body: unknown) => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [
+      key,
+      SENSITIVE_FIELD_PATTERN.test(key) ? '[REDACTED]' : value
+    ])
+  );
+};
+
+/**
+ * Tag a request made during an impersonation session
+ * Sends the banner data as response headers and records changes in the audit log
+ * Call after req.user has been set
+ */
+export const tagImpersonatedRequest = (req: Request, res: Response) => {
+  const impersonation = req.user?.impersonation;
+
+  if (!req.user || !impersonation) {
+    return;
+  }
+
+  res.setHeader('X-Impersonation-Admin', impersonation.adminUsername);
+  res.setHeader('X-Impersonation-Expires-At', impersonation.expiresAt.toISOString());
+
+  if (READ_ONLY_METHODS.includes(req.method)) {
+    return;
+  }
+
+  const { businessId, id, sessionId } = req.user;
+  const body = redactBody(req.body);
+
+  res.on('finish', () => {
+    recordAuditLog({
+      adminId: impersonation.adminId,
+      action: 'impersonation.request',
+      targetType: 'BUSINESS',
+      targetId: businessId || id,
+      sessionId,
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      details: body && { body },
+      ipAddress: req.ip
+    }).catch(error => {
+      console.error('Failed to record impersonation audit log:', error);
+    });
+  });
+};
+
+/**
+ * Block account-level actions while a super admin is impersonating
+ * (credentials, API keys, team and 2FA changes stay with the real owner)
+ */
+export const forbidImpersonation = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.impersonation) {
+    return next(new ForbiddenError('This action is not available while impersonating a business'));
+  }
+
+  next();
+};
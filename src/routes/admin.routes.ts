@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import {
+  listAdminsHandler,
+  listAdminRolesHandler,
+  inviteAdminHandler,
+  resendAdminInvitationHandler,
+  updateAdminRoleHandler,
+  deactivateAdminHandler,
+  reactivateAdminHandler,
+  listAuditLogsHandler
+} from '../controllers/admin.controller';
+import { authenticate, authorize, requirePermission } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/permissions.config';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  listAdminsSchema,
+  inviteAdminSchema,
+  adminIdSchema,
+  updateAdminRoleSchema,
+  listAuditLogsSchema
+} from '../validators/admin.validator';
+
+const router = Router();
+
+// All routes require an admin allowed to manage other admins
+router.use(authenticate);
+router.use(authorize('ADMIN'));
+router.use(requirePermission(PERMISSIONS.ADMINS_MANAGE));
+
+/**
+ * @route   GET /api/admins
+ * @desc    List admins
+ * @access  Private (Admin: admins.manage)
+ */
+router.get(
+  '/',
+  validate(listAdminsSchema),
+  listAdminsHandler
+);
+
+/**
+ * @route   GET /api/admins/roles
+ * @desc    List assignable admin roles
+ * @access  Private (Admin: admins.manage)
+ */
+router.get('/roles', listAdminRolesHandler);
+
+/**
+ * @route   GET /api/admins/audit-logs
+ * @desc    List audit log entries (impersonation and other admin actions)
+ * @access  Private (Admin: admins.manage)
+ */
+router.get(
+  '/audit-logs',
+  validate(listAuditLogsSchema),
+  listAuditLogsHandler
+);
+
+/**
+ * @route   POST /api/admins/invite
+ * @desc    Invite a new admin (they set their own password via email)
+ * @access  Private (Admin: admins.manage)
+ */
+router.post(
+  '/invite',
+  validate(inviteAdminSchema),
+  inviteAdminHandler
+);
+
+/**
+ * @route   POST /api/admins/:id/resend-invite
+ * @desc    Resend the invitation email to an admin who has not set a password
+ * @access  Private (Admin: admins.manage)
+ */
+router.post(
+  '/:id/resend-invite',
+  validate(adminIdSchema),
+  resendAdminInvitationHandler
+);
+
+/**
+ * @route   PUT /api/admins/:id/role
+ * @desc    Change an admin's role
+ * @access  Private (Admin: admins.manage)
+ */
+router.put(
+  '/:id/role',
+  validate(updateAdminRoleSchema),
+  updateAdminRoleHandler
+);
+
+/**
+ * @route   PUT /api/admins/:id/deactivate
+ * @desc    Deactivate an admin (the last active super admin is protected)
+ * @access  Private (Admin: admins.manage)
+ */
+router.put(
+  '/:id/deactivate',
+  validate(adminIdSchema),
+  deactivateAdminHandler
+);
+
+/**
+ * @route   PUT /api/admins/:id/reactivate
+ * @desc    Reactivate an admin
+ * @access  Private (Admin: admins.manage)
+ */
+router.put(
+  '/:id/reactivate',
+  validate(adminIdSchema),
+  reactivateAdminHandler
+);
+
+export default router;
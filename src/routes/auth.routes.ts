@@ -1,13 +1,62 @@
 import { Router } from 'express';
-import { loginHandler } from '../controllers/auth.controller';
+import {
+  loginHandler,
+  refreshHandler,
+  logoutHandler,
+  forgotPasswordHandler,
+  resetPasswordHandler,
+  unlockAccountHandler,
+  listLockedAccountsHandler,
+  adminUnlockAccountHandler,
+  verifyTwoFactorLoginHandler,
+  setupTwoFactorHandler,
+  enableTwoFactorHandler,
+  disableTwoFactorHandler,
+  regenerateRecoveryCodesHandler,
+  validateInvitationHandler,
+  acceptInvitationHandler,
+  acceptAdminInvitationHandler,
+  listSessionsHandler,
+  revokeSessionHandler,
+  revokeAllSessionsHandler,
+  confirmEmailChangeHandler,
+  getImpersonationHandler,
+  endImpersonationHandler,
+  requestMagicLinkHandler,
+  verifyMagicLinkHandler,
+  getOidcStatusHandler,
+  startOidcLoginHandler,
+  oidcCallbackHandler
+} from '../controllers/auth.controller';
+import { authenticate, authenticateInvestor, authorize, requirePermission } from '../middlewares/auth.middleware';
+import { forbidImpersonation } from '../middlewares/impersonation.middleware';
+import { PERMISSIONS } from '../config/permissions.config';
 import { validate } from '../middlewares/validation.middleware';
-import { loginSchema } from '../validators/auth.validator';
+import {
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  unlockAccountSchema,
+  adminUnlockAccountSchema,
+  verifyTwoFactorLoginSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  invitationTokenSchema,
+  acceptInvitationSchema,
+  revokeSessionSchema,
+  revokeAllSessionsSchema,
+  confirmEmailChangeSchema,
+  requestMagicLinkSchema,
+  verifyMagicLinkSchema,
+  oidcCallbackSchema
+} from '../validators/auth.validator';
 
 const router = Router();
 
 /**
  * @route   POST /api/auth/login
- * @desc    Login user (Business or Admin)
+ * @desc    Login user (Admin, Business or Investor)
  * @access  Public
  */
 router.post(
@@ -16,4 +65,298 @@ router.post(
   loginHandler
 );
 
+/**
+ * @route   GET /api/auth/oidc
+ * @desc    Check whether single sign-on is enabled for admins
+ * @access  Public
+ */
+router.get('/oidc', getOidcStatusHandler);
+
+/**
+ * @route   GET /api/auth/oidc/start
+ * @desc    Get the identity provider URL to start admin single sign-on
+ * @access  Public
+ */
+router.get('/oidc/start', startOidcLoginHandler);
+
+/**
+ * @route   POST /api/auth/oidc/callback
+ * @desc    Complete admin single sign-on with the returned code and state
+ * @access  Public (requires state from /oidc/start)
+ */
+router.post(
+  '/oidc/callback',
+  validate(oidcCallbackSchema),
+  oidcCallbackHandler
+);
+
+/**
+ * @route   POST /api/auth/magic-link
+ * @desc    Email a single-use login link (Investor)
+ * @access  Public
+ */
+router.post(
+  '/magic-link',
+  validate(requestMagicLinkSchema),
+  requestMagicLinkHandler
+);
+
+/**
+ * @route   POST /api/auth/magic-link/verify
+ * @desc    Log in with a magic link (session limited to investor routes)
+ * @access  Public (requires magic link token)
+ */
+router.post(
+  '/magic-link/verify',
+  validate(verifyMagicLinkSchema),
+  verifyMagicLinkHandler
+);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Rotate refresh token and issue a new access token
+ * @access  Public (requires refresh token)
+ */
+router.post(
+  '/refresh',
+  validate(refreshTokenSchema),
+  refreshHandler
+);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Revoke the current session
+ * @access  Public (requires refresh token)
+ */
+router.post(
+  '/logout',
+  validate(refreshTokenSchema),
+  logoutHandler
+);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions (device, IP, last used)
+ * @access  Private (Admin, Business or Investor, including magic-link sessions)
+ */
+router.get(
+  '/sessions',
+  authenticateInvestor,
+  listSessionsHandler
+);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Revoke all other sessions (add ?includeCurrent=true to end this one too)
+ * @access  Private (Admin, Business or Investor, including magic-link sessions)
+ */
+router.delete(
+  '/sessions',
+  authenticateInvestor,
+  forbidImpersonation,
+  validate(revokeAllSessionsSchema),
+  revokeAllSessionsHandler
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke a single session
+ * @access  Private (Admin, Business or Investor, including magic-link sessions)
+ */
+router.delete(
+  '/sessions/:id',
+  authenticateInvestor,
+  forbidImpersonation,
+  validate(revokeSessionSchema),
+  revokeSessionHandler
+);
+
+/**
+ * @route   GET /api/auth/impersonation
+ * @desc    Impersonation banner data for the current session
+ * @access  Private (Admin, Business or Investor, including magic-link sessions)
+ */
+router.get(
+  '/impersonation',
+  authenticateInvestor,
+  getImpersonationHandler
+);
+
+/**
+ * @route   POST /api/auth/impersonation/end
+ * @desc    End the current impersonation session
+ * @access  Private (Impersonation session)
+ */
+router.post(
+  '/impersonation/end',
+  authenticate,
+  endImpersonationHandler
+);
+
+/**
+ * @route   POST /api/auth/2fa/verify
+ * @desc    Complete login with a TOTP or recovery code
+ * @access  Public (requires login challenge token)
+ */
+router.post(
+  '/2fa/verify',
+  validate(verifyTwoFactorLoginSchema),
+  verifyTwoFactorLoginHandler
+);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor enrollment (returns otpauth URI)
+ * @access  Private (Admin or Business)
+ */
+router.post(
+  '/2fa/setup',
+  authenticate,
+  forbidImpersonation,
+  setupTwoFactorHandler
+);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm two-factor enrollment and get recovery codes
+ * @access  Private (Admin or Business)
+ */
+router.post(
+  '/2fa/enable',
+  authenticate,
+  forbidImpersonation,
+  validate(twoFactorCodeSchema),
+  enableTwoFactorHandler
+);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Disable two-factor authentication
+ * @access  Private (Admin or Business)
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  forbidImpersonation,
+  validate(disableTwoFactorSchema),
+  disableTwoFactorHandler
+);
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Regenerate recovery codes
+ * @access  Private (Admin or Business)
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  forbidImpersonation,
+  validate(twoFactorCodeSchema),
+  regenerateRecoveryCodesHandler
+);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Send a password reset link (Admin, Business or Investor)
+ * @access  Public
+ */
+router.post(
+  '/forgot-password',
+  validate(forgotPasswordSchema),
+  forgotPasswordHandler
+);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Reset password with a single-use token
+ * @access  Public
+ */
+router.post(
+  '/reset-password',
+  validate(resetPasswordSchema),
+  resetPasswordHandler
+);
+
+/**
+ * @route   POST /api/auth/unlock-account
+ * @desc    Unlock a locked account with the emailed token
+ * @access  Public
+ */
+router.post(
+  '/unlock-account',
+  validate(unlockAccountSchema),
+  unlockAccountHandler
+);
+
+/**
+ * @route   GET /api/auth/locked-accounts
+ * @desc    List accounts locked after failed logins
+ * @access  Private (Admin: accounts.unlock)
+ */
+router.get(
+  '/locked-accounts',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ACCOUNTS_UNLOCK),
+  listLockedAccountsHandler
+);
+
+/**
+ * @route   PUT /api/auth/locked-accounts/:id/unlock
+ * @desc    Unlock an account
+ * @access  Private (Admin: accounts.unlock)
+ */
+router.put(
+  '/locked-accounts/:id/unlock',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ACCOUNTS_UNLOCK),
+  validate(adminUnlockAccountSchema),
+  adminUnlockAccountHandler
+);
+
+/**
+ * @route   GET /api/auth/invitations/:token
+ * @desc    Validate a business team invitation
+ * @access  Public
+ */
+router.get(
+  '/invitations/:token',
+  validate(invitationTokenSchema),
+  validateInvitationHandler
+);
+
+/**
+ * @route   POST /api/auth/accept-invitation
+ * @desc    Accept a business team invitation and set a password
+ * @access  Public
+ */
+router.post(
+  '/accept-invitation',
+  validate(acceptInvitationSchema),
+  acceptInvitationHandler
+);
+
+/**
+ * @route   POST /api/auth/accept-admin-invite
+ * @desc    Set a password for an invited admin account
+ * @access  Public (requires invitation token)
+ */
+router.post(
+  '/accept-admin-invite',
+  validate(acceptInvitationSchema),
+  acceptAdminInvitationHandler
+);
+
+/**
+ * @route   POST /api/auth/confirm-email-change
+ * @desc    Confirm a login email change with the emailed token
+ * @access  Public (requires email change token)
+ */
+router.post(
+  '/confirm-email-change',
+  validate(confirmEmailChangeSchema),
+  confirmEmailChangeHandler
+);
+
 export default router;
@@ -1,7 +1,16 @@
 import { Router } from 'express';
 import {
   getAllCategoriesHandler,
+  createCategoryHandler,
+  updateCategoryHandler,
+  deleteCategoryHandler,
+  mergeCategoriesHandler,
+  getNepalLocationsHandler,
   listPendingBusinessesHandler,
+  assignBusinessReviewHandler,
+  getBusinessReviewRoundsHandler,
+  getVerificationChecklistHandler,
+  updateVerificationCheckHandler,
   approveBusinessHandler,
   rejectBusinessHandler,
   listApprovedBusinessesHandler,
@@ -12,12 +21,22 @@ import {
   toggleBusinessActiveHandler,
   listRemovalRequestsHandler,
   approveRemovalRequestHandler,
-  rejectRemovalRequestHandler
+  rejectRemovalRequestHandler,
+  startImpersonationHandler
 } from '../controllers/business.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { authenticate, authorize, requirePermission, requireSuperAdmin } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/permissions.config';
 import { validate } from '../middlewares/validation.middleware';
 import {
+  createCategorySchema,
+  updateCategorySchema,
+  deleteCategorySchema,
+  mergeCategoriesSchema,
   listPendingBusinessesSchema,
+  assignBusinessReviewSchema,
+  businessReviewRoundsSchema,
+  getVerificationChecklistSchema,
+  updateVerificationCheckSchema,
   approveBusinessSchema,
   rejectBusinessSchema,
   listApprovedBusinessesSchema,
@@ -27,7 +46,8 @@ import {
   toggleBusinessActiveSchema,
   listRemovalRequestsSchema,
   approveRemovalRequestSchema,
-  rejectRemovalRequestSchema
+  rejectRemovalRequestSchema,
+  startImpersonationSchema
 } from '../validators/business.validator';
 
 const router = Router();
@@ -45,7 +65,7 @@ router.get(
 
 /**
  * @route   GET /api/businesses/categories
- * @desc    Get all categories
+ * @desc    Get all categories and subcategories with business counts
  * @access  Public
  */
 router.get(
@@ -53,28 +73,152 @@ router.get(
   getAllCategoriesHandler
 );
 
+/**
+ * @route   POST /api/businesses/categories
+ * @desc    Create a category or subcategory
+ * @access  Private (Admin: business.edit)
+ */
+router.post(
+  '/categories',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_EDIT),
+  validate(createCategorySchema),
+  createCategoryHandler
+);
+
+/**
+ * @route   PUT /api/businesses/categories/:categoryId
+ * @desc    Update a category or move it under another category
+ * @access  Private (Admin: business.edit)
+ */
+router.put(
+  '/categories/:categoryId',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_EDIT),
+  validate(updateCategorySchema),
+  updateCategoryHandler
+);
+
+/**
+ * @route   DELETE /api/businesses/categories/:categoryId
+ * @desc    Delete a category that has no businesses or subcategories
+ * @access  Private (Admin: business.edit)
+ */
+router.delete(
+  '/categories/:categoryId',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_EDIT),
+  validate(deleteCategorySchema),
+  deleteCategoryHandler
+);
+
+/**
+ * @route   POST /api/businesses/categories/:categoryId/merge
+ * @desc    Merge a duplicate category into another, moving its businesses and subcategories
+ * @access  Private (Admin: business.edit)
+ */
+router.post(
+  '/categories/:categoryId/merge',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_EDIT),
+  validate(mergeCategoriesSchema),
+  mergeCategoriesHandler
+);
+
+/**
+ * @route   GET /api/businesses/locations
+ * @desc    Get Nepal provinces, districts and local levels for address forms
+ * @access  Public
+ */
+router.get(
+  '/locations',
+  getNepalLocationsHandler
+);
+
 /**
  * @route   GET /api/businesses/pending
  * @desc    List pending businesses for approval
- * @access  Private (Admin)
+ * @access  Private (Admin: onboarding.review)
  */
 router.get(
   '/pending',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
   validate(listPendingBusinessesSchema),
   listPendingBusinessesHandler
 );
 
+/**
+ * @route   PUT /api/businesses/:id/assignee
+ * @desc    Assign a business review to a reviewer (null to unassign)
+ * @access  Private (Admin: onboarding.review)
+ */
+router.put(
+  '/:id/assignee',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(assignBusinessReviewSchema),
+  assignBusinessReviewHandler
+);
+
+/**
+ * @route   GET /api/businesses/:id/review-rounds
+ * @desc    Get review history: each submission, what changed and the outcome
+ * @access  Private (Admin: onboarding.review)
+ */
+router.get(
+  '/:id/review-rounds',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(businessReviewRoundsSchema),
+  getBusinessReviewRoundsHandler
+);
+
+/**
+ * @route   GET /api/businesses/:id/verification
+ * @desc    Get the KYC verification checklist
+ * @access  Private (Admin: onboarding.review)
+ */
+router.get(
+  '/:id/verification',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(getVerificationChecklistSchema),
+  getVerificationChecklistHandler
+);
+
+/**
+ * @route   PUT /api/businesses/:id/verification/:item
+ * @desc    Record a verification check (status, notes, required)
+ * @access  Private (Admin: onboarding.review)
+ */
+router.put(
+  '/:id/verification/:item',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(updateVerificationCheckSchema),
+  updateVerificationCheckHandler
+);
+
 /**
  * @route   PUT /api/businesses/:id/approve
- * @desc    Approve business profile
- * @access  Private (Admin)
+ * @desc    Approve business profile (every required verification check must have passed)
+ * @access  Private (Admin: onboarding.review)
  */
 router.put(
   '/:id/approve',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
   validate(approveBusinessSchema),
   approveBusinessHandler
 );
@@ -82,12 +226,13 @@ router.put(
 /**
  * @route   PUT /api/businesses/:id/reject
  * @desc    Reject business profile with reason
- * @access  Private (Admin)
+ * @access  Private (Admin: onboarding.review)
  */
 router.put(
   '/:id/reject',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
   validate(rejectBusinessSchema),
   rejectBusinessHandler
 );
@@ -95,12 +240,13 @@ router.put(
 /**
  * @route   GET /api/businesses/active
  * @desc    List all businesses for admin (includes active/inactive status)
- * @access  Private (Admin)
+ * @access  Private (Admin: business.read)
  */
 router.get(
   '/active',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_READ),
   validate(listAllBusinessesForAdminSchema),
   listAllBusinessesForAdminHandler
 );
@@ -108,12 +254,13 @@ router.get(
 /**
  * @route   PUT /api/businesses/:id/toggle-active
  * @desc    Toggle business active status
- * @access  Private (Admin)
+ * @access  Private (Admin: business.edit)
  */
 router.put(
   '/:id/toggle-active',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_EDIT),
   validate(toggleBusinessActiveSchema),
   toggleBusinessActiveHandler
 );
@@ -121,12 +268,13 @@ router.put(
 /**
  * @route   GET /api/businesses/removal-requests
  * @desc    List all removal requests
- * @access  Private (Admin)
+ * @access  Private (Admin: removal.approve)
  */
 router.get(
   '/removal-requests',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.REMOVAL_APPROVE),
   validate(listRemovalRequestsSchema),
   listRemovalRequestsHandler
 );
@@ -134,12 +282,13 @@ router.get(
 /**
  * @route   PUT /api/businesses/removal-requests/:id/approve
  * @desc    Approve removal request and deactivate business
- * @access  Private (Admin)
+ * @access  Private (Admin: removal.approve)
  */
 router.put(
   '/removal-requests/:id/approve',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.REMOVAL_APPROVE),
   validate(approveRemovalRequestSchema),
   approveRemovalRequestHandler
 );
@@ -147,12 +296,13 @@ router.put(
 /**
  * @route   PUT /api/businesses/removal-requests/:id/reject
  * @desc    Reject removal request
- * @access  Private (Admin)
+ * @access  Private (Admin: removal.approve)
  */
 router.put(
   '/removal-requests/:id/reject',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.REMOVAL_APPROVE),
   validate(rejectRemovalRequestSchema),
   rejectRemovalRequestHandler
 );
@@ -160,25 +310,41 @@ router.put(
 /**
  * @route   GET /api/businesses/:id/details
  * @desc    Get full business details by ID (Admin)
- * @access  Private (Admin)
+ * @access  Private (Admin: business.read)
  */
 router.get(
   '/:id/details',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_READ),
   validate(getBusinessByIdSchema),
   getBusinessDetailsByIdForAdminHandler
 );
 
+/**
+ * @route   POST /api/businesses/:id/impersonate
+ * @desc    View the business dashboard as its owner (time-limited, audited)
+ * @access  Private (Super admin)
+ */
+router.post(
+  '/:id/impersonate',
+  authenticate,
+  authorize('ADMIN'),
+  requireSuperAdmin,
+  validate(startImpersonationSchema),
+  startImpersonationHandler
+);
+
 /**
  * @route   PUT /api/businesses/:id
  * @desc    Update business details
- * @access  Private (Admin)
+ * @access  Private (Admin: business.edit)
  */
 router.put(
   '/:id',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.BUSINESS_EDIT),
   validate(updateBusinessSchema),
   updateBusinessHandler
 );
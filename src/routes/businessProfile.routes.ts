@@ -2,8 +2,11 @@ import { Router } from 'express';
 import {
   getOwnProfileHandler,
   updateOwnProfileHandler,
+  resubmitBusinessHandler,
+  getOwnReviewRoundsHandler,
   getOwnBusinessInterestsHandler,
   changePasswordHandler,
+  changeEmailHandler,
   requestRemovalHandler,
   updateInterestFollowUpHandler,
   addInterestFollowUpHandler,
@@ -12,15 +15,32 @@ import {
   getLeadSourcesHandler,
   addLeadSourceHandler,
   deleteLeadSourceHandler,
-  getTodayFollowUpsHandler
+  getTodayFollowUpsHandler,
+  listMembersHandler,
+  inviteMemberHandler,
+  revokeInvitationHandler,
+  updateMemberRoleHandler,
+  removeMemberHandler,
+  listApiKeysHandler,
+  createApiKeyHandler,
+  rotateApiKeyHandler,
+  revokeApiKeyHandler
 } from '../controllers/businessProfile.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { authenticate, authorize, requireBusinessRole, requireBusinessStatus } from '../middlewares/auth.middleware';
+import { forbidImpersonation } from '../middlewares/impersonation.middleware';
 import { validate } from '../middlewares/validation.middleware';
 import {
   updateBusinessProfileSchema,
   listInterestsSchema,
   changePasswordSchema,
-  requestRemovalSchema
+  changeEmailSchema,
+  requestRemovalSchema,
+  inviteMemberSchema,
+  updateMemberRoleSchema,
+  removeMemberSchema,
+  revokeInvitationSchema,
+  createApiKeySchema,
+  apiKeyIdSchema
 } from '../validators/businessProfile.validator';
 
 const router = Router();
@@ -29,31 +49,58 @@ const router = Router();
 router.use(authenticate);
 router.use(authorize('BUSINESS'));
 
+// Team roles: owners manage members, editors edit profile and CRM, viewers read only
+const canView = requireBusinessRole('OWNER', 'EDITOR', 'VIEWER');
+const canEdit = requireBusinessRole('OWNER', 'EDITOR');
+const ownerOnly = requireBusinessRole('OWNER');
+
+// Rejected businesses can only view and fix their profile, then resubmit it for review
+const approvedOnly = requireBusinessStatus('APPROVED');
+const canFixSubmission = requireBusinessStatus('APPROVED', 'REJECTED');
+
 /**
  * @route   GET /api/business/profile
  * @desc    Get own business profile
- * @access  Private (Business)
+ * @access  Private (Business, any team role)
  */
-router.get('/profile', getOwnProfileHandler);
+router.get('/profile', canView, getOwnProfileHandler);
 
 /**
  * @route   PUT /api/business/profile
  * @desc    Update own business profile
- * @access  Private (Business)
+ * @access  Private (Business owner or editor; also while rejected)
  */
 router.put(
   '/profile',
+  canEdit,
+  canFixSubmission,
   validate(updateBusinessProfileSchema),
   updateOwnProfileHandler
 );
 
+/**
+ * @route   POST /api/business/resubmit
+ * @desc    Resubmit a rejected business for review
+ * @access  Private (Business owner or editor; rejected businesses only)
+ */
+router.post('/resubmit', canEdit, resubmitBusinessHandler);
+
+/**
+ * @route   GET /api/business/review-rounds
+ * @desc    Get review history: each submission, what changed and the outcome
+ * @access  Private (Business, any team role)
+ */
+router.get('/review-rounds', canView, getOwnReviewRoundsHandler);
+
 /**
  * @route   GET /api/business/interests
  * @desc    Get interest submissions for own business
- * @access  Private (Business)
+ * @access  Private (Business, any team role)
  */
 router.get(
   '/interests',
+  canView,
+  approvedOnly,
   validate(listInterestsSchema),
   getOwnBusinessInterestsHandler
 );
@@ -61,48 +108,68 @@ router.get(
 /**
  * @route   GET /api/business/interests/today
  * @desc    Get interests with follow-ups due today
- * @access  Private (Business)
+ * @access  Private (Business, any team role)
  */
-router.get('/interests/today', getTodayFollowUpsHandler);
+router.get('/interests/today', canView, approvedOnly, getTodayFollowUpsHandler);
 
 /**
  * @route   PUT /api/business/interests/:id
  * @desc    Update interest (status, source, contacted, remarks)
- * @access  Private (Business)
+ * @access  Private (Business owner or editor)
  */
 router.put(
   '/interests/:id',
+  canEdit,
+  approvedOnly,
   updateInterestFollowUpHandler
 );
 
 /**
  * @route   POST /api/business/interests/:id/followups
  * @desc    Add a new follow-up to an interest submission
- * @access  Private (Business)
+ * @access  Private (Business owner or editor)
  */
 router.post(
   '/interests/:id/followups',
+  canEdit,
+  approvedOnly,
   addInterestFollowUpHandler
 );
 
 /**
  * @route   PUT /api/business/change-password
  * @desc    Change business account password
- * @access  Private (Business)
+ * @access  Private (Business, any team role)
  */
 router.put(
   '/change-password',
+  forbidImpersonation,
   validate(changePasswordSchema),
   changePasswordHandler
 );
 
+/**
+ * @route   PUT /api/business/change-email
+ * @desc    Request a login email change (verified at the new address)
+ * @access  Private (Business, any team role)
+ */
+router.put(
+  '/change-email',
+  forbidImpersonation,
+  validate(changeEmailSchema),
+  changeEmailHandler
+);
+
 /**
  * @route   POST /api/business/request-removal
  * @desc    Request business profile removal
- * @access  Private (Business)
+ * @access  Private (Business owner)
  */
 router.post(
   '/request-removal',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
   validate(requestRemovalSchema),
   requestRemovalHandler
 );
@@ -110,42 +177,158 @@ router.post(
 /**
  * @route   PUT /api/business/followups/:followUpId
  * @desc    Update a follow-up
- * @access  Private (Business)
+ * @access  Private (Business owner or editor)
  */
 router.put(
   '/followups/:followUpId',
+  canEdit,
+  approvedOnly,
   updateFollowUpHandler
 );
 
 /**
  * @route   DELETE /api/business/followups/:followUpId
  * @desc    Delete a follow-up
- * @access  Private (Business)
+ * @access  Private (Business owner or editor)
  */
 router.delete(
   '/followups/:followUpId',
+  canEdit,
+  approvedOnly,
   deleteFollowUpHandler
 );
 
 /**
  * @route   GET /api/business/lead-sources
  * @desc    Get lead sources for own business
- * @access  Private (Business)
+ * @access  Private (Business, any team role)
  */
-router.get('/lead-sources', getLeadSourcesHandler);
+router.get('/lead-sources', canView, approvedOnly, getLeadSourcesHandler);
 
 /**
  * @route   POST /api/business/lead-sources
  * @desc    Add a custom lead source
- * @access  Private (Business)
+ * @access  Private (Business owner or editor)
  */
-router.post('/lead-sources', addLeadSourceHandler);
+router.post('/lead-sources', canEdit, approvedOnly, addLeadSourceHandler);
 
 /**
  * @route   DELETE /api/business/lead-sources/:sourceId
  * @desc    Delete a custom lead source
- * @access  Private (Business)
+ * @access  Private (Business owner or editor)
+ */
+router.delete('/lead-sources/:sourceId', canEdit, approvedOnly, deleteLeadSourceHandler);
+
+/**
+ * @route   GET /api/business/members
+ * @desc    List team members and pending invitations
+ * @access  Private (Business owner)
+ */
+router.get('/members', ownerOnly, approvedOnly, listMembersHandler);
+
+/**
+ * @route   POST /api/business/members/invitations
+ * @desc    Invite a team member as editor or viewer
+ * @access  Private (Business owner)
+ */
+router.post(
+  '/members/invitations',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(inviteMemberSchema),
+  inviteMemberHandler
+);
+
+/**
+ * @route   DELETE /api/business/members/invitations/:invitationId
+ * @desc    Revoke a pending invitation
+ * @access  Private (Business owner)
+ */
+router.delete(
+  '/members/invitations/:invitationId',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(revokeInvitationSchema),
+  revokeInvitationHandler
+);
+
+/**
+ * @route   PUT /api/business/members/:memberId
+ * @desc    Change a team member's role
+ * @access  Private (Business owner)
+ */
+router.put(
+  '/members/:memberId',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(updateMemberRoleSchema),
+  updateMemberRoleHandler
+);
+
+/**
+ * @route   DELETE /api/business/members/:memberId
+ * @desc    Remove a team member
+ * @access  Private (Business owner)
  */
-router.delete('/lead-sources/:sourceId', deleteLeadSourceHandler);
+router.delete(
+  '/members/:memberId',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(removeMemberSchema),
+  removeMemberHandler
+);
+
+/**
+ * @route   GET /api/business/api-keys
+ * @desc    List API keys
+ * @access  Private (Business owner)
+ */
+router.get('/api-keys', ownerOnly, approvedOnly, listApiKeysHandler);
+
+/**
+ * @route   POST /api/business/api-keys
+ * @desc    Create a scoped API key for pushing leads
+ * @access  Private (Business owner)
+ */
+router.post(
+  '/api-keys',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(createApiKeySchema),
+  createApiKeyHandler
+);
+
+/**
+ * @route   POST /api/business/api-keys/:keyId/rotate
+ * @desc    Replace an API key's secret
+ * @access  Private (Business owner)
+ */
+router.post(
+  '/api-keys/:keyId/rotate',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(apiKeyIdSchema),
+  rotateApiKeyHandler
+);
+
+/**
+ * @route   DELETE /api/business/api-keys/:keyId
+ * @desc    Revoke an API key
+ * @access  Private (Business owner)
+ */
+router.delete(
+  '/api-keys/:keyId',
+  ownerOnly,
+  approvedOnly,
+  forbidImpersonation,
+  validate(apiKeyIdSchema),
+  revokeApiKeyHandler
+);
 
 export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import {
+  createIntegrationInterestHandler,
+  listIntegrationInterestsHandler
+} from '../controllers/integration.controller';
+import { authenticateWithApiKey, requireApiKeyScope } from '../middlewares/apiKey.middleware';
+import { API_KEY_SCOPES } from '../config/permissions.config';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  createIntegrationInterestSchema,
+  listIntegrationInterestsSchema
+} from '../validators/integration.validator';
+
+const router = Router();
+
+// All routes require a business API key: X-API-Key: <key>
+router.use(authenticateWithApiKey);
+
+/**
+ * @route   POST /api/integrations/interests
+ * @desc    Push a lead from the business's own systems
+ * @access  API key (interests.create)
+ */
+router.post(
+  '/interests',
+  requireApiKeyScope(API_KEY_SCOPES.INTERESTS_CREATE),
+  validate(createIntegrationInterestSchema),
+  createIntegrationInterestHandler
+);
+
+/**
+ * @route   GET /api/integrations/interests
+ * @desc    List interests of the key's business
+ * @access  API key (interests.read)
+ */
+router.get(
+  '/interests',
+  requireApiKeyScope(API_KEY_SCOPES.INTERESTS_READ),
+  validate(listIntegrationInterestsSchema),
+  listIntegrationInterestsHandler
+);
+
+export default router;
@@ -12,7 +12,8 @@ import {
 } from '../controllers/interest.controller';
 import { validate } from '../middlewares/validation.middleware';
 import { submitInterestSchema } from '../validators/interest.validator';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { authenticate, authorize, requirePermission } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/permissions.config';
 
 const router = Router();
 
@@ -30,96 +31,104 @@ router.post(
 /**
  * @route   GET /api/interests
  * @desc    Get all interest submissions (Admin only)
- * @access  Admin
+ * @access  Admin (interests.read)
  */
 router.get(
   '/',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_READ),
   getAllInterestsHandler
 );
 
 /**
  * @route   GET /api/interests/today
  * @desc    Get all interests with follow-ups due today (Admin only)
- * @access  Admin
+ * @access  Admin (interests.read)
  */
 router.get(
   '/today',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_READ),
   getTodayFollowUpsHandler
 );
 
 /**
  * @route   GET /api/interests/sources
  * @desc    Get all unique lead sources (Admin only)
- * @access  Admin
+ * @access  Admin (interests.read)
  */
 router.get(
   '/sources',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_READ),
   getSourcesHandler
 );
 
 /**
  * @route   GET /api/interests/business/:businessId
  * @desc    Get interest submissions for a specific business (Admin only)
- * @access  Admin
+ * @access  Admin (interests.read)
  */
 router.get(
   '/business/:businessId',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_READ),
   getBusinessInterestsHandler
 );
 
 /**
  * @route   PUT /api/interests/:id
  * @desc    Update interest follow-up details (Admin only)
- * @access  Admin
+ * @access  Admin (interests.manage)
  */
 router.put(
   '/:id',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_MANAGE),
   updateInterestHandler
 );
 
 /**
  * @route   POST /api/interests/:id/followups
  * @desc    Add a new follow-up to an interest submission (Admin only)
- * @access  Admin
+ * @access  Admin (interests.manage)
  */
 router.post(
   '/:id/followups',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_MANAGE),
   addInterestFollowUpHandler
 );
 
 /**
  * @route   PUT /api/interests/followups/:followUpId
  * @desc    Update a follow-up (Admin only)
- * @access  Admin
+ * @access  Admin (interests.manage)
  */
 router.put(
   '/followups/:followUpId',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_MANAGE),
   updateFollowUpHandler
 );
 
 /**
  * @route   DELETE /api/interests/followups/:followUpId
  * @desc    Delete a follow-up (Admin only)
- * @access  Admin
+ * @access  Admin (interests.manage)
  */
 router.delete(
   '/followups/:followUpId',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.INTERESTS_MANAGE),
   deleteFollowUpHandler
 );
 
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import {
+  registerInvestorHandler,
+  verifyInvestorEmailHandler,
+  resendVerificationHandler,
+  getInvestorProfileHandler,
+  updateInvestorProfileHandler,
+  listInvestorInterestsHandler,
+  submitInvestorInterestHandler
+} from '../controllers/investor.controller';
+import { authenticateInvestor, authorize } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  registerInvestorSchema,
+  verifyInvestorEmailSchema,
+  resendVerificationSchema,
+  updateInvestorProfileSchema,
+  listInvestorInterestsSchema,
+  submitInvestorInterestSchema
+} from '../validators/investor.validator';
+
+const router = Router();
+
+/**
+ * @route   POST /api/investors/register
+ * @desc    Register an investor account
+ * @access  Public
+ */
+router.post(
+  '/register',
+  validate(registerInvestorSchema),
+  registerInvestorHandler
+);
+
+/**
+ * @route   POST /api/investors/verify-email
+ * @desc    Verify email and link earlier inquiries made with it
+ * @access  Public (requires verification token)
+ */
+router.post(
+  '/verify-email',
+  validate(verifyInvestorEmailSchema),
+  verifyInvestorEmailHandler
+);
+
+/**
+ * @route   POST /api/investors/resend-verification
+ * @desc    Send a new verification link
+ * @access  Public
+ */
+router.post(
+  '/resend-verification',
+  validate(resendVerificationSchema),
+  resendVerificationHandler
+);
+
+// Account routes also accept sessions started from an emailed login link
+
+/**
+ * @route   GET /api/investors/me
+ * @desc    Get own investor profile
+ * @access  Private (Investor)
+ */
+router.get(
+  '/me',
+  authenticateInvestor,
+  authorize('INVESTOR'),
+  getInvestorProfileHandler
+);
+
+/**
+ * @route   PUT /api/investors/me
+ * @desc    Update own contact details
+ * @access  Private (Investor)
+ */
+router.put(
+  '/me',
+  authenticateInvestor,
+  authorize('INVESTOR'),
+  validate(updateInvestorProfileSchema),
+  updateInvestorProfileHandler
+);
+
+/**
+ * @route   GET /api/investors/me/interests
+ * @desc    List own inquiries across businesses
+ * @access  Private (Investor)
+ */
+router.get(
+  '/me/interests',
+  authenticateInvestor,
+  authorize('INVESTOR'),
+  validate(listInvestorInterestsSchema),
+  listInvestorInterestsHandler
+);
+
+/**
+ * @route   POST /api/investors/me/interests
+ * @desc    Submit interest using saved contact details
+ * @access  Private (Investor)
+ */
+router.post(
+  '/me/interests',
+  authenticateInvestor,
+  authorize('INVESTOR'),
+  validate(submitInvestorInterestSchema),
+  submitInvestorInterestHandler
+);
+
+export default router;
@@ -2,25 +2,70 @@ import { Router } from 'express';
 import {
   createOnboardingRequestHandler,
   listOnboardingRequestsHandler,
+  getReviewMetricsHandler,
+  inviteBusinessHandler,
+  listBusinessInvitationsHandler,
+  assignOnboardingRequestHandler,
+  markOnboardingRequestContactedHandler,
+  addOnboardingContactNoteHandler,
+  scanDuplicatesHandler,
+  dismissDuplicateHandler,
+  linkOnboardingRequestsHandler,
+  mergeOnboardingRequestHandler,
   approveOnboardingRequestHandler,
   rejectOnboardingRequestHandler,
+  regenerateRegistrationLinkHandler,
+  requestNewRegistrationLinkHandler,
   validateRegistrationTokenHandler,
   completeRegistrationHandler
 } from '../controllers/onboarding.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import {
+  getRegistrationDraftHandler,
+  saveRegistrationDraftStepHandler,
+  addRegistrationDraftFilesHandler,
+  deleteRegistrationDraftFileHandler,
+  submitRegistrationDraftHandler
+} from '../controllers/registrationDraft.controller';
+import { authenticate, authorize, requirePermission } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/permissions.config';
 import { validate } from '../middlewares/validation.middleware';
 import {
   createOnboardingRequestSchema,
   listOnboardingRequestsSchema,
+  reviewMetricsSchema,
+  inviteBusinessSchema,
+  listBusinessInvitationsSchema,
+  assignOnboardingRequestSchema,
+  markContactedSchema,
+  addContactNoteSchema,
+  scanDuplicatesSchema,
+  dismissDuplicateSchema,
+  linkOnboardingRequestsSchema,
+  mergeOnboardingRequestSchema,
   approveOnboardingRequestSchema,
   rejectOnboardingRequestSchema,
+  regenerateRegistrationLinkSchema,
+  requestNewRegistrationLinkSchema,
   validateTokenSchema,
-  completeRegistrationSchema
+  completeRegistrationSchema,
+  getRegistrationDraftSchema,
+  saveRegistrationDraftStepSchema,
+  deleteRegistrationDraftFileSchema,
+  submitRegistrationDraftSchema
 } from '../validators/onboarding.validator';
-import { registrationUpload } from '../config/upload.config';
+import { registrationUpload, removeUploadedFilesOnError } from '../config/upload.config';
 
 const router = Router();
 
+// File fields accepted by the registration form
+const registrationFileFields = [
+  { name: 'companyLogo', maxCount: 1 },
+  { name: 'registrationCertificate', maxCount: 1 },
+  { name: 'panCertificate', maxCount: 1 },
+  { name: 'pitchDeck', maxCount: 1 },
+  { name: 'galleryImages', maxCount: 6 }
+];
+
 /**
  * @route   POST /api/onboarding/request
  * @desc    Submit initial onboarding inquiry
@@ -35,25 +80,167 @@ router.post(
 /**
  * @route   GET /api/onboarding/requests
  * @desc    List all onboarding requests (with filtering)
- * @access  Private (Admin)
+ * @access  Private (Admin: onboarding.review)
  */
 router.get(
   '/requests',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
   validate(listOnboardingRequestsSchema),
   listOnboardingRequestsHandler
 );
 
+/**
+ * @route   POST /api/onboarding/invitations
+ * @desc    Invite a business directly: creates a pre-approved request and emails the registration link
+ * @access  Private (Admin: onboarding.review)
+ */
+router.post(
+  '/invitations',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(inviteBusinessSchema),
+  inviteBusinessHandler
+);
+
+/**
+ * @route   GET /api/onboarding/invitations
+ * @desc    List business invitations with their stage (sent, opened, registered, approved)
+ * @access  Private (Admin: onboarding.review)
+ */
+router.get(
+  '/invitations',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(listBusinessInvitationsSchema),
+  listBusinessInvitationsHandler
+);
+
+/**
+ * @route   GET /api/onboarding/review-metrics
+ * @desc    Queue sizes, aging and review times for onboarding requests and pending businesses
+ * @access  Private (Admin: onboarding.review)
+ */
+router.get(
+  '/review-metrics',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(reviewMetricsSchema),
+  getReviewMetricsHandler
+);
+
+/**
+ * @route   PUT /api/onboarding/requests/:id/assignee
+ * @desc    Assign an onboarding request to a reviewer (null to unassign)
+ * @access  Private (Admin: onboarding.review)
+ */
+router.put(
+  '/requests/:id/assignee',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(assignOnboardingRequestSchema),
+  assignOnboardingRequestHandler
+);
+
+/**
+ * @route   PUT /api/onboarding/requests/:id/contacted
+ * @desc    Mark onboarding request as contacted (optionally with a contact note)
+ * @access  Private (Admin: onboarding.review)
+ */
+router.put(
+  '/requests/:id/contacted',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(markContactedSchema),
+  markOnboardingRequestContactedHandler
+);
+
+/**
+ * @route   POST /api/onboarding/requests/:id/notes
+ * @desc    Log a call, meeting or other contact with the business
+ * @access  Private (Admin: onboarding.review)
+ */
+router.post(
+  '/requests/:id/notes',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(addContactNoteSchema),
+  addOnboardingContactNoteHandler
+);
+
+/**
+ * @route   POST /api/onboarding/requests/:id/duplicates/scan
+ * @desc    Re-check a request against other requests and registered businesses
+ * @access  Private (Admin: onboarding.review)
+ */
+router.post(
+  '/requests/:id/duplicates/scan',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(scanDuplicatesSchema),
+  scanDuplicatesHandler
+);
+
+/**
+ * @route   PUT /api/onboarding/requests/:id/duplicates/:matchId/dismiss
+ * @desc    Dismiss a possible duplicate as unrelated
+ * @access  Private (Admin: onboarding.review)
+ */
+router.put(
+  '/requests/:id/duplicates/:matchId/dismiss',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(dismissDuplicateSchema),
+  dismissDuplicateHandler
+);
+
+/**
+ * @route   POST /api/onboarding/requests/:id/links
+ * @desc    Link a related request from the same company (both are kept)
+ * @access  Private (Admin: onboarding.review)
+ */
+router.post(
+  '/requests/:id/links',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(linkOnboardingRequestsSchema),
+  linkOnboardingRequestsHandler
+);
+
+/**
+ * @route   POST /api/onboarding/requests/:id/merge
+ * @desc    Merge this request into another request and close it as MERGED
+ * @access  Private (Admin: onboarding.review)
+ */
+router.post(
+  '/requests/:id/merge',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(mergeOnboardingRequestSchema),
+  mergeOnboardingRequestHandler
+);
+
 /**
  * @route   PUT /api/onboarding/requests/:id/approve
  * @desc    Approve onboarding request and generate registration token
- * @access  Private (Admin)
+ * @access  Private (Admin: onboarding.review)
  */
 router.put(
   '/requests/:id/approve',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
   validate(approveOnboardingRequestSchema),
   approveOnboardingRequestHandler
 );
@@ -61,16 +248,42 @@ router.put(
 /**
  * @route   PUT /api/onboarding/requests/:id/reject
  * @desc    Reject onboarding request with reason
- * @access  Private (Admin)
+ * @access  Private (Admin: onboarding.review)
  */
 router.put(
   '/requests/:id/reject',
   authenticate,
   authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
   validate(rejectOnboardingRequestSchema),
   rejectOnboardingRequestHandler
 );
 
+/**
+ * @route   POST /api/onboarding/requests/:id/regenerate-link
+ * @desc    Issue a new registration link for an approved request and re-send it
+ * @access  Private (Admin: onboarding.review)
+ */
+router.post(
+  '/requests/:id/regenerate-link',
+  authenticate,
+  authorize('ADMIN'),
+  requirePermission(PERMISSIONS.ONBOARDING_REVIEW),
+  validate(regenerateRegistrationLinkSchema),
+  regenerateRegistrationLinkHandler
+);
+
+/**
+ * @route   POST /api/onboarding/request-new-link
+ * @desc    Ask admins for a new registration link after the old one expired
+ * @access  Public
+ */
+router.post(
+  '/request-new-link',
+  validate(requestNewRegistrationLinkSchema),
+  requestNewRegistrationLinkHandler
+);
+
 /**
  * @route   GET /api/onboarding/validate/:token
  * @desc    Validate registration token
@@ -90,14 +303,67 @@ router.get(
  */
 router.post(
   '/register',
-  registrationUpload.fields([
-    { name: 'companyLogo', maxCount: 1 },
-    { name: 'registrationCertificate', maxCount: 1 },
-    { name: 'panCertificate', maxCount: 1 },
-    { name: 'pitchDeck', maxCount: 1 },
-    { name: 'galleryImages', maxCount: 6 }
-  ]),
-  completeRegistrationHandler
+  registrationUpload.fields(registrationFileFields),
+  validate(completeRegistrationSchema),
+  completeRegistrationHandler,
+  removeUploadedFilesOnError
+);
+
+/**
+ * @route   GET /api/onboarding/drafts/:token
+ * @desc    Get the saved registration draft and prefill details
+ * @access  Public (registration token)
+ */
+router.get(
+  '/drafts/:token',
+  validate(getRegistrationDraftSchema),
+  getRegistrationDraftHandler
+);
+
+/**
+ * @route   PUT /api/onboarding/drafts/:token/steps/:step
+ * @desc    Save one step of the registration form (company, contact, details, investment)
+ * @access  Public (registration token)
+ */
+router.put(
+  '/drafts/:token/steps/:step',
+  validate(saveRegistrationDraftStepSchema),
+  saveRegistrationDraftStepHandler
+);
+
+/**
+ * @route   POST /api/onboarding/drafts/:token/files
+ * @desc    Upload files to the registration draft (replaces single-file fields)
+ * @access  Public (registration token)
+ * @files   companyLogo, registrationCertificate, panCertificate, pitchDeck, galleryImages[]
+ */
+router.post(
+  '/drafts/:token/files',
+  // The token is checked by the service so rejected uploads are removed from disk
+  registrationUpload.fields(registrationFileFields),
+  addRegistrationDraftFilesHandler
+);
+
+/**
+ * @route   DELETE /api/onboarding/drafts/:token/files/:fileId
+ * @desc    Remove a file from the registration draft
+ * @access  Public (registration token)
+ */
+router.delete(
+  '/drafts/:token/files/:fileId',
+  validate(deleteRegistrationDraftFileSchema),
+  deleteRegistrationDraftFileHandler
+);
+
+/**
+ * @route   POST /api/onboarding/drafts/:token/submit
+ * @desc    Complete business registration from the saved draft
+ * @access  Public (registration token)
+ */
+router.post(
+  '/drafts/:token/submit',
+  validate(submitRegistrationDraftSchema),
+  submitRegistrationDraftHandler
 );
 
 export default router;
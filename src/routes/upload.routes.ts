@@ -8,9 +8,13 @@ import {
   getMediaTypes
 } from '../controllers/upload.controller';
 import { upload, uploadLogo } from '../config/upload.config';
+import { authenticate, authorize, requireBusinessRole } from '../middlewares/auth.middleware';
 
 const router = Router();
 
+// Media edits change the business profile and its verification state: owners and editors only
+const canEdit = requireBusinessRole('OWNER', 'EDITOR');
+
 /**
  * @route   GET /api/upload/media-types
  * @desc    Get available media types and their limits
@@ -21,28 +25,28 @@ router.get('/media-types', getMediaTypes);
 /**
  * @route   POST /api/upload/media
  * @desc    Upload business media (documents, images, videos)
- * @body    businessId, mediaType, file, title (optional), description (optional)
+ * @body    mediaType, file, title (optional), description (optional)
  * @mediaTypes  REGISTRATION_CERTIFICATE, PAN_CERTIFICATE, FINANCIAL_DOCUMENT,
  *              PITCH_DECK, BROCHURE, DOCUMENT, COMPANY_LOGO, GALLERY, IMAGE, VIDEO
- * @access  Private (Business owner)
+ * @access  Private (Business owner or editor)
  */
-router.post('/media', upload.single('file'), uploadBusinessMedia);
+router.post('/media', authenticate, authorize('BUSINESS'), canEdit, upload.single('file'), uploadBusinessMedia);
 
 /**
  * @route   POST /api/upload/logo
  * @desc    Upload business logo
- * @body    businessId, file
- * @access  Private (Business owner)
+ * @body    file
+ * @access  Private (Business owner or editor)
  */
-router.post('/logo', uploadLogo.single('file'), uploadBusinessLogo);
+router.post('/logo', authenticate, authorize('BUSINESS'), canEdit, uploadLogo.single('file'), uploadBusinessLogo);
 
 /**
  * @route   POST /api/upload/external-url
  * @desc    Add external URL (YouTube video, Website link)
- * @body    businessId, mediaType (YOUTUBE_VIDEO or WEBSITE), externalUrl, title (optional), description (optional)
- * @access  Private (Business owner)
+ * @body    mediaType (YOUTUBE_VIDEO or WEBSITE), externalUrl, title (optional), description (optional)
+ * @access  Private (Business owner or editor)
  */
-router.post('/external-url', addExternalUrl);
+router.post('/external-url', authenticate, authorize('BUSINESS'), canEdit, addExternalUrl);
 
 /**
  * @route   GET /api/upload/media/:businessId
@@ -56,8 +60,8 @@ router.get('/media/:businessId', getBusinessMedia);
 /**
  * @route   DELETE /api/upload/media/:mediaId
  * @desc    Delete business media
- * @access  Private (Business owner)
+ * @access  Private (Business owner or editor)
  */
-router.delete('/media/:mediaId', deleteBusinessMedia);
+router.delete('/media/:mediaId', authenticate, authorize('BUSINESS'), canEdit, deleteBusinessMedia);
 
 export default router;
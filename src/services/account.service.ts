@@ -0,0 +1,210 @@
+import { BusinessMemberRole, Prisma, UserRole } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { UnauthorizedError } from '../utils/errors';
+
+/**
+ * Load the account behind an access token
+ * Throws if the account no longer exists or has been deactivated
+ */
+export const getAuthenticatedUser = async (userId: string, role: UserRole) => {
+  if (role === 'ADMIN') {
+    const admin = await prisma.admin.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        isActive: true,
+        twoFactorEnabled: true,
+        role: {
+          select: { slug: true, permissions: true }
+        }
+      }
+    });
+
+    if (!admin || !admin.isActive) {
+      throw new UnauthorizedError('Account is inactive');
+    }
+
+    return {
+      id: admin.id,
+      email: admin.email,
+      role: 'ADMIN' as const,
+      username: admin.username,
+      twoFactorEnabled: admin.twoFactorEnabled,
+      adminRole: admin.role?.slug,
+      permissions: admin.role?.permissions || []
+    };
+  }
+
+  if (role === 'INVESTOR') {
+    const investor = await prisma.investor.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        fullName: true,
+        isActive: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true
+      }
+    });
+
+    if (!investor || !investor.isActive || !investor.emailVerifiedAt) {
+      throw new UnauthorizedError('Account is inactive');
+    }
+
+    return {
+      id: investor.id,
+      email: investor.email,
+      role: 'INVESTOR' as const,
+      username: investor.fullName,
+      twoFactorEnabled: investor.twoFactorEnabled
+    };
+  }
+
+  const businessLogin = await prisma.businessLogin.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      isActive: true,
+      twoFactorEnabled: true,
+      business: {
+        select: { id: true, name: true, status: true, rejectionReason: true }
+      },
+      membership: {
+        select: {
+          role: true,
+          business: {
+            select: { id: true, name: true, status: true, rejectionReason: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!businessLogin || !businessLogin.isActive) {
+    throw new UnauthorizedError('Account is inactive');
+  }
+
+  // Owners are linked through Business.businessLoginId, other members through BusinessMember
+  const business = businessLogin.business || businessLogin.membership?.business;
+  const businessRole: BusinessMemberRole | undefined = businessLogin.business
+    ? 'OWNER'
+    : businessLogin.membership?.role;
+
+  return {
+    id: businessLogin.id,
+    email: businessLogin.email,
+    role: 'BUSINESS' as const,
+    username: business?.name,
+    twoFactorEnabled: businessLogin.twoFactorEnabled,
+    businessId: business?.id,
+    businessRole,
+    businessStatus: business?.status,
+    rejectionReason: business?.status === 'REJECTED' ? business.rejectionReason : null
+  };
+};
+
+/**
+ * Find an active Admin, BusinessLogin or verified Investor by email
+ * Admins are checked first, matching the login lookup order
+ */
+export const findActiveAccountByEmail = async (email: string) => {
+  const normalizedEmail = email.toLowerCase();
+
+  const admin = await prisma.admin.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true, email: true, username: true, isActive: true }
+  });
+
+  if (admin) {
+    return admin.isActive
+      ? { id: admin.id, email: admin.email, role: 'ADMIN' as const, name: admin.username }
+      : null;
+  }
+
+  const businessLogin = await prisma.businessLogin.findUnique({
+    where: { email: normalizedEmail },
+    select: {
+      id: true,
+      email: true,
+      isActive: true,
+      business: {
+        select: { name: true }
+      }
+    }
+  });
+
+  if (businessLogin && businessLogin.isActive) {
+    return {
+      id: businessLogin.id,
+      email: businessLogin.email,
+      role: 'BUSINESS' as const,
+      name: businessLogin.business?.name || businessLogin.email
+    };
+  }
+
+  const investor = await prisma.investor.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true, email: true, fullName: true, isActive: true, emailVerifiedAt: true }
+  });
+
+  if (investor && investor.isActive && investor.emailVerifiedAt) {
+    return {
+      id: investor.id,
+      email: investor.email,
+      role: 'INVESTOR' as const,
+      name: investor.fullName
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Replace the password hash of an Admin, BusinessLogin or Investor
+ */
+export const updateAccountPasswordHash = async (
+  userId: string,
+  role: UserRole,
+  passwordHash: string
+) => {
+  if (role === 'ADMIN') {
+    await prisma.admin.update({
+      where: { id: userId },
+      data: { passwordHash }
+    });
+    return;
+  }
+
+  if (role === 'INVESTOR') {
+    await prisma.investor.update({
+      where: { id: userId },
+      data: { passwordHash }
+    });
+    return;
+  }
+
+  await prisma.businessLogin.update({
+    where: { id: userId },
+    data: { passwordHash }
+  });
+};
+
+/**
+ * Check that no Admin, BusinessLogin or Investor already uses an email
+ * Emails identify the account at login, so they must be unique across all three
+ */
+export const isEmailInUse = async (email: string, tx: Prisma.TransactionClient = prisma) => {
+  const normalizedEmail = email.toLowerCase();
+
+  const [admin, businessLogin, investor] = await Promise.all([
+    tx.admin.findUnique({ where: { email: normalizedEmail }, select: { id: true } }),
+    tx.businessLogin.findUnique({ where: { email: normalizedEmail }, select: { id: true } }),
+    tx.investor.findUnique({ where: { email: normalizedEmail }, select: { id: true } })
+  ]);
+
+  return !!(admin || businessLogin || investor);
+};
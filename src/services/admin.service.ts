@@ -0,0 +1,308 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { SUPER_ADMIN_ROLE_SLUG } from '../config/permissions.config';
+import { hashPassword } from '../utils/password.utils';
+import { getTokenExpiration } from '../utils/token.utils';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { runSerializableTransaction } from '../utils/transaction.utils';
+import { issueAuthToken, consumeAuthToken } from './authToken.service';
+import { revokeAllSessions } from './session.service';
+import { sendAdminInvitationEmail } from './email.service';
+import { isEmailInUse } from './account.service';
+
+const ADMIN_INVITE_EXPIRATION_HOURS = parseInt(process.env.ADMIN_INVITE_EXPIRATION_HOURS || '72');
+
+const adminSelect = {
+  id: true,
+  email: true,
+  username: true,
+  isActive: true,
+  passwordHash: true,
+  oidcSubject: true,
+  twoFactorEnabled: true,
+  lockedUntil: true,
+  createdAt: true,
+  updatedAt: true,
+  role: {
+    select: { id: true, slug: true, name: true }
+  },
+  invitedBy: {
+    select: { id: true, username: true }
+  }
+};
+
+/**
+ * Shape an admin for API responses
+ * Admins without a password or a linked single sign-on identity have not accepted their invitation yet
+ */
+const toAdminResponse = <T extends { passwordHash: string | null; oidcSubject: string | null }>(
+  { passwordHash, oidcSubject, ...admin }: T
+) => ({
+  ...admin,
+  singleSignOnLinked: !!oidcSubject,
+  invitationPending: !passwordHash && !oidcSubject
+});
+
+/**
+ * Make sure at least one other active super admin would remain
+ */
+const assertNotLastSuperAdmin = async (adminId: string, tx: Prisma.TransactionClient) => {
+  const admin = await tx.admin.findUnique({
+    where: { id: adminId },
+    select: { isActive: true, role: { select: { slug: true } } }
+  });
+
+  if (!admin || !admin.isActive || admin.role?.slug !== SUPER_ADMIN_ROLE_SLUG) {
+    return;
+  }
+
+  const otherSuperAdmins = await tx.admin.count({
+    where: {
+      id: { not: adminId },
+      isActive: true,
+      OR: [{ passwordHash: { not: null } }, { oidcSubject: { not: null } }],
+      role: { slug: SUPER_ADMIN_ROLE_SLUG }
+    }
+  });
+
+  if (otherSuperAdmins === 0) {
+    throw new ForbiddenError('The last active super admin cannot be deactivated or demoted');
+  }
+};
+
+/**
+ * Deactivate or demote an admin, keeping at least one active super admin
+ * The check and the write share a serializable transaction so two concurrent changes to
+ * different super admins cannot both pass
+ */
+const updateAdminKeepingSuperAdmin = async (adminId: string, data: Prisma.AdminUncheckedUpdateInput) => {
+  return runSerializableTransaction(async (tx) => {
+    await assertNotLastSuperAdmin(adminId, tx);
+
+    return tx.admin.update({
+      where: { id: adminId },
+      data,
+      select: adminSelect
+    });
+  });
+};
+
+const sendInvitation = async (adminId: string, email: string, username: string) => {
+  const token = await issueAuthToken(
+    adminId,
+    'ADMIN',
+    'ADMIN_INVITE',
+    getTokenExpiration(ADMIN_INVITE_EXPIRATION_HOURS)
+  );
+
+  try {
+    await sendAdminInvitationEmail(email, username, token, ADMIN_INVITE_EXPIRATION_HOURS);
+  } catch (emailError) {
+    console.warn('Failed to send admin invitation email:', emailError);
+  }
+};
+
+/**
+ * List all admins (Admin)
+ */
+export const listAdmins = async (filters: { isActive?: boolean }) => {
+  const admins = await prisma.admin.findMany({
+    where: filters.isActive === undefined ? {} : { isActive: filters.isActive },
+    select: adminSelect,
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return admins.map(toAdminResponse);
+};
+
+/**
+ * List roles that can be assigned to admins (Admin)
+ */
+export const listAdminRoles = async () => {
+  return prisma.adminRole.findMany({
+    select: {
+      id: true,
+      slug: true,
+      name: true,
+      description: true,
+      permissions: true
+    },
+    orderBy: { name: 'asc' }
+  });
+};
+
+/**
+ * Invite a new admin (Admin)
+ * The account has no password until the invitee sets one through the emailed link
+ */
+export const inviteAdmin = async (
+  invitedById: string,
+  data: { email: string; username: string; roleId: string }
+) => {
+  const email = data.email.toLowerCase();
+
+  const [emailInUse, role] = await Promise.all([
+    isEmailInUse(email),
+    prisma.adminRole.findUnique({ where: { id: data.roleId }, select: { id: true } })
+  ]);
+
+  if (emailInUse) {
+    throw new ConflictError('An account with this email already exists');
+  }
+
+  if (!role) {
+    throw new BadRequestError('Admin role not found');
+  }
+
+  const admin = await prisma.admin.create({
+    data: {
+      email,
+      username: data.username,
+      roleId: role.id,
+      invitedById,
+      isActive: true
+    },
+    select: adminSelect
+  });
+
+  await sendInvitation(admin.id, admin.email, admin.username);
+
+  return toAdminResponse(admin);
+};
+
+/**
+ * Send a fresh invitation link to an admin who has not set a password yet (Admin)
+ */
+export const resendAdminInvitation = async (adminId: string) => {
+  const admin = await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: { id: true, email: true, username: true, passwordHash: true, isActive: true }
+  });
+
+  if (!admin) {
+    throw new NotFoundError('Admin not found');
+  }
+
+  if (admin.passwordHash) {
+    throw new BadRequestError('This admin has already accepted the invitation');
+  }
+
+  if (!admin.isActive) {
+    throw new BadRequestError('Reactivate this admin before resending the invitation');
+  }
+
+  await sendInvitation(admin.id, admin.email, admin.username);
+
+  return { success: true };
+};
+
+/**
+ * Change an admin's role (Admin)
+ */
+export const updateAdminRole = async (adminId: string, roleId: string) => {
+  const role = await prisma.adminRole.findUnique({
+    where: { id: roleId },
+    select: { id: true, slug: true }
+  });
+
+  if (!role) {
+    throw new BadRequestError('Admin role not found');
+  }
+
+  const admin = await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: { id: true }
+  });
+
+  if (!admin) {
+    throw new NotFoundError('Admin not found');
+  }
+
+  // Promotions cannot remove a super admin, so only demotions need the guard
+  const updated = role.slug === SUPER_ADMIN_ROLE_SLUG
+    ? await prisma.admin.update({
+      where: { id: adminId },
+      data: { roleId: role.id },
+      select: adminSelect
+    })
+    : await updateAdminKeepingSuperAdmin(adminId, { roleId: role.id });
+
+  return toAdminResponse(updated);
+};
+
+/**
+ * Deactivate an admin and sign them out everywhere (Admin)
+ */
+export const deactivateAdmin = async (adminId: string, actingAdminId: string) => {
+  if (adminId === actingAdminId) {
+    throw new BadRequestError('You cannot deactivate your own account');
+  }
+
+  const admin = await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: { id: true, isActive: true }
+  });
+
+  if (!admin) {
+    throw new NotFoundError('Admin not found');
+  }
+
+  if (!admin.isActive) {
+    throw new BadRequestError('Admin is already inactive');
+  }
+
+  const updated = await updateAdminKeepingSuperAdmin(adminId, { isActive: false });
+
+  await revokeAllSessions(adminId, 'ADMIN');
+
+  return toAdminResponse(updated);
+};
+
+/**
+ * Reactivate an admin (Admin)
+ */
+export const reactivateAdmin = async (adminId: string) => {
+  const admin = await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: { id: true, isActive: true }
+  });
+
+  if (!admin) {
+    throw new NotFoundError('Admin not found');
+  }
+
+  if (admin.isActive) {
+    throw new BadRequestError('Admin is already active');
+  }
+
+  const updated = await prisma.admin.update({
+    where: { id: adminId },
+    data: { isActive: true },
+    select: adminSelect
+  });
+
+  return toAdminResponse(updated);
+};
+
+/**
+ * Accept an admin invitation by setting a password
+ */
+export const acceptAdminInvitation = async (token: string, password: string) => {
+  const { userId } = await consumeAuthToken(token, 'ADMIN_INVITE');
+
+  const admin = await prisma.admin.findUnique({
+    where: { id: userId },
+    select: { id: true, isActive: true, passwordHash: true }
+  });
+
+  if (!admin || !admin.isActive || admin.passwordHash) {
+    throw new BadRequestError('Invalid or expired token');
+  }
+
+  await prisma.admin.update({
+    where: { id: userId },
+    data: { passwordHash: await hashPassword(password) }
+  });
+
+  return { success: true };
+};
@@ -0,0 +1,152 @@
+import prisma from '../config/prisma.config';
+import { ApiKeyScope } from '../config/permissions.config';
+import { generateToken, hashToken } from '../utils/token.utils';
+import { NotFoundError, UnauthorizedError } from '../utils/errors';
+
+const API_KEY_PREFIX = 'cbk_';
+
+// Characters of the key stored in plain text so owners can tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// lastUsedAt is refreshed at most this often so every request does not write
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+/**
+ * Generate a new plain API key with its stored hash and display prefix
+ */
+const generateApiKey = () => {
+  const key = `${API_KEY_PREFIX}${generateToken(24)}`;
+
+  return {
+    key,
+    keyHash: hashToken(key),
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH)
+  };
+};
+
+/**
+ * List API keys of a business (secrets are never returned)
+ */
+export const listApiKeys = async (businessId: string) => {
+  return prisma.apiKey.findMany({
+    where: { businessId },
+    select: apiKeySelect,
+    orderBy: { createdAt: 'desc' }
+  });
+};
+
+/**
+ * Create an API key for a business
+ * @returns The key record and the plain key, which is only shown this once
+ */
+export const createApiKey = async (
+  businessId: string,
+  createdById: string,
+  name: string,
+  scopes: ApiKeyScope[]
+) => {
+  const { key, keyHash, keyPrefix } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      businessId,
+      createdById,
+      name,
+      scopes,
+      keyHash,
+      keyPrefix
+    },
+    select: apiKeySelect
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * Replace the secret of an API key; the old secret stops working immediately
+ * @returns The key record and the new plain key
+ */
+export const rotateApiKey = async (businessId: string, apiKeyId: string) => {
+  const existing = await prisma.apiKey.findFirst({
+    where: { id: apiKeyId, businessId, revokedAt: null },
+    select: { id: true }
+  });
+
+  if (!existing) {
+    throw new NotFoundError('API key not found');
+  }
+
+  const { key, keyHash, keyPrefix } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.update({
+    where: { id: apiKeyId },
+    data: { keyHash, keyPrefix, lastUsedAt: null },
+    select: apiKeySelect
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * Revoke an API key
+ */
+export const revokeApiKey = async (businessId: string, apiKeyId: string) => {
+  const revoked = await prisma.apiKey.updateMany({
+    where: { id: apiKeyId, businessId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+
+  if (revoked.count === 0) {
+    throw new NotFoundError('API key not found');
+  }
+
+  return { success: true };
+};
+
+/**
+ * Resolve the business and scopes behind a plain API key
+ * Keys stop working when revoked or when their business is deactivated
+ */
+export const authenticateApiKey = async (key: string) => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+    select: {
+      id: true,
+      businessId: true,
+      scopes: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      business: {
+        select: { isActive: true }
+      }
+    }
+  });
+
+  if (!apiKey || apiKey.revokedAt || !apiKey.business.isActive) {
+    throw new UnauthorizedError('Invalid API key');
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+
+  return {
+    id: apiKey.id,
+    businessId: apiKey.businessId,
+    scopes: apiKey.scopes
+  };
+};
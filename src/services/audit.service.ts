@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+
+export interface AuditLogEntry {
+  adminId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  sessionId?: string;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  details?: Prisma.InputJsonValue;
+  ipAddress?: string;
+}
+
+/**
+ * Record an admin action
+ */
+export const recordAuditLog = async (entry: AuditLogEntry) => {
+  await prisma.auditLog.create({
+    data: {
+      ...entry,
+      path: entry.path?.slice(0, 500)
+    }
+  });
+};
+
+/**
+ * List audit log entries, newest first (Admin)
+ */
+export const listAuditLogs = async (filters: {
+  page?: number;
+  limit?: number;
+  adminId?: string;
+  targetType?: string;
+  targetId?: string;
+  action?: string;
+}) => {
+  const page = filters.page || 1;
+  const limit = filters.limit || 50;
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.AuditLogWhereInput = {
+    ...(filters.adminId && { adminId: filters.adminId }),
+    ...(filters.targetType && { targetType: filters.targetType }),
+    ...(filters.targetId && { targetId: filters.targetId }),
+    ...(filters.action && { action: filters.action })
+  };
+
+  const [logs, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      include: {
+        admin: {
+          select: { id: true, username: true, email: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: limit
+    }),
+    prisma.auditLog.count({ where })
+  ]);
+
+  return {
+    logs,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
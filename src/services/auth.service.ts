@@ -1,14 +1,24 @@
 import prisma from '../config/prisma.config';
-import { verifyPassword } from '../utils/password.utils';
-import { UnauthorizedError, NotFoundError } from '../utils/errors';
+import { hashPassword } from '../utils/password.utils';
+import { getTokenExpiration } from '../utils/token.utils';
+import { UnauthorizedError } from '../utils/errors';
+import { issueAuthToken, consumeAuthToken } from './authToken.service';
+import { findActiveAccountByEmail, updateAccountPasswordHash } from './account.service';
+import { revokeAllSessions } from './session.service';
+import { sendPasswordResetEmail } from './email.service';
+import { startLoginAttempt, verifyLoginCredentials } from './loginProtection.service';
+
+const PASSWORD_RESET_EXPIRATION_HOURS = parseInt(process.env.PASSWORD_RESET_EXPIRATION_HOURS || '1');
 
 /**
- * Login user (Business or Admin)
- * Checks both Admin and BusinessLogin tables
+ * Login user (Admin, Business or Investor)
+ * Checks the Admin, BusinessLogin and Investor tables in that order
  */
-export const loginUser = async (email: string, password: string) => {
+export const loginUser = async (email: string, password: string, ipAddress: string) => {
   const normalizedEmail = email.toLowerCase();
 
+  const attemptId = await startLoginAttempt(normalizedEmail, ipAddress);
+
   // Try to find admin first
   const admin = await prisma.admin.findUnique({
     where: { email: normalizedEmail },
@@ -17,28 +27,32 @@ export const loginUser = async (email: string, password: string) => {
       email: true,
       passwordHash: true,
       username: true,
-      isActive: true
+      isActive: true,
+      failedLoginAttempts: true,
+      lockedUntil: true,
+      twoFactorEnabled: true
     }
   });
 
   if (admin) {
+    await verifyLoginCredentials(
+      { ...admin, role: 'ADMIN', name: admin.username },
+      attemptId,
+      password,
+      ipAddress
+    );
+
     if (!admin.isActive) {
       throw new UnauthorizedError('Account is inactive');
     }
 
-    // Verify password
-    const isPasswordValid = await verifyPassword(password, admin.passwordHash);
-
-    if (!isPasswordValid) {
-      throw new UnauthorizedError('Invalid email or password');
-    }
-
     // Return admin info
     return {
       id: admin.id,
       email: admin.email,
       role: 'ADMIN' as const,
-      username: admin.username
+      username: admin.username,
+      twoFactorEnabled: admin.twoFactorEnabled
     };
   }
 
@@ -50,6 +64,9 @@ export const loginUser = async (email: string, password: string) => {
       email: true,
       passwordHash: true,
       isActive: true,
+      failedLoginAttempts: true,
+      lockedUntil: true,
+      twoFactorEnabled: true,
       business: {
         select: {
           id: true,
@@ -57,44 +74,138 @@ export const loginUser = async (email: string, password: string) => {
           status: true,
           rejectionReason: true
         }
+      },
+      membership: {
+        select: {
+          role: true,
+          business: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+              rejectionReason: true
+            }
+          }
+        }
       }
     }
   });
 
   if (businessLogin) {
+    // Team members sign in to the business they were invited to
+    const business = businessLogin.business || businessLogin.membership?.business;
+
+    await verifyLoginCredentials(
+      { ...businessLogin, role: 'BUSINESS', name: business?.name || businessLogin.email },
+      attemptId,
+      password,
+      ipAddress
+    );
+
     if (!businessLogin.isActive) {
       throw new UnauthorizedError('Account is inactive');
     }
 
-    // Verify password
-    const isPasswordValid = await verifyPassword(password, businessLogin.passwordHash);
+    // Rejected businesses sign in to fix their profile and resubmit; pending ones wait for review
+    if (business?.status === 'PENDING') {
+      throw new UnauthorizedError('Your business registration is still pending admin approval. Please wait for approval before logging in.');
+    }
 
-    if (!isPasswordValid) {
-      throw new UnauthorizedError('Invalid email or password');
+    // Return business login info (APPROVED, or REJECTED with the reason to fix)
+    return {
+      id: businessLogin.id,
+      email: businessLogin.email,
+      role: 'BUSINESS' as const,
+      username: business?.name || null,
+      businessId: business?.id || null,
+      businessStatus: business?.status || null,
+      rejectionReason: business?.status === 'REJECTED' ? business.rejectionReason : null,
+      businessRole: businessLogin.business ? 'OWNER' as const : businessLogin.membership?.role || null,
+      twoFactorEnabled: businessLogin.twoFactorEnabled
+    };
+  }
+
+  // Try to find investor
+  const investor = await prisma.investor.findUnique({
+    where: { email: normalizedEmail },
+    select: {
+      id: true,
+      email: true,
+      passwordHash: true,
+      fullName: true,
+      isActive: true,
+      emailVerifiedAt: true,
+      failedLoginAttempts: true,
+      lockedUntil: true,
+      twoFactorEnabled: true
     }
+  });
 
-    // Check business status
-    if (businessLogin.business) {
-      if (businessLogin.business.status === 'REJECTED') {
-        throw new UnauthorizedError(`Your business registration was rejected. Reason: ${businessLogin.business.rejectionReason || 'Not specified'}`);
-      }
+  if (investor) {
+    await verifyLoginCredentials(
+      { ...investor, role: 'INVESTOR', name: investor.fullName },
+      attemptId,
+      password,
+      ipAddress
+    );
 
-      if (businessLogin.business.status === 'PENDING') {
-        throw new UnauthorizedError('Your business registration is still pending admin approval. Please wait for approval before logging in.');
-      }
+    if (!investor.isActive) {
+      throw new UnauthorizedError('Account is inactive');
+    }
+
+    if (!investor.emailVerifiedAt) {
+      throw new UnauthorizedError('Please verify your email address before logging in');
     }
 
-    // Return business login info (only if APPROVED)
     return {
-      id: businessLogin.id,
-      email: businessLogin.email,
-      role: 'BUSINESS' as const,
-      username: businessLogin.business?.name || null,
-      businessId: businessLogin.business?.id || null,
-      businessStatus: businessLogin.business?.status || null
+      id: investor.id,
+      email: investor.email,
+      role: 'INVESTOR' as const,
+      username: investor.fullName,
+      twoFactorEnabled: investor.twoFactorEnabled
     };
   }
 
-  // No user found
-  throw new NotFoundError('Invalid email or password');
+  // No user found - fails exactly like a wrong password
+  await verifyLoginCredentials(null, attemptId, password, ipAddress);
+  throw new UnauthorizedError('Invalid email or password');
+};
+
+/**
+ * Start password reset for an Admin, BusinessLogin or Investor
+ * Always resolves the same way so callers cannot tell whether the email exists
+ */
+export const requestPasswordReset = async (email: string) => {
+  const account = await findActiveAccountByEmail(email);
+
+  if (!account) {
+    return;
+  }
+
+  const token = await issueAuthToken(
+    account.id,
+    account.role,
+    'PASSWORD_RESET',
+    getTokenExpiration(PASSWORD_RESET_EXPIRATION_HOURS)
+  );
+
+  try {
+    await sendPasswordResetEmail(account.email, account.name, token, PASSWORD_RESET_EXPIRATION_HOURS);
+  } catch (emailError) {
+    console.warn('Failed to send password reset email:', emailError);
+  }
+};
+
+/**
+ * Complete password reset with a single-use token
+ * All existing sessions are revoked so a compromised login is cut off
+ */
+export const resetPassword = async (token: string, newPassword: string) => {
+  const { userId, role } = await consumeAuthToken(token, 'PASSWORD_RESET');
+
+  const passwordHash = await hashPassword(newPassword);
+  await updateAccountPasswordHash(userId, role, passwordHash);
+  await revokeAllSessions(userId, role);
+
+  return { success: true };
 };
@@ -0,0 +1,103 @@
+import { AuthTokenPurpose, LoginMethod, UserRole } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { generateToken, hashToken, isTokenExpired } from '../utils/token.utils';
+import { BadRequestError } from '../utils/errors';
+
+/**
+ * Issue a single-use token for an account (password reset, etc.)
+ * Any earlier unused token with the same purpose is invalidated
+ * @param newEmail - Address being verified (email change only)
+ * @param loginMethod - First login step a two-factor challenge follows (challenges only)
+ * @returns Plain token to send to the user; only its hash is stored
+ */
+export const issueAuthToken = async (
+  userId: string,
+  role: UserRole,
+  purpose: AuthTokenPurpose,
+  expiresAt: Date,
+  newEmail?: string,
+  loginMethod?: LoginMethod
+) => {
+  const token = generateToken();
+
+  await prisma.$transaction([
+    prisma.authToken.updateMany({
+      where: { userId, role, purpose, usedAt: null },
+      data: { usedAt: new Date() }
+    }),
+    prisma.authToken.create({
+      data: {
+        userId,
+        role,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt,
+        newEmail,
+        loginMethod
+      }
+    })
+  ]);
+
+  return token;
+};
+
+/**
+ * Look up an unused, unexpired token without consuming it
+ */
+export const findValidAuthToken = async (token: string, purpose: AuthTokenPurpose) => {
+  const stored = await prisma.authToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!stored || stored.purpose !== purpose || stored.usedAt) {
+    throw new BadRequestError('Invalid or expired token');
+  }
+
+  if (isTokenExpired(stored.expiresAt)) {
+    throw new BadRequestError('Invalid or expired token');
+  }
+
+  return stored;
+};
+
+/**
+ * Consume a single-use token
+ * @returns The account the token was issued for
+ */
+export const consumeAuthToken = async (token: string, purpose: AuthTokenPurpose) => {
+  const stored = await findValidAuthToken(token, purpose);
+
+  // Claim atomically so the token cannot be used twice concurrently
+  const claimed = await prisma.authToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (claimed.count === 0) {
+    throw new BadRequestError('Invalid or expired token');
+  }
+
+  return {
+    userId: stored.userId,
+    role: stored.role,
+    newEmail: stored.newEmail,
+    loginMethod: stored.loginMethod
+  };
+};
+
+/**
+ * Count a failed attempt against a token, burning it once the limit is reached
+ */
+export const recordAuthTokenFailure = async (tokenId: string, maxAttempts: number) => {
+  const updated = await prisma.authToken.update({
+    where: { id: tokenId },
+    data: { attempts: { increment: 1 } }
+  });
+
+  if (updated.attempts >= maxAttempts) {
+    await prisma.authToken.update({
+      where: { id: tokenId },
+      data: { usedAt: new Date() }
+    });
+  }
+};
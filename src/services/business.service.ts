@@ -1,15 +1,61 @@
 import prisma from '../config/prisma.config';
 import { NotFoundError, BadRequestError, ForbiddenError } from '../utils/errors';
+import { revokeAllSessions } from './session.service';
+import { NEPAL_PROVINCES, findProvince, findDistrict } from '../utils/address.utils';
+import {
+  OPEN_BUSINESS_STATUSES,
+  reviewAssigneeSelect,
+  getOverdueCutoff,
+  getBusinessSubmittedAt,
+  businessSubmittedBefore,
+  withReviewAge,
+  assertAssignableReviewer
+} from './reviewQueue.service';
+import { closeReviewRound } from './businessReviewRound.service';
+import { getCategoryTreeIds } from './category.service';
+import {
+  assertVerificationComplete,
+  resetChangedVerificationChecks,
+  getVerificationBadges
+} from './businessVerification.service';
+
+// Login fields safe to return to admins; credentials, 2FA and lockout state stay out
+const businessLoginSelect = {
+  id: true,
+  email: true,
+  isActive: true,
+  twoFactorEnabled: true,
+  createdAt: true,
+  updatedAt: true
+};
 
 /**
- * Get all categories
+ * Nepal provinces, districts and local levels for address forms (Public)
  */
-export const getAllCategories = async () => {
-  const categories = await prisma.category.findMany({
-    orderBy: { name: 'asc' }
-  });
+export const getNepalLocations = () => {
+  return NEPAL_PROVINCES.map(province => ({
+    number: province.number,
+    name: province.name,
+    districts: province.districts.map(district => ({
+      name: district.name,
+      localLevels: district.localLevels.map(localLevel => ({
+        name: localLevel.name,
+        type: localLevel.type
+      }))
+    }))
+  }));
+};
 
-  return categories;
+/**
+ * Add province/district filters, accepting aliases such as "Province 1" or "Kavre"
+ */
+const applyLocationFilters = (where: any, filters: { province?: string; district?: string }) => {
+  if (filters.province) {
+    where.province = findProvince(filters.province)?.name || filters.province;
+  }
+  if (filters.district) {
+    where.district = findDistrict(filters.district)?.district.name || filters.district;
+  }
 };
 
 /**
@@ -17,6 +63,8 @@ export const getAllCategories = async () => {
  * Now returns ALL businesses for review (PENDING, APPROVED, REJECTED)
  */
 export const listPendingBusinesses = async (filters: {
+  assigneeId?: string | null;
+  overdue?: boolean;
   page?: number;
   limit?: number;
 }) => {
@@ -24,26 +72,39 @@ export const listPendingBusinesses = async (filters: {
   const limit = filters.limit || 50; // Increased to show more businesses
   const skip = (page - 1) * limit;
 
+  // Removed status filter - now shows all businesses unless only overdue ones are asked for
+  const where: any = {};
+  if (filters.assigneeId !== undefined) {
+    where.reviewAssigneeId = filters.assigneeId;
+  }
+  if (filters.overdue) {
+    where.status = { in: OPEN_BUSINESS_STATUSES };
+    Object.assign(where, businessSubmittedBefore(getOverdueCutoff()));
+  }
+
   const [businesses, total] = await Promise.all([
     prisma.business.findMany({
-      // Removed status filter - now shows all businesses
+      where,
       include: {
         businessLogin: {
           select: { id: true, email: true }
         },
         category: {
           select: { id: true, name: true, slug: true }
-        }
+        },
+        reviewAssignee: reviewAssigneeSelect
       },
       orderBy: { createdAt: 'desc' },
       skip,
       take: limit
     }),
-    prisma.business.count() // Count all businesses
+    prisma.business.count({ where })
   ]);
 
   return {
-    businesses,
+    businesses: businesses.map(business =>
+      withReviewAge(business, getBusinessSubmittedAt(business), OPEN_BUSINESS_STATUSES.includes(business.status))
+    ),
     pagination: {
       page,
       limit,
@@ -53,10 +114,47 @@ export const listPendingBusinesses = async (filters: {
   };
 };
 
+/**
+ * Assign a business review to a reviewer, or clear the assignee with null (Admin)
+ */
+export const assignBusinessReview = async (businessId: string, assigneeId: string | null) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business not found');
+  }
+
+  if (assigneeId) {
+    await assertAssignableReviewer(assigneeId);
+  }
+
+  const updated = await prisma.business.update({
+    where: { id: businessId },
+    data: {
+      reviewAssigneeId: assigneeId,
+      reviewAssignedAt: assigneeId ? new Date() : null
+    },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      createdAt: true,
+      resubmittedAt: true,
+      reviewAssignedAt: true,
+      reviewAssignee: reviewAssigneeSelect
+    }
+  });
+
+  return withReviewAge(updated, getBusinessSubmittedAt(updated), OPEN_BUSINESS_STATUSES.includes(updated.status));
+};
+
 /**
  * Approve business
  */
-export const approveBusiness = async (businessId: string) => {
+export const approveBusiness = async (businessId: string, adminId: string) => {
   const business = await prisma.business.findUnique({
     where: { id: businessId },
     include: { businessLogin: true }
@@ -70,6 +168,8 @@ export const approveBusiness = async (businessId: string) => {
     throw new BadRequestError('Business already approved');
   }
 
+  await assertVerificationComplete(businessId);
+
   // Use transaction to update both business and invalidate the onboarding token
   const updated = await prisma.$transaction(async (tx) => {
     // Update business status
@@ -77,10 +177,13 @@ export const approveBusiness = async (businessId: string) => {
       where: { id: businessId },
       data: {
         status: 'APPROVED',
-        rejectionReason: null
+        rejectionReason: null,
+        reviewedAt: new Date()
       }
     });
 
+    await closeReviewRound(businessId, 'APPROVED', adminId, null, tx);
+
     // Find and invalidate the onboarding token
     // Clear the token so it cannot be used again
     const onboardingRequest = await tx.businessOnboardingRequest.findFirst({
@@ -109,7 +212,7 @@ export const approveBusiness = async (businessId: string) => {
 /**
  * Reject business
  */
-export const rejectBusiness = async (businessId: string, reason: string) => {
+export const rejectBusiness = async (businessId: string, adminId: string, reason: string) => {
   const business = await prisma.business.findUnique({
     where: { id: businessId },
     include: { businessLogin: true }
@@ -130,10 +233,13 @@ export const rejectBusiness = async (businessId: string, reason: string) => {
       where: { id: businessId },
       data: {
         status: 'REJECTED',
-        rejectionReason: reason
+        rejectionReason: reason,
+        reviewedAt: new Date()
       }
     });
 
+    await closeReviewRound(businessId, 'REJECTED', adminId, reason, tx);
+
     // Find and invalidate the onboarding token
     // Clear the token so it cannot be used again
     const onboardingRequest = await tx.businessOnboardingRequest.findFirst({
@@ -201,6 +307,9 @@ export const getApprovedBusinessById = async (businessId: string) => {
       businessType: true,
       yearEstablished: true,
       location: true,
+      province: true,
+      district: true,
+      municipality: true,
       address: true,
       teamSize: true,
       fundingStage: true,
@@ -242,7 +351,10 @@ export const getApprovedBusinessById = async (businessId: string) => {
     data: { viewCount: { increment: 1 } }
   });
 
-  return business;
+  return {
+    ...business,
+    verificationBadges: await getVerificationBadges(businessId)
+  };
 };
 
 /**
@@ -250,7 +362,9 @@ export const getApprovedBusinessById = async (businessId: string) => {
  * Now also checks isActive field
  */
 export const listApprovedBusinesses = async (filters: {
-  categoryId?: string;
+  categoryId?: number;
+  province?: string;
+  district?: string;
   page?: number;
   limit?: number;
 }) => {
@@ -260,8 +374,10 @@ export const listApprovedBusinesses = async (filters: {
 
   const where: any = { status: 'APPROVED', isActive: true };
   if (filters.categoryId) {
-    where.categoryId = filters.categoryId;
+    // A top-level category also lists the businesses in its subcategories
+    where.categoryId = { in: await getCategoryTreeIds(filters.categoryId) };
   }
+  applyLocationFilters(where, filters);
 
   const [businesses, total] = await Promise.all([
     prisma.business.findMany({
@@ -278,6 +394,9 @@ export const listApprovedBusinesses = async (filters: {
         businessType: true,
         yearEstablished: true,
         location: true,
+        province: true,
+        district: true,
+        municipality: true,
         address: true,
         teamSize: true,
         fundingStage: true,
@@ -332,12 +451,15 @@ export const listAllBusinessesForAdmin = async (filters: {
   page?: number;
   limit?: number;
   status?: string;
+  province?: string;
+  district?: string;
 }) => {
   const page = filters.page || 1;
   const limit = filters.limit || 50;
   const skip = (page - 1) * limit;
 
   const where: any = { status: 'APPROVED' };
+  applyLocationFilters(where, filters);
 
   const [businesses, total] = await Promise.all([
     prisma.business.findMany({
@@ -484,6 +606,8 @@ export const updateBusiness = async (
     }
   });
 
+  await resetChangedVerificationChecks(businessId, business, data);
+
   return updated;
 };
 
@@ -493,10 +617,7 @@ export const updateBusiness = async (
  */
 export const toggleBusinessActive = async (businessId: string) => {
   const business = await prisma.business.findUnique({
-    where: { id: businessId },
-    include: {
-      businessLogin: true
-    }
+    where: { id: businessId }
   });
 
   if (!business) {
@@ -505,21 +626,33 @@ export const toggleBusinessActive = async (businessId: string) => {
 
   const newActiveStatus = !business.isActive;
 
-  // Update both Business.isActive and BusinessLogin.isActive
-  const updated = await prisma.business.update({
-    where: { id: businessId },
-    data: {
-      isActive: newActiveStatus,
-      businessLogin: {
-        update: {
-          isActive: newActiveStatus
+  const members = await prisma.businessMember.findMany({
+    where: { businessId },
+    select: { businessLoginId: true }
+  });
+  const loginIds = [business.businessLoginId, ...members.map(member => member.businessLoginId)];
+
+  // Update Business.isActive and the BusinessLogin.isActive of the owner and team members
+  const [, updated] = await prisma.$transaction([
+    prisma.businessLogin.updateMany({
+      where: { id: { in: loginIds } },
+      data: { isActive: newActiveStatus }
+    }),
+    prisma.business.update({
+      where: { id: businessId },
+      data: { isActive: newActiveStatus },
+      include: {
+        businessLogin: {
+          select: businessLoginSelect
         }
       }
-    },
-    include: {
-      businessLogin: true
-    }
-  });
+    })
+  ]);
+
+  // Deactivated logins are signed out immediately
+  if (!newActiveStatus) {
+    await Promise.all(loginIds.map(loginId => revokeAllSessions(loginId, 'BUSINESS')));
+  }
 
   return updated;
 };
@@ -0,0 +1,343 @@
+import { BusinessMemberRole } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { generateToken, getTokenExpiration, hashToken, isTokenExpired } from '../utils/token.utils';
+import { hashPassword } from '../utils/password.utils';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { revokeAllSessions } from './session.service';
+import { sendBusinessMemberInvitationEmail } from './email.service';
+import { isEmailInUse } from './account.service';
+
+/**
+ * Resolve the business a login belongs to and its role there
+ * The login referenced by Business.businessLoginId is the owner;
+ * everyone else is linked through a BusinessMember row
+ */
+export const getBusinessMembership = async (businessLoginId: string) => {
+  const businessLogin = await prisma.businessLogin.findUnique({
+    where: { id: businessLoginId },
+    select: {
+      business: {
+        select: { id: true }
+      },
+      membership: {
+        select: { businessId: true, role: true }
+      }
+    }
+  });
+
+  if (businessLogin?.business) {
+    return {
+      businessId: businessLogin.business.id,
+      businessRole: 'OWNER' as BusinessMemberRole
+    };
+  }
+
+  if (businessLogin?.membership) {
+    return {
+      businessId: businessLogin.membership.businessId,
+      businessRole: businessLogin.membership.role
+    };
+  }
+
+  return null;
+};
+
+/**
+ * List the owner, members and pending invitations of a business
+ */
+export const listBusinessMembers = async (businessId: string) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      businessLogin: {
+        select: { id: true, email: true, isActive: true, createdAt: true }
+      },
+      members: {
+        select: {
+          id: true,
+          role: true,
+          createdAt: true,
+          businessLogin: {
+            select: { id: true, email: true, isActive: true }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      },
+      memberInvitations: {
+        where: {
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() }
+        },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          expiresAt: true,
+          createdAt: true
+        },
+        orderBy: { createdAt: 'desc' }
+      }
+    }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business profile not found');
+  }
+
+  const owner = {
+    id: null,
+    businessLoginId: business.businessLogin.id,
+    email: business.businessLogin.email,
+    role: 'OWNER' as BusinessMemberRole,
+    isActive: business.businessLogin.isActive,
+    createdAt: business.businessLogin.createdAt
+  };
+
+  const members = business.members.map(member => ({
+    id: member.id,
+    businessLoginId: member.businessLogin.id,
+    email: member.businessLogin.email,
+    role: member.role,
+    isActive: member.businessLogin.isActive,
+    createdAt: member.createdAt
+  }));
+
+  return {
+    members: [owner, ...members],
+    invitations: business.memberInvitations
+  };
+};
+
+/**
+ * Invite someone to join a business team
+ * Invitees get their own login, so the email must not belong to any account yet
+ */
+export const inviteBusinessMember = async (
+  businessId: string,
+  invitedById: string,
+  email: string,
+  role: BusinessMemberRole
+) => {
+  const normalizedEmail = email.toLowerCase();
+
+  if (role === 'OWNER') {
+    throw new BadRequestError('A business can only have one owner');
+  }
+
+  if (await isEmailInUse(normalizedEmail)) {
+    throw new ConflictError('An account with this email already exists');
+  }
+
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true, name: true }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business profile not found');
+  }
+
+  const token = generateToken();
+
+  // Re-inviting the same email replaces any earlier pending invitation
+  const [, invitation] = await prisma.$transaction([
+    prisma.businessMemberInvitation.updateMany({
+      where: {
+        businessId,
+        email: normalizedEmail,
+        acceptedAt: null,
+        revokedAt: null
+      },
+      data: { revokedAt: new Date() }
+    }),
+    prisma.businessMemberInvitation.create({
+      data: {
+        businessId,
+        email: normalizedEmail,
+        role,
+        tokenHash: hashToken(token),
+        invitedById,
+        expiresAt: getTokenExpiration()
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true
+      }
+    })
+  ]);
+
+  try {
+    await sendBusinessMemberInvitationEmail(normalizedEmail, business.name, role, token);
+  } catch (emailError) {
+    console.warn('Failed to send team invitation email:', emailError);
+  }
+
+  return invitation;
+};
+
+/**
+ * Revoke a pending invitation
+ */
+export const revokeBusinessInvitation = async (businessId: string, invitationId: string) => {
+  const revoked = await prisma.businessMemberInvitation.updateMany({
+    where: {
+      id: invitationId,
+      businessId,
+      acceptedAt: null,
+      revokedAt: null
+    },
+    data: { revokedAt: new Date() }
+  });
+
+  if (revoked.count === 0) {
+    throw new NotFoundError('Invitation not found');
+  }
+
+  return { success: true };
+};
+
+/**
+ * Change a member's role
+ */
+export const updateBusinessMemberRole = async (
+  businessId: string,
+  memberId: string,
+  role: BusinessMemberRole
+) => {
+  if (role === 'OWNER') {
+    throw new BadRequestError('A business can only have one owner');
+  }
+
+  const member = await prisma.businessMember.findFirst({
+    where: { id: memberId, businessId },
+    select: { id: true }
+  });
+
+  if (!member) {
+    throw new NotFoundError('Team member not found');
+  }
+
+  return prisma.businessMember.update({
+    where: { id: memberId },
+    data: { role },
+    select: {
+      id: true,
+      role: true,
+      updatedAt: true
+    }
+  });
+};
+
+/**
+ * Remove a member from a business
+ * Member logins exist only for the team, so the login is deleted and signed out
+ */
+export const removeBusinessMember = async (businessId: string, memberId: string) => {
+  const member = await prisma.businessMember.findFirst({
+    where: { id: memberId, businessId },
+    select: { id: true, businessLoginId: true }
+  });
+
+  if (!member) {
+    throw new NotFoundError('Team member not found');
+  }
+
+  await prisma.businessLogin.delete({
+    where: { id: member.businessLoginId }
+  });
+
+  await revokeAllSessions(member.businessLoginId, 'BUSINESS');
+
+  return { success: true };
+};
+
+/**
+ * Find a pending invitation by its plain token
+ */
+const findPendingInvitation = async (token: string) => {
+  const invitation = await prisma.businessMemberInvitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      business: {
+        select: { id: true, name: true }
+      }
+    }
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt || isTokenExpired(invitation.expiresAt)) {
+    throw new BadRequestError('Invalid or expired invitation');
+  }
+
+  return invitation;
+};
+
+/**
+ * Validate an invitation token before showing the accept form
+ */
+export const validateBusinessInvitation = async (token: string) => {
+  const invitation = await findPendingInvitation(token);
+
+  return {
+    isValid: true,
+    businessName: invitation.business.name,
+    email: invitation.email,
+    role: invitation.role
+  };
+};
+
+/**
+ * Accept an invitation by setting a password
+ * Creates the member's login and links it to the business
+ */
+export const acceptBusinessInvitation = async (token: string, password: string) => {
+  const invitation = await findPendingInvitation(token);
+
+  if (await isEmailInUse(invitation.email)) {
+    throw new ConflictError('An account with this email already exists');
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  const member = await prisma.$transaction(async (tx) => {
+    // Claim atomically so the invitation cannot be accepted twice concurrently
+    const claimed = await tx.businessMemberInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestError('Invalid or expired invitation');
+    }
+
+    const businessLogin = await tx.businessLogin.create({
+      data: {
+        email: invitation.email,
+        passwordHash,
+        isActive: true
+      }
+    });
+
+    return tx.businessMember.create({
+      data: {
+        businessId: invitation.businessId,
+        businessLoginId: businessLogin.id,
+        role: invitation.role
+      },
+      select: {
+        id: true,
+        role: true,
+        businessId: true
+      }
+    });
+  });
+
+  return {
+    ...member,
+    email: invitation.email,
+    businessName: invitation.business.name
+  };
+};
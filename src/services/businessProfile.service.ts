@@ -1,13 +1,31 @@
 import prisma from '../config/prisma.config';
-import { NotFoundError, ForbiddenError, UnauthorizedError } from '../utils/errors';
-import bcrypt from 'bcryptjs';
+import { NotFoundError, ForbiddenError, UnauthorizedError, BadRequestError, ConflictError } from '../utils/errors';
+import { hashPassword, verifyPassword } from '../utils/password.utils';
+import { getTokenExpiration } from '../utils/token.utils';
+import { resolveNepalAddress, formatLocation } from '../utils/address.utils';
+import { revokeAllSessions } from './session.service';
+import { issueAuthToken, consumeAuthToken } from './authToken.service';
+import { sendEmailChangeVerificationEmail, sendEmailChangeNoticeEmail } from './email.service';
+import { isEmailInUse } from './account.service';
+import { resetChangedVerificationChecks } from './businessVerification.service';
+
+const EMAIL_CHANGE_EXPIRATION_HOURS = parseInt(process.env.EMAIL_CHANGE_EXPIRATION_HOURS || '24');
 
 /**
- * Get business profile for logged-in business user
+ * Check that no other account already uses an email
  */
-export const getOwnBusinessProfile = async (businessLoginId: string) => {
+const assertEmailAvailable = async (email: string) => {
+  if (await isEmailInUse(email)) {
+    throw new ConflictError('This email is already in use');
+  }
+};
+
+/**
+ * Get business profile for the logged-in member's business
+ */
+export const getOwnBusinessProfile = async (businessId: string) => {
   const business = await prisma.business.findUnique({
-    where: { businessLoginId },
+    where: { id: businessId },
     select: {
       id: true,
       name: true,
@@ -20,6 +38,10 @@ export const getOwnBusinessProfile = async (businessLoginId: string) => {
       businessType: true,
       yearEstablished: true,
       location: true,
+      province: true,
+      district: true,
+      municipality: true,
+      wardNumber: true,
       address: true,
       teamSize: true,
       promoterProfile: true,
@@ -61,10 +83,10 @@ export const getOwnBusinessProfile = async (businessLoginId: string) => {
 };
 
 /**
- * Update business profile for logged-in business user
+ * Update business profile for the logged-in member's business
  */
 export const updateOwnBusinessProfile = async (
-  businessLoginId: string,
+  businessId: string,
   data: {
     name?: string;
     registrationNumber?: string;
@@ -72,6 +94,10 @@ export const updateOwnBusinessProfile = async (
     businessType?: string;
     yearEstablished?: number;
     location?: string;
+    province?: string;
+    district?: string;
+    municipality?: string;
+    wardNumber?: number | null;
     address?: string;
     teamSize?: string;
     promoterProfile?: string;
@@ -95,21 +121,48 @@ export const updateOwnBusinessProfile = async (
     instagramUrl?: string;
   }
 ) => {
-  // Verify business exists and belongs to this user
+  // Verify business exists
   const existingBusiness = await prisma.business.findUnique({
-    where: { businessLoginId },
-    select: { id: true, status: true }
+    where: { id: businessId },
+    select: {
+      id: true,
+      status: true,
+      name: true,
+      registrationNumber: true,
+      panNumber: true,
+      contactPhone: true
+    }
   });
 
   if (!existingBusiness) {
     throw new NotFoundError('Business profile not found');
   }
 
+  // Store canonical names from the Nepal reference data and keep location in sync
+  let address = {};
+  if (data.district) {
+    const resolved = resolveNepalAddress({
+      province: data.province,
+      district: data.district,
+      municipality: data.municipality
+    });
+
+    if (!resolved.address) {
+      throw new BadRequestError(resolved.errors.map(error => error.message).join('; '));
+    }
+
+    address = {
+      ...resolved.address,
+      location: formatLocation(resolved.address)
+    };
+  }
+
   // Update business
   const updated = await prisma.business.update({
-    where: { businessLoginId },
+    where: { id: businessId },
     data: {
       ...data,
+      ...address,
       updatedAt: new Date()
     },
     select: {
@@ -120,14 +173,18 @@ export const updateOwnBusinessProfile = async (
     }
   });
 
+  await resetChangedVerificationChecks(businessId, existingBusiness, data);
+
   return updated;
 };
 
 /**
  * Change password for business account
+ * Every other session is signed out; the session making the change stays active
  */
 export const changeBusinessPassword = async (
   businessLoginId: string,
+  currentSessionId: string,
   currentPassword: string,
   newPassword: string
 ) => {
@@ -142,13 +199,13 @@ export const changeBusinessPassword = async (
   }
 
   // Verify current password
-  const isValidPassword = await bcrypt.compare(currentPassword, businessLogin.passwordHash);
+  const isValidPassword = await verifyPassword(currentPassword, businessLogin.passwordHash);
   if (!isValidPassword) {
     throw new UnauthorizedError('Current password is incorrect');
   }
 
   // Hash new password
-  const newPasswordHash = await bcrypt.hash(newPassword, 10);
+  const newPasswordHash = await hashPassword(newPassword);
 
   // Update password
   await prisma.businessLogin.update({
@@ -159,19 +216,120 @@ export const changeBusinessPassword = async (
     }
   });
 
+  await revokeAllSessions(businessLoginId, 'BUSINESS', currentSessionId);
+
+  return { success: true };
+};
+
+/**
+ * Start changing the login email of a business account
+ * Nothing changes until the link sent to the new address is confirmed
+ */
+export const requestBusinessEmailChange = async (
+  businessLoginId: string,
+  currentPassword: string,
+  newEmail: string
+) => {
+  const businessLogin = await prisma.businessLogin.findUnique({
+    where: { id: businessLoginId },
+    select: {
+      id: true,
+      email: true,
+      passwordHash: true,
+      business: { select: { name: true } },
+      membership: { select: { business: { select: { name: true } } } }
+    }
+  });
+
+  if (!businessLogin) {
+    throw new NotFoundError('Business account not found');
+  }
+
+  const isValidPassword = await verifyPassword(currentPassword, businessLogin.passwordHash);
+  if (!isValidPassword) {
+    throw new UnauthorizedError('Current password is incorrect');
+  }
+
+  const normalizedEmail = newEmail.toLowerCase();
+
+  if (normalizedEmail === businessLogin.email) {
+    throw new BadRequestError('New email must be different from the current email');
+  }
+
+  await assertEmailAvailable(normalizedEmail);
+
+  const token = await issueAuthToken(
+    businessLogin.id,
+    'BUSINESS',
+    'EMAIL_CHANGE',
+    getTokenExpiration(EMAIL_CHANGE_EXPIRATION_HOURS),
+    normalizedEmail
+  );
+
+  const name = businessLogin.business?.name || businessLogin.membership?.business.name || businessLogin.email;
+
+  try {
+    await sendEmailChangeVerificationEmail(normalizedEmail, name, token, EMAIL_CHANGE_EXPIRATION_HOURS);
+    await sendEmailChangeNoticeEmail(businessLogin.email, name, normalizedEmail);
+  } catch (emailError) {
+    console.warn('Failed to send email change emails:', emailError);
+  }
+
   return { success: true };
 };
 
+/**
+ * Confirm an email change with the token sent to the new address
+ * The business contact email follows the login email if they were the same
+ */
+export const confirmBusinessEmailChange = async (token: string) => {
+  const { userId, role, newEmail } = await consumeAuthToken(token, 'EMAIL_CHANGE');
+
+  if (role !== 'BUSINESS' || !newEmail) {
+    throw new BadRequestError('Invalid or expired token');
+  }
+
+  const businessLogin = await prisma.businessLogin.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      business: { select: { id: true, contactEmail: true } }
+    }
+  });
+
+  if (!businessLogin) {
+    throw new NotFoundError('Business account not found');
+  }
+
+  // The address may have been taken since the change was requested
+  await assertEmailAvailable(newEmail);
+
+  await prisma.$transaction([
+    prisma.businessLogin.update({
+      where: { id: businessLogin.id },
+      data: { email: newEmail }
+    }),
+    ...(businessLogin.business && businessLogin.business.contactEmail === businessLogin.email
+      ? [prisma.business.update({
+          where: { id: businessLogin.business.id },
+          data: { contactEmail: newEmail }
+        })]
+      : [])
+  ]);
+
+  return { email: newEmail };
+};
+
 /**
  * Request business profile removal
  */
 export const requestBusinessRemoval = async (
-  businessLoginId: string,
+  businessId: string,
   reason?: string
 ) => {
-  // Get the business for this login
   const business = await prisma.business.findUnique({
-    where: { businessLoginId },
+    where: { id: businessId },
     select: { id: true, name: true }
   });
 
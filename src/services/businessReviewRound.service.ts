@@ -0,0 +1,232 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+// Profile fields captured with each submission
+const submissionProfileSelect = {
+  name: true,
+  registrationNumber: true,
+  panNumber: true,
+  categoryId: true,
+  businessType: true,
+  yearEstablished: true,
+  location: true,
+  province: true,
+  district: true,
+  municipality: true,
+  wardNumber: true,
+  address: true,
+  teamSize: true,
+  promoterProfile: true,
+  paidUpCapital: true,
+  fundingStage: true,
+  minimumInvestmentUnits: true,
+  maximumInvestmentUnits: true,
+  pricePerUnit: true,
+  expectedReturnOptions: true,
+  estimatedMarketValuation: true,
+  ipoTimeHorizon: true,
+  briefDescription: true,
+  fullDescription: true,
+  vision: true,
+  mission: true,
+  growthPlans: true,
+  contactEmail: true,
+  contactPhone: true,
+  website: true,
+  facebookUrl: true,
+  linkedinUrl: true,
+  instagramUrl: true,
+  logoUrl: true
+};
+
+const submissionMediaSelect = {
+  id: true,
+  mediaType: true,
+  title: true,
+  fileName: true,
+  fileUrl: true,
+  externalUrl: true
+};
+
+interface SubmissionSnapshot {
+  profile: Record<string, unknown>;
+  media: { id: string; mediaType: string; title: string | null; fileName: string | null; fileUrl: string | null; externalUrl: string | null }[];
+}
+
+/**
+ * Capture the business profile and media as they are now
+ */
+const takeSubmissionSnapshot = async (businessId: string, tx: Prisma.TransactionClient): Promise<SubmissionSnapshot> => {
+  const business = await tx.business.findUnique({
+    where: { id: businessId },
+    select: {
+      ...submissionProfileSelect,
+      media: {
+        select: submissionMediaSelect,
+        orderBy: { uploadedAt: 'asc' }
+      }
+    }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business not found');
+  }
+
+  const { media, ...profile } = business;
+
+  // Round-trip through JSON so decimals are stored as strings
+  return JSON.parse(JSON.stringify({ profile, media }));
+};
+
+/**
+ * List the profile fields and media that differ between two submissions
+ */
+const diffSubmissionSnapshots = (previous: SubmissionSnapshot, current: SubmissionSnapshot) => {
+  const fields: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of Object.keys(current.profile)) {
+    const from = previous.profile[field] ?? null;
+    const to = current.profile[field] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      fields[field] = { from, to };
+    }
+  }
+
+  const previousMediaIds = new Set(previous.media.map(media => media.id));
+  const currentMediaIds = new Set(current.media.map(media => media.id));
+
+  return {
+    fields,
+    mediaAdded: current.media.filter(media => !previousMediaIds.has(media.id)),
+    mediaRemoved: previous.media.filter(media => !currentMediaIds.has(media.id))
+  };
+};
+
+/**
+ * Record a submission of a business for review
+ * Changes are worked out against the previous round, if there is one
+ */
+export const openReviewRound = async (businessId: string, tx: Prisma.TransactionClient = prisma) => {
+  const previous = await tx.businessReviewRound.findFirst({
+    where: { businessId },
+    orderBy: { roundNumber: 'desc' }
+  });
+
+  const snapshot = await takeSubmissionSnapshot(businessId, tx);
+
+  return tx.businessReviewRound.create({
+    data: {
+      businessId,
+      roundNumber: (previous?.roundNumber || 0) + 1,
+      snapshot: snapshot as unknown as Prisma.InputJsonObject,
+      changes: previous
+        ? (diffSubmissionSnapshots(previous.snapshot as unknown as SubmissionSnapshot, snapshot) as unknown as Prisma.InputJsonObject)
+        : undefined
+    }
+  });
+};
+
+/**
+ * Record the outcome of the open review round
+ * Businesses submitted before review rounds existed get a round for what was reviewed
+ */
+export const closeReviewRound = async (
+  businessId: string,
+  outcome: 'APPROVED' | 'REJECTED',
+  adminId: string,
+  rejectionReason: string | null,
+  tx: Prisma.TransactionClient = prisma
+) => {
+  const round = await tx.businessReviewRound.findFirst({
+    where: { businessId, outcome: 'PENDING' },
+    orderBy: { roundNumber: 'desc' }
+  }) || await openReviewRound(businessId, tx);
+
+  return tx.businessReviewRound.update({
+    where: { id: round.id },
+    data: {
+      outcome,
+      rejectionReason,
+      reviewedById: adminId,
+      reviewedAt: new Date()
+    }
+  });
+};
+
+/**
+ * Send a rejected business back for review (Business)
+ * The business returns to PENDING and a new review round records what changed
+ */
+export const resubmitBusiness = async (businessId: string) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true, status: true }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business profile not found');
+  }
+
+  if (business.status !== 'REJECTED') {
+    throw new BadRequestError('Only a rejected business can be resubmitted for review');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Guard against a concurrent resubmission or review
+    const { count } = await tx.business.updateMany({
+      where: { id: businessId, status: 'REJECTED' },
+      data: {
+        status: 'PENDING',
+        rejectionReason: null,
+        resubmittedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      throw new BadRequestError('Only a rejected business can be resubmitted for review');
+    }
+
+    const round = await openReviewRound(businessId, tx);
+
+    return {
+      id: businessId,
+      status: 'PENDING' as const,
+      roundNumber: round.roundNumber,
+      submittedAt: round.submittedAt,
+      changes: round.changes
+    };
+  });
+};
+
+/**
+ * Review history of a business, newest round first
+ * @param forAdmin - Include the reviewing admin and the submitted snapshot
+ */
+export const listBusinessReviewRounds = async (businessId: string, forAdmin: boolean = false) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true }
+  });
+
+  if (!business) {
+    throw new NotFoundError(forAdmin ? 'Business not found' : 'Business profile not found');
+  }
+
+  return prisma.businessReviewRound.findMany({
+    where: { businessId },
+    select: {
+      id: true,
+      roundNumber: true,
+      outcome: true,
+      rejectionReason: true,
+      changes: true,
+      submittedAt: true,
+      reviewedAt: true,
+      snapshot: forAdmin,
+      reviewedBy: forAdmin ? { select: { id: true, username: true, email: true } } : false
+    },
+    orderBy: { roundNumber: 'desc' }
+  });
+};
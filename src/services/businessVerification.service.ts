@@ -0,0 +1,183 @@
+import { MediaType, VerificationCheckStatus, VerificationItem } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { VERIFICATION_ITEMS } from '../config/verification.config';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+const VERIFICATION_ITEM_KEYS = Object.keys(VERIFICATION_ITEMS) as VerificationItem[];
+
+/**
+ * Verification checklist of a business (Admin)
+ * Items that have not been checked yet are listed as pending
+ */
+export const getVerificationChecklist = async (businessId: string) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      id: true,
+      verificationChecks: {
+        include: {
+          checkedBy: { select: { id: true, username: true, email: true } }
+        }
+      }
+    }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business not found');
+  }
+
+  const items = VERIFICATION_ITEM_KEYS.map(item => {
+    const config = VERIFICATION_ITEMS[item];
+    const check = business.verificationChecks.find(candidate => candidate.item === item);
+
+    return {
+      item,
+      label: config.label,
+      badge: config.badge,
+      required: check?.required ?? config.required,
+      status: check?.status || ('PENDING' as const),
+      notes: check?.notes || null,
+      checkedBy: check?.checkedBy || null,
+      checkedAt: check?.checkedAt || null
+    };
+  });
+
+  const outstanding = items.filter(item => item.required && item.status !== 'PASSED');
+
+  return {
+    items,
+    complete: outstanding.length === 0,
+    outstanding: outstanding.map(item => item.item)
+  };
+};
+
+/**
+ * Record the result of a check, or change whether it is required for this business (Admin)
+ */
+export const updateVerificationCheck = async (
+  businessId: string,
+  item: VerificationItem,
+  adminId: string,
+  data: {
+    status?: VerificationCheckStatus;
+    notes?: string | null;
+    required?: boolean | null;
+  }
+) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business not found');
+  }
+
+  const config = VERIFICATION_ITEMS[item];
+
+  if (data.status === 'PASSED' && config.mediaType) {
+    const documents = await prisma.businessMedia.count({
+      where: { businessId, mediaType: config.mediaType }
+    });
+
+    if (documents === 0) {
+      throw new BadRequestError(`This business has not uploaded a ${config.mediaType.toLowerCase().replace(/_/g, ' ')}`);
+    }
+  }
+
+  const result = data.status
+    ? { status: data.status, checkedById: adminId, checkedAt: new Date() }
+    : {};
+
+  await prisma.businessVerificationCheck.upsert({
+    where: { businessId_item: { businessId, item } },
+    create: {
+      businessId,
+      item,
+      ...result,
+      notes: data.notes,
+      required: data.required
+    },
+    update: {
+      ...result,
+      notes: data.notes,
+      required: data.required
+    }
+  });
+
+  return getVerificationChecklist(businessId);
+};
+
+/**
+ * Block approval until every required check has passed
+ */
+export const assertVerificationComplete = async (businessId: string) => {
+  const { outstanding } = await getVerificationChecklist(businessId);
+
+  if (outstanding.length > 0) {
+    const labels = outstanding.map(item => VERIFICATION_ITEMS[item].label);
+    throw new BadRequestError(`Verification is incomplete: ${labels.join('; ')}`);
+  }
+};
+
+/**
+ * Send passed checks back to pending
+ */
+const resetPassedChecks = async (businessId: string, items: VerificationItem[]) => {
+  if (items.length === 0) {
+    return;
+  }
+
+  await prisma.businessVerificationCheck.updateMany({
+    where: { businessId, item: { in: items }, status: 'PASSED' },
+    data: { status: 'PENDING', checkedById: null, checkedAt: null }
+  });
+};
+
+/**
+ * Send passed checks back to pending when a field they vouch for changes
+ * @param previous - Business values before the update
+ * @param data - Values that were written
+ */
+export const resetChangedVerificationChecks = async (
+  businessId: string,
+  previous: Record<string, unknown>,
+  data: Record<string, unknown>
+) => {
+  const changedFields = Object.keys(data).filter(field =>
+    data[field] !== undefined && (data[field] ?? null) !== (previous[field] ?? null)
+  );
+
+  await resetPassedChecks(businessId, VERIFICATION_ITEM_KEYS.filter(item =>
+    VERIFICATION_ITEMS[item].fields.some(field => changedFields.includes(field))
+  ));
+};
+
+/**
+ * Send passed checks back to pending when the document they were checked against
+ * is uploaded again, replaced or deleted
+ */
+export const resetVerificationChecksForMedia = async (businessId: string, mediaType: MediaType) => {
+  await resetPassedChecks(businessId, VERIFICATION_ITEM_KEYS.filter(item =>
+    VERIFICATION_ITEMS[item].mediaType === mediaType
+  ));
+};
+
+/**
+ * Badges for the checks a business has passed (Public)
+ */
+export const getVerificationBadges = async (businessId: string) => {
+  const checks = await prisma.businessVerificationCheck.findMany({
+    where: { businessId, status: 'PASSED' },
+    select: { item: true, checkedAt: true }
+  });
+
+  return VERIFICATION_ITEM_KEYS
+    .map(item => ({ item, check: checks.find(candidate => candidate.item === item) }))
+    .filter(({ check }) => check)
+    .map(({ item, check }) => ({
+      item,
+      badge: VERIFICATION_ITEMS[item].badge,
+      verifiedAt: check!.checkedAt
+    }));
+};
@@ -0,0 +1,359 @@
+import prisma from '../config/prisma.config';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { recordAuditLog } from './audit.service';
+
+// "open" creates a category for an unknown industry at registration; "existing" only accepts existing category slugs
+const REGISTRATION_CATEGORY_MODE = process.env.REGISTRATION_CATEGORY_MODE === 'existing' ? 'existing' : 'open';
+
+/**
+ * Turn a category name into a URL slug ("Food & Beverage" -> "food-beverage")
+ */
+const slugifyCategoryName = (name: string): string => {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+};
+
+/**
+ * Get all categories with the number of listed businesses in each (Public)
+ * Subcategories carry their parent's ID; counts cover approved, active businesses
+ */
+export const getAllCategories = async () => {
+  const categories = await prisma.category.findMany({
+    include: {
+      _count: {
+        select: {
+          businesses: { where: { status: 'APPROVED', isActive: true } }
+        }
+      }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  // Parents count their subcategories' businesses too, like the business listing filter
+  const childCounts = new Map<number, number>();
+  for (const category of categories) {
+    if (category.parentId !== null) {
+      childCounts.set(category.parentId, (childCounts.get(category.parentId) || 0) + category._count.businesses);
+    }
+  }
+
+  return categories.map(({ _count, ...category }) => ({
+    ...category,
+    businessCount: _count.businesses + (childCounts.get(category.id) || 0)
+  }));
+};
+
+/**
+ * IDs of a category and its subcategories, for filtering businesses
+ */
+export const getCategoryTreeIds = async (categoryId: number): Promise<number[]> => {
+  const children = await prisma.category.findMany({
+    where: { parentId: categoryId },
+    select: { id: true }
+  });
+
+  return [categoryId, ...children.map(child => child.id)];
+};
+
+const findCategoryOrThrow = async (categoryId: number) => {
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+    include: {
+      _count: { select: { businesses: true, children: true } }
+    }
+  });
+
+  if (!category) {
+    throw new NotFoundError('Category not found');
+  }
+
+  return category;
+};
+
+/**
+ * Check that a category can be the parent of another
+ * Only top-level categories can have subcategories
+ */
+const assertValidParent = async (parentId: number, categoryId?: number) => {
+  if (parentId === categoryId) {
+    throw new BadRequestError('A category cannot be its own parent');
+  }
+
+  const parent = await prisma.category.findUnique({
+    where: { id: parentId },
+    select: { parentId: true }
+  });
+
+  if (!parent) {
+    throw new BadRequestError('Parent category not found');
+  }
+
+  if (parent.parentId !== null) {
+    throw new BadRequestError('Subcategories cannot have subcategories of their own');
+  }
+};
+
+/**
+ * Reject a name or slug another category already uses
+ */
+const assertCategoryAvailable = async (name: string | undefined, slug: string | undefined, categoryId?: number) => {
+  const existing = await prisma.category.findFirst({
+    where: {
+      id: categoryId ? { not: categoryId } : undefined,
+      OR: [
+        ...(name ? [{ name: { equals: name, mode: 'insensitive' as const } }] : []),
+        ...(slug ? [{ slug }] : [])
+      ]
+    },
+    select: { name: true }
+  });
+
+  if (existing) {
+    throw new ConflictError(`Category "${existing.name}" already uses this name or slug`);
+  }
+};
+
+/**
+ * Create a category or subcategory (Admin)
+ */
+export const createCategory = async (
+  data: {
+    name: string;
+    slug?: string;
+    description?: string | null;
+    parentId?: number | null;
+  },
+  adminId: string,
+  ipAddress?: string
+) => {
+  const name = data.name.trim();
+  const slug = data.slug || slugifyCategoryName(name);
+
+  if (!slug) {
+    throw new BadRequestError('Category name must contain letters or numbers');
+  }
+
+  await assertCategoryAvailable(name, slug);
+
+  if (data.parentId) {
+    await assertValidParent(data.parentId);
+  }
+
+  const category = await prisma.category.create({
+    data: {
+      name,
+      slug,
+      description: data.description || null,
+      parentId: data.parentId || null
+    }
+  });
+
+  await recordAuditLog({
+    adminId,
+    action: 'category.create',
+    targetType: 'Category',
+    targetId: String(category.id),
+    details: { name: category.name, slug: category.slug, parentId: category.parentId },
+    ipAddress
+  });
+
+  return category;
+};
+
+/**
+ * Update a category, or move it under another category with parentId (null for top level) (Admin)
+ */
+export const updateCategory = async (
+  categoryId: number,
+  data: {
+    name?: string;
+    slug?: string;
+    description?: string | null;
+    parentId?: number | null;
+  },
+  adminId: string,
+  ipAddress?: string
+) => {
+  const category = await findCategoryOrThrow(categoryId);
+
+  const name = data.name?.trim();
+
+  await assertCategoryAvailable(name, data.slug, categoryId);
+
+  if (data.parentId) {
+    if (category._count.children > 0) {
+      throw new BadRequestError('A category with subcategories cannot become a subcategory');
+    }
+
+    await assertValidParent(data.parentId, categoryId);
+  }
+
+  // Only these fields can change; anything else in the request is ignored
+  const changes = {
+    name,
+    slug: data.slug,
+    description: data.description,
+    parentId: data.parentId
+  };
+
+  const updated = await prisma.category.update({
+    where: { id: categoryId },
+    data: changes
+  });
+
+  await recordAuditLog({
+    adminId,
+    action: 'category.update',
+    targetType: 'Category',
+    targetId: String(categoryId),
+    details: {
+      before: {
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        parentId: category.parentId
+      },
+      changes
+    },
+    ipAddress
+  });
+
+  return updated;
+};
+
+/**
+ * Delete an unused category (Admin)
+ * Categories with businesses must be merged into another category instead
+ */
+export const deleteCategory = async (categoryId: number, adminId: string, ipAddress?: string) => {
+  const category = await findCategoryOrThrow(categoryId);
+
+  if (category._count.businesses > 0) {
+    throw new ConflictError(
+      `"${category.name}" has ${category._count.businesses} business(es); merge it into another category instead`
+    );
+  }
+
+  if (category._count.children > 0) {
+    throw new ConflictError(`"${category.name}" has subcategories; move or delete them first`);
+  }
+
+  await prisma.category.delete({ where: { id: categoryId } });
+
+  await recordAuditLog({
+    adminId,
+    action: 'category.delete',
+    targetType: 'Category',
+    targetId: String(categoryId),
+    details: { name: category.name, slug: category.slug },
+    ipAddress
+  });
+};
+
+/**
+ * Merge a duplicate category into another (Admin)
+ * Businesses and subcategories move to the target, then the duplicate is deleted
+ */
+export const mergeCategories = async (
+  sourceId: number,
+  targetId: number,
+  adminId: string,
+  ipAddress?: string
+) => {
+  if (sourceId === targetId) {
+    throw new BadRequestError('A category cannot be merged into itself');
+  }
+
+  const [source, target] = await Promise.all([
+    findCategoryOrThrow(sourceId),
+    findCategoryOrThrow(targetId)
+  ]);
+
+  if (target.parentId === sourceId) {
+    throw new BadRequestError('Merge a subcategory into its parent, not the other way round');
+  }
+
+  if (source._count.children > 0 && target.parentId !== null) {
+    throw new BadRequestError(`"${source.name}" has subcategories and "${target.name}" is a subcategory; move them first`);
+  }
+
+  const { count: movedBusinesses } = await prisma.$transaction(async (tx) => {
+    const moved = await tx.business.updateMany({
+      where: { categoryId: sourceId },
+      data: { categoryId: targetId }
+    });
+
+    await tx.category.updateMany({
+      where: { parentId: sourceId },
+      data: { parentId: targetId }
+    });
+
+    await tx.category.delete({ where: { id: sourceId } });
+
+    return moved;
+  });
+
+  await recordAuditLog({
+    adminId,
+    action: 'category.merge',
+    targetType: 'Category',
+    targetId: String(targetId),
+    details: {
+      mergedCategoryId: sourceId,
+      mergedCategoryName: source.name,
+      movedBusinesses,
+      movedSubcategories: source._count.children
+    },
+    ipAddress
+  });
+
+  return {
+    category: await findCategoryOrThrow(targetId),
+    movedBusinesses,
+    movedSubcategories: source._count.children
+  };
+};
+
+/**
+ * Find the category for the industry entered at registration
+ * Matches an existing slug or name; unless registration is limited to existing categories,
+ * an unknown industry becomes a new category
+ */
+export const resolveRegistrationCategory = async (industry: string) => {
+  const slug = slugifyCategoryName(industry);
+
+  const existing = await prisma.category.findFirst({
+    where: {
+      OR: [
+        { slug: industry.trim().toLowerCase() },
+        ...(REGISTRATION_CATEGORY_MODE === 'open'
+          ? [{ slug }, { name: { equals: industry.trim(), mode: 'insensitive' as const } }]
+          : [])
+      ]
+    }
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  if (REGISTRATION_CATEGORY_MODE === 'existing') {
+    throw new BadRequestError(`Unknown industry category: ${industry}. Choose one of the listed categories`);
+  }
+
+  if (!slug) {
+    throw new BadRequestError('Industry must contain letters or numbers');
+  }
+
+  return prisma.category.upsert({
+    where: { slug },
+    update: {},
+    create: {
+      name: industry.trim(),
+      slug
+    }
+  });
+};
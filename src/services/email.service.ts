@@ -92,6 +92,418 @@ Capital Bridge Nepal Team
   });
 };
 
+/**
+ * Send a registration link to a business an admin invited directly
+ */
+export const sendBusinessInvitationEmail = async (
+  email: string,
+  businessName: string,
+  adminName: string,
+  token: string
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const registrationUrl = `${frontendUrl}/register?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    subject: 'You are invited to join Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${businessName},</h2>
+      <p>${adminName} from Capital Bridge Nepal has invited your business to list on our platform and connect with investors.</p>
+      <p>Your business has been pre-approved. Complete your registration by clicking the link below:</p>
+      <p><a href="${registrationUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Complete Registration</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${registrationUrl}</code></p>
+      <p><strong>Note:</strong> This link will expire in 72 hours.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${businessName},
+
+${adminName} from Capital Bridge Nepal has invited your business to list on our platform and connect with investors.
+
+Your business has been pre-approved. Complete your registration by clicking the link below:
+${registrationUrl}
+
+This link will expire in 72 hours.
+
+Your registration URL contains a unique token that identifies your business.
+Do not share this link with anyone else.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send password reset email with single-use reset link
+ */
+export const sendPasswordResetEmail = async (
+  email: string,
+  name: string,
+  token: string,
+  expirationHours: number
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const resetUrl = `${frontendUrl}/reset-password?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    subject: 'Reset Your Password - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${name},</h2>
+      <p>We received a request to reset the password for your Capital Bridge Nepal account.</p>
+      <p><a href="${resetUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Reset Password</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${resetUrl}</code></p>
+      <p><strong>Note:</strong> This link will expire in ${expirationHours} hour(s) and can only be used once.</p>
+      <p>If you did not request a password reset, you can safely ignore this email. Your password will not change.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${name},
+
+We received a request to reset the password for your Capital Bridge Nepal account.
+
+Reset your password using the link below:
+${resetUrl}
+
+This link will expire in ${expirationHours} hour(s) and can only be used once.
+
+If you did not request a password reset, you can safely ignore this email.
+Your password will not change.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send admin invitation email with a link to set a password
+ */
+export const sendAdminInvitationEmail = async (
+  email: string,
+  name: string,
+  token: string,
+  expirationHours: number
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const inviteUrl = `${frontendUrl}/admin/accept-invite?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    subject: 'You Have Been Invited as an Admin - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${name},</h2>
+      <p>You have been invited to join the Capital Bridge Nepal admin team.</p>
+      <p>Click the link below to set your password and activate your account:</p>
+      <p><a href="${inviteUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Set Password</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${inviteUrl}</code></p>
+      <p><strong>Note:</strong> This link will expire in ${expirationHours} hour(s) and can only be used once.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${name},
+
+You have been invited to join the Capital Bridge Nepal admin team.
+
+Set your password and activate your account here:
+${inviteUrl}
+
+This link will expire in ${expirationHours} hour(s) and can only be used once.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send verification link to the new address of an email change
+ */
+export const sendEmailChangeVerificationEmail = async (
+  newEmail: string,
+  name: string,
+  token: string,
+  expirationHours: number
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const confirmUrl = `${frontendUrl}/confirm-email-change?token=${token}`;
+
+  await sendEmail({
+    to: newEmail,
+    subject: 'Confirm Your New Email Address - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${name},</h2>
+      <p>We received a request to change the login email of your Capital Bridge Nepal account to this address.</p>
+      <p><a href="${confirmUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Confirm Email Change</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${confirmUrl}</code></p>
+      <p><strong>Note:</strong> This link will expire in ${expirationHours} hour(s). Your login email will not change until you confirm.</p>
+      <p>If you did not request this change, you can safely ignore this email.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${name},
+
+We received a request to change the login email of your Capital Bridge Nepal account to this address.
+
+Confirm the change using the link below:
+${confirmUrl}
+
+This link will expire in ${expirationHours} hour(s).
+Your login email will not change until you confirm.
+
+If you did not request this change, you can safely ignore this email.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send email verification link to a newly registered investor
+ */
+export const sendInvestorVerificationEmail = async (
+  email: string,
+  name: string,
+  token: string,
+  expirationHours: number
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const verifyUrl = `${frontendUrl}/verify-email?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    subject: 'Verify Your Email Address - Capital Bridge Nepal',
+    html: `
+      <h2>Welcome to Capital Bridge Nepal, ${name}!</h2>
+      <p>Please confirm your email address to activate your investor account.</p>
+      <p><a href="${verifyUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Verify Email</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${verifyUrl}</code></p>
+      <p><strong>Note:</strong> This link will expire in ${expirationHours} hour(s).</p>
+      <p>Once verified, any inquiries you made earlier with this email will appear in your account.</p>
+      <p>If you did not create an account, you can safely ignore this email.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Welcome to Capital Bridge Nepal, ${name}!
+
+Please confirm your email address to activate your investor account:
+${verifyUrl}
+
+This link will expire in ${expirationHours} hour(s).
+
+Once verified, any inquiries you made earlier with this email will appear in your account.
+
+If you did not create an account, you can safely ignore this email.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send a single-use login link to an investor
+ */
+export const sendMagicLinkEmail = async (
+  email: string,
+  name: string,
+  token: string,
+  expirationMinutes: number
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const loginUrl = `${frontendUrl}/magic-login?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    subject: 'Your Login Link - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${name},</h2>
+      <p>Use the button below to log in to your Capital Bridge Nepal investor account.</p>
+      <p><a href="${loginUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Log In</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${loginUrl}</code></p>
+      <p><strong>Note:</strong> This link will expire in ${expirationMinutes} minute(s) and can only be used once.</p>
+      <p>If you did not request this link, you can safely ignore this email.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${name},
+
+Use the link below to log in to your Capital Bridge Nepal investor account:
+${loginUrl}
+
+This link will expire in ${expirationMinutes} minute(s) and can only be used once.
+
+If you did not request this link, you can safely ignore this email.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Notify the current address that an email change was requested
+ */
+export const sendEmailChangeNoticeEmail = async (
+  email: string,
+  name: string,
+  newEmail: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: 'Email Change Requested - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${name},</h2>
+      <p>A request was made to change the login email of your Capital Bridge Nepal account to <strong>${newEmail}</strong>.</p>
+      <p>The change will only take effect once it is confirmed from the new address.</p>
+      <p>If you did not request this change, please reset your password and contact our support team immediately.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${name},
+
+A request was made to change the login email of your Capital Bridge Nepal account to ${newEmail}.
+The change will only take effect once it is confirmed from the new address.
+
+If you did not request this change, please reset your password and contact our support team immediately.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send account locked notice with a link to unlock immediately
+ */
+export const sendAccountLockedEmail = async (
+  email: string,
+  name: string,
+  token: string,
+  lockedUntil: Date
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const unlockUrl = `${frontendUrl}/unlock-account?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    subject: 'Your Account Has Been Locked - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${name},</h2>
+      <p>Your Capital Bridge Nepal account was temporarily locked after several failed login attempts.</p>
+      <p>It will unlock automatically at <strong>${lockedUntil.toUTCString()}</strong>.</p>
+      <p>If this was you, you can unlock your account now:</p>
+      <p><a href="${unlockUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Unlock Account</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${unlockUrl}</code></p>
+      <p>If this wasn't you, someone may be trying to access your account. We recommend resetting your password.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${name},
+
+Your Capital Bridge Nepal account was temporarily locked after several failed login attempts.
+It will unlock automatically at ${lockedUntil.toUTCString()}.
+
+If this was you, you can unlock your account now:
+${unlockUrl}
+
+If this wasn't you, someone may be trying to access your account.
+We recommend resetting your password.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Send business team invitation email
+ */
+export const sendBusinessMemberInvitationEmail = async (
+  email: string,
+  businessName: string,
+  role: string,
+  token: string
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const invitationUrl = `${frontendUrl}/accept-invitation?token=${token}`;
+  const roleLabel = role.charAt(0) + role.slice(1).toLowerCase();
+
+  await sendEmail({
+    to: email,
+    subject: `You've Been Invited to ${businessName} - Capital Bridge Nepal`,
+    html: `
+      <h2>Hello,</h2>
+      <p>You have been invited to join <strong>${businessName}</strong> on Capital Bridge Nepal as a <strong>${roleLabel}</strong>.</p>
+      <p>Click the link below to set your password and activate your account:</p>
+      <p><a href="${invitationUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Accept Invitation</a></p>
+      <p>Or copy and paste this URL in your browser:</p>
+      <p><code>${invitationUrl}</code></p>
+      <p>If you were not expecting this invitation, you can ignore this email.</p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello,
+
+You have been invited to join ${businessName} on Capital Bridge Nepal as a ${roleLabel}.
+
+Set your password and activate your account here:
+${invitationUrl}
+
+If you were not expecting this invitation, you can ignore this email.
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
+/**
+ * Notify an admin that a business asked for a new registration link
+ */
+export const sendRegistrationLinkRequestedEmail = async (
+  email: string,
+  adminName: string,
+  businessName: string,
+  businessEmail: string
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const requestsUrl = `${frontendUrl}/admin/onboarding?status=APPROVED`;
+
+  await sendEmail({
+    to: email,
+    subject: 'New Registration Link Requested - Capital Bridge Nepal',
+    html: `
+      <h2>Hello ${adminName},</h2>
+      <p><strong>${businessName}</strong> (${businessEmail}) did not complete registration before their link expired and has asked for a new one.</p>
+      <p>You can send a fresh link from the onboarding requests page:</p>
+      <p><a href="${requestsUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">View Onboarding Requests</a></p>
+      <p>Best regards,<br>Capital Bridge Nepal Team</p>
+    `,
+    text: `
+Hello ${adminName},
+
+${businessName} (${businessEmail}) did not complete registration before their link expired and has asked for a new one.
+
+You can send a fresh link from the onboarding requests page:
+${requestsUrl}
+
+Best regards,
+Capital Bridge Nepal Team
+    `
+  });
+};
+
 /**
  * Send onboarding rejection email
  */
@@ -0,0 +1,89 @@
+import prisma from '../config/prisma.config';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { createImpersonationSession, revokeSession, SessionClient } from './session.service';
+import { recordAuditLog } from './audit.service';
+
+const IMPERSONATION_DURATION_MINUTES = parseInt(process.env.IMPERSONATION_DURATION_MINUTES || '30');
+
+/**
+ * Start viewing a business as its owner (Super admin)
+ * Issues a time-limited session on the owner's login tagged with the admin
+ */
+export const startImpersonation = async (
+  adminId: string,
+  businessId: string,
+  reason: string,
+  client: SessionClient = {}
+) => {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      id: true,
+      name: true,
+      isActive: true,
+      businessLogin: {
+        select: { id: true, email: true, isActive: true }
+      }
+    }
+  });
+
+  if (!business) {
+    throw new NotFoundError('Business not found');
+  }
+
+  if (!business.isActive || !business.businessLogin.isActive) {
+    throw new BadRequestError('Inactive businesses cannot be impersonated');
+  }
+
+  const expiresAt = new Date(Date.now() + IMPERSONATION_DURATION_MINUTES * 60 * 1000);
+
+  const { sessionId, ...tokens } = await createImpersonationSession(
+    business.businessLogin.id,
+    adminId,
+    expiresAt,
+    client
+  );
+
+  await recordAuditLog({
+    adminId,
+    action: 'impersonation.start',
+    targetType: 'BUSINESS',
+    targetId: business.id,
+    sessionId,
+    details: { reason, expiresAt: expiresAt.toISOString() },
+    ipAddress: client.ipAddress
+  });
+
+  return {
+    impersonation: {
+      businessId: business.id,
+      businessName: business.name,
+      email: business.businessLogin.email,
+      expiresAt
+    },
+    ...tokens
+  };
+};
+
+/**
+ * End an impersonation session early
+ */
+export const endImpersonation = async (
+  adminId: string,
+  sessionId: string,
+  businessId: string,
+  ipAddress?: string
+) => {
+  await revokeSession(sessionId);
+
+  await recordAuditLog({
+    adminId,
+    action: 'impersonation.end',
+    targetType: 'BUSINESS',
+    targetId: businessId,
+    sessionId,
+    ipAddress
+  });
+
+  return { success: true };
+};
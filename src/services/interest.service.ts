@@ -27,6 +27,8 @@ export const submitInterest = async (data: {
   message?: string;
   hasConsent?: boolean;
   source?: string;
+  sourceId?: string;
+  investorId?: string;
 }) => {
   // Verify business exists and is approved
   const business = await prisma.business.findUnique({
@@ -49,6 +51,17 @@ export const submitInterest = async (data: {
     throw new BadRequestError('Business is not available for investment inquiries');
   }
 
+  // Submissions from a verified investor's email belong in their inquiry history
+  const investor = data.investorId
+    ? { id: data.investorId }
+    : await prisma.investor.findFirst({
+      where: {
+        email: data.email.toLowerCase(),
+        emailVerifiedAt: { not: null }
+      },
+      select: { id: true }
+    });
+
   // Create interest submission
   const interest = await prisma.interestSubmission.create({
     data: {
@@ -59,6 +72,8 @@ export const submitInterest = async (data: {
       message: data.message || null,
       hasConsent: data.hasConsent ?? true,
       source: data.source || 'aarthiQ Platform',
+      sourceId: data.sourceId || null,
+      investorId: investor?.id || null,
       status: 'NOT_CONTACTED'
     }
   });
@@ -93,6 +108,26 @@ export const submitInterest = async (data: {
   };
 };
 
+/**
+ * Match a lead source name to a default source or one of the business's custom sources
+ * @returns The source name to store and the custom source ID, if any
+ */
+export const resolveLeadSource = async (businessId: string, name: string) => {
+  if (DEFAULT_SOURCES.includes(name)) {
+    return { source: name, sourceId: undefined };
+  }
+
+  const customSource = await prisma.leadSource.findFirst({
+    where: { businessId, name }
+  });
+
+  if (!customSource) {
+    throw new BadRequestError(`Unknown lead source: ${name}`);
+  }
+
+  return { source: customSource.name, sourceId: customSource.id };
+};
+
 /**
  * Get interests for a specific business (Business owner only)
  */
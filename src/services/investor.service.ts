@@ -0,0 +1,217 @@
+import prisma from '../config/prisma.config';
+import { hashPassword } from '../utils/password.utils';
+import { getTokenExpiration } from '../utils/token.utils';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { issueAuthToken, consumeAuthToken } from './authToken.service';
+import { isEmailInUse } from './account.service';
+import { submitInterest } from './interest.service';
+import { sendInvestorVerificationEmail } from './email.service';
+
+const EMAIL_VERIFICATION_EXPIRATION_HOURS = parseInt(process.env.EMAIL_VERIFICATION_EXPIRATION_HOURS || '24');
+
+const investorSelect = {
+  id: true,
+  email: true,
+  fullName: true,
+  phoneNumber: true,
+  emailVerifiedAt: true,
+  twoFactorEnabled: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const sendVerification = async (investorId: string, email: string, fullName: string) => {
+  const token = await issueAuthToken(
+    investorId,
+    'INVESTOR',
+    'EMAIL_VERIFICATION',
+    getTokenExpiration(EMAIL_VERIFICATION_EXPIRATION_HOURS)
+  );
+
+  try {
+    await sendInvestorVerificationEmail(email, fullName, token, EMAIL_VERIFICATION_EXPIRATION_HOURS);
+  } catch (emailError) {
+    console.warn('Failed to send investor verification email:', emailError);
+  }
+};
+
+/**
+ * Register an investor account
+ * The account cannot log in until the emailed verification link is used.
+ * Registering again with an unverified email replaces the earlier details,
+ * so nobody can hold on to an address they do not own.
+ */
+export const registerInvestor = async (data: {
+  email: string;
+  password: string;
+  fullName: string;
+  phoneNumber: string;
+}) => {
+  const email = data.email.toLowerCase();
+
+  const existing = await prisma.investor.findUnique({
+    where: { email },
+    select: { id: true, emailVerifiedAt: true }
+  });
+
+  if (existing?.emailVerifiedAt || (!existing && await isEmailInUse(email))) {
+    throw new ConflictError('An account with this email already exists');
+  }
+
+  const passwordHash = await hashPassword(data.password);
+
+  const investor = existing
+    ? await prisma.investor.update({
+      where: { id: existing.id },
+      data: { passwordHash, fullName: data.fullName, phoneNumber: data.phoneNumber },
+      select: investorSelect
+    })
+    : await prisma.investor.create({
+      data: { email, passwordHash, fullName: data.fullName, phoneNumber: data.phoneNumber },
+      select: investorSelect
+    });
+
+  await sendVerification(investor.id, investor.email, investor.fullName);
+
+  return investor;
+};
+
+/**
+ * Send a new verification link
+ * Always resolves the same way so callers cannot tell whether the email is registered
+ */
+export const resendInvestorVerification = async (email: string) => {
+  const investor = await prisma.investor.findUnique({
+    where: { email: email.toLowerCase() },
+    select: { id: true, email: true, fullName: true, isActive: true, emailVerifiedAt: true }
+  });
+
+  if (!investor || !investor.isActive || investor.emailVerifiedAt) {
+    return;
+  }
+
+  await sendVerification(investor.id, investor.email, investor.fullName);
+};
+
+/**
+ * Verify an investor's email with the emailed token
+ * Earlier anonymous inquiries made with the same email are linked to the account
+ */
+export const verifyInvestorEmail = async (token: string) => {
+  const { userId } = await consumeAuthToken(token, 'EMAIL_VERIFICATION');
+
+  const investor = await prisma.investor.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, isActive: true, emailVerifiedAt: true }
+  });
+
+  if (!investor || !investor.isActive || investor.emailVerifiedAt) {
+    throw new BadRequestError('Invalid or expired token');
+  }
+
+  const [, linked] = await prisma.$transaction([
+    prisma.investor.update({
+      where: { id: investor.id },
+      data: { emailVerifiedAt: new Date() }
+    }),
+    prisma.interestSubmission.updateMany({
+      where: {
+        email: { equals: investor.email, mode: 'insensitive' },
+        investorId: null
+      },
+      data: { investorId: investor.id }
+    })
+  ]);
+
+  return { success: true, linkedInquiries: linked.count };
+};
+
+/**
+ * Get the logged-in investor's profile
+ */
+export const getInvestorProfile = async (investorId: string) => {
+  const investor = await prisma.investor.findUnique({
+    where: { id: investorId },
+    select: investorSelect
+  });
+
+  if (!investor) {
+    throw new NotFoundError('Investor not found');
+  }
+
+  return investor;
+};
+
+/**
+ * Update the logged-in investor's contact details
+ */
+export const updateInvestorProfile = async (
+  investorId: string,
+  data: { fullName?: string; phoneNumber?: string }
+) => {
+  return prisma.investor.update({
+    where: { id: investorId },
+    data,
+    select: investorSelect
+  });
+};
+
+/**
+ * List every inquiry the investor has made, across businesses
+ */
+export const listInvestorInterests = async (
+  investorId: string,
+  filters: { page?: number; limit?: number }
+) => {
+  const page = filters.page || 1;
+  const limit = filters.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const [interests, total] = await Promise.all([
+    prisma.interestSubmission.findMany({
+      where: { investorId },
+      select: {
+        id: true,
+        message: true,
+        submittedAt: true,
+        business: {
+          select: { id: true, name: true, logoUrl: true, location: true }
+        }
+      },
+      orderBy: { submittedAt: 'desc' },
+      skip,
+      take: limit
+    }),
+    prisma.interestSubmission.count({ where: { investorId } })
+  ]);
+
+  return {
+    interests,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Submit interest as the logged-in investor, using their saved contact details
+ */
+export const submitInvestorInterest = async (
+  investorId: string,
+  data: { businessId: string; message?: string; hasConsent?: boolean }
+) => {
+  const investor = await getInvestorProfile(investorId);
+
+  return submitInterest({
+    businessId: data.businessId,
+    investorName: investor.fullName,
+    phoneNumber: investor.phoneNumber,
+    email: investor.email,
+    message: data.message,
+    hasConsent: data.hasConsent,
+    investorId: investor.id
+  });
+};
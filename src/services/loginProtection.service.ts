@@ -0,0 +1,298 @@
+import { UserRole } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/password.utils';
+import { getTokenExpiration } from '../utils/token.utils';
+import { UnauthorizedError, TooManyRequestsError, NotFoundError } from '../utils/errors';
+import { issueAuthToken, consumeAuthToken } from './authToken.service';
+import { sendAccountLockedEmail } from './email.service';
+import { updateAccountPasswordHash } from './account.service';
+
+// Lockout and throttling settings
+const MAX_FAILED_LOGIN_ATTEMPTS = parseInt(process.env.MAX_FAILED_LOGIN_ATTEMPTS || '5');
+const ACCOUNT_LOCKOUT_MINUTES = parseInt(process.env.ACCOUNT_LOCKOUT_MINUTES || '15');
+const MAX_FAILED_LOGINS_PER_IP = parseInt(process.env.MAX_FAILED_LOGINS_PER_IP || '20');
+const IP_THROTTLE_WINDOW_MINUTES = parseInt(process.env.IP_THROTTLE_WINDOW_MINUTES || '15');
+const ACCOUNT_UNLOCK_EXPIRATION_HOURS = 24;
+
+// Progressive delay: 250ms, 500ms, 1s, 2s ... capped
+const BASE_FAILURE_DELAY_MS = 250;
+const MAX_FAILURE_DELAY_MS = 8000;
+
+// Every failed login gets this exact message so accounts cannot be enumerated
+const INVALID_CREDENTIALS_MESSAGE = 'Invalid email or password';
+
+export interface LoginAccount {
+  id: string;
+  role: UserRole;
+  email: string;
+  name: string;
+  passwordHash: string | null;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+}
+
+// Hash compared against when the email is unknown, so response time does not reveal it
+let dummyPasswordHash: Promise<string> | null = null;
+const getDummyPasswordHash = () => {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = hashPassword('dummy-password-for-timing');
+  }
+  return dummyPasswordHash;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getFailureDelay = (failures: number): number => {
+  if (failures <= 0) return 0;
+  return Math.min(BASE_FAILURE_DELAY_MS * 2 ** (failures - 1), MAX_FAILURE_DELAY_MS);
+};
+
+const isLocked = (lockedUntil: Date | null): boolean => {
+  return !!lockedUntil && lockedUntil > new Date();
+};
+
+const getRecentIpFailures = async (ipAddress: string) => {
+  const windowStart = new Date(Date.now() - IP_THROTTLE_WINDOW_MINUTES * 60 * 1000);
+
+  return prisma.loginAttempt.count({
+    where: {
+      ipAddress,
+      succeeded: false,
+      attemptedAt: { gte: windowStart }
+    }
+  });
+};
+
+/**
+ * Record a login attempt, rejecting it when the IP has failed too often recently
+ * The attempt counts as failed until the credentials check out, so parallel guesses
+ * from one IP are all counted before any of them is let through
+ * @returns ID of the recorded attempt
+ */
+export const startLoginAttempt = async (email: string, ipAddress: string) => {
+  const attempt = await prisma.loginAttempt.create({
+    data: { email, ipAddress, succeeded: false },
+    select: { id: true }
+  });
+
+  const failures = await getRecentIpFailures(ipAddress);
+
+  if (failures > MAX_FAILED_LOGINS_PER_IP) {
+    throw new TooManyRequestsError('Too many failed login attempts. Please try again later.');
+  }
+
+  return attempt.id;
+};
+
+interface AccountLockoutUpdate {
+  where: {
+    lockedUntil?: { lte: Date };
+    OR?: { lockedUntil: { lte: Date } | null }[];
+  };
+  data: { failedLoginAttempts?: number; lockedUntil?: Date | null };
+}
+
+/**
+ * Update lockout fields of an account only while the condition still holds
+ * @returns Whether the account was updated
+ */
+const updateAccountLockout = async (account: LoginAccount, { where, data }: AccountLockoutUpdate) => {
+  const args = { where: { id: account.id, ...where }, data };
+
+  const { count } = account.role === 'ADMIN'
+    ? await prisma.admin.updateMany(args)
+    : account.role === 'INVESTOR'
+      ? await prisma.investor.updateMany(args)
+      : await prisma.businessLogin.updateMany(args);
+
+  return count > 0;
+};
+
+/**
+ * Add one to the failed-attempt counter in a single statement
+ * @returns Counter value after the increment
+ */
+const incrementAccountFailures = async (account: LoginAccount): Promise<number> => {
+  const args = {
+    where: { id: account.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true }
+  };
+
+  const updated = account.role === 'ADMIN'
+    ? await prisma.admin.update(args)
+    : account.role === 'INVESTOR'
+      ? await prisma.investor.update(args)
+      : await prisma.businessLogin.update(args);
+
+  return updated.failedLoginAttempts;
+};
+
+/**
+ * Update failed-attempt counter on the account and lock it when the limit is reached
+ * Counter and lock are changed atomically so concurrent wrong guesses cannot slip past the limit
+ * @returns Number of consecutive failures for the account
+ */
+const registerAccountFailure = async (account: LoginAccount): Promise<number> => {
+  const now = new Date();
+
+  // A lock that has already expired starts a fresh count
+  if (account.lockedUntil && !isLocked(account.lockedUntil)) {
+    await updateAccountLockout(account, {
+      where: { lockedUntil: { lte: now } },
+      data: { failedLoginAttempts: 0, lockedUntil: null }
+    });
+  }
+
+  const failures = await incrementAccountFailures(account);
+
+  if (failures < MAX_FAILED_LOGIN_ATTEMPTS) {
+    return failures;
+  }
+
+  // Only the request that actually sets the lock sends the email
+  const lockedUntil = new Date(now.getTime() + ACCOUNT_LOCKOUT_MINUTES * 60 * 1000);
+  const locked = await updateAccountLockout(account, {
+    where: { OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+    data: { lockedUntil }
+  });
+
+  if (locked) {
+    try {
+      const token = await issueAuthToken(
+        account.id,
+        account.role,
+        'ACCOUNT_UNLOCK',
+        getTokenExpiration(ACCOUNT_UNLOCK_EXPIRATION_HOURS)
+      );
+      await sendAccountLockedEmail(account.email, account.name, token, lockedUntil);
+    } catch (emailError) {
+      console.warn('Failed to send account locked email:', emailError);
+    }
+  }
+
+  return failures;
+};
+
+/**
+ * Clear failure counters for an account
+ */
+const resetAccountFailures = async (id: string, role: UserRole) => {
+  const data = { failedLoginAttempts: 0, lockedUntil: null };
+
+  if (role === 'ADMIN') {
+    await prisma.admin.update({ where: { id }, data });
+  } else if (role === 'INVESTOR') {
+    await prisma.investor.update({ where: { id }, data });
+  } else {
+    await prisma.businessLogin.update({ where: { id }, data });
+  }
+};
+
+/**
+ * Verify login credentials with lockout and progressive delays
+ * Unknown email, wrong password and locked account all fail identically
+ * @param account - Account matching the email, or null if none exists
+ * @param attemptId - Attempt recorded by startLoginAttempt
+ */
+export const verifyLoginCredentials = async (
+  account: LoginAccount | null,
+  attemptId: string,
+  password: string,
+  ipAddress: string
+) => {
+  // Invited admins have no password until they accept, so nothing can match
+  const passwordHash = account?.passwordHash || await getDummyPasswordHash();
+  const isPasswordValid = await verifyPassword(password, passwordHash);
+
+  if (account?.passwordHash && isPasswordValid && !isLocked(account.lockedUntil)) {
+    await prisma.loginAttempt.update({
+      where: { id: attemptId },
+      data: { succeeded: true }
+    });
+
+    if (account.failedLoginAttempts > 0 || account.lockedUntil) {
+      await resetAccountFailures(account.id, account.role);
+    }
+
+    // Upgrade hashes made with an older cost factor while the plain password is known
+    if (needsRehash(account.passwordHash)) {
+      await updateAccountPasswordHash(account.id, account.role, await hashPassword(password));
+    }
+    return;
+  }
+
+  const accountFailures = account ? await registerAccountFailure(account) : 0;
+  const ipFailures = await getRecentIpFailures(ipAddress);
+
+  await sleep(getFailureDelay(Math.max(accountFailures, ipFailures)));
+
+  throw new UnauthorizedError(INVALID_CREDENTIALS_MESSAGE);
+};
+
+/**
+ * List currently locked accounts (Admin)
+ */
+export const listLockedAccounts = async () => {
+  const now = new Date();
+  const select = {
+    id: true,
+    email: true,
+    failedLoginAttempts: true,
+    lockedUntil: true
+  };
+
+  const [admins, businessLogins, investors] = await Promise.all([
+    prisma.admin.findMany({
+      where: { lockedUntil: { gt: now } },
+      select,
+      orderBy: { lockedUntil: 'desc' }
+    }),
+    prisma.businessLogin.findMany({
+      where: { lockedUntil: { gt: now } },
+      select,
+      orderBy: { lockedUntil: 'desc' }
+    }),
+    prisma.investor.findMany({
+      where: { lockedUntil: { gt: now } },
+      select,
+      orderBy: { lockedUntil: 'desc' }
+    })
+  ]);
+
+  return [
+    ...admins.map(admin => ({ ...admin, role: 'ADMIN' as const })),
+    ...businessLogins.map(login => ({ ...login, role: 'BUSINESS' as const })),
+    ...investors.map(investor => ({ ...investor, role: 'INVESTOR' as const }))
+  ];
+};
+
+/**
+ * Unlock an account (Admin)
+ */
+export const unlockAccount = async (id: string, role: UserRole) => {
+  const account = role === 'ADMIN'
+    ? await prisma.admin.findUnique({ where: { id }, select: { id: true } })
+    : role === 'INVESTOR'
+      ? await prisma.investor.findUnique({ where: { id }, select: { id: true } })
+      : await prisma.businessLogin.findUnique({ where: { id }, select: { id: true } });
+
+  if (!account) {
+    throw new NotFoundError('Account not found');
+  }
+
+  await resetAccountFailures(id, role);
+
+  return { success: true };
+};
+
+/**
+ * Unlock an account using the token from the lockout email
+ */
+export const unlockAccountWithToken = async (token: string) => {
+  const { userId, role } = await consumeAuthToken(token, 'ACCOUNT_UNLOCK');
+
+  await resetAccountFailures(userId, role);
+
+  return { success: true };
+};
@@ -0,0 +1,76 @@
+import prisma from '../config/prisma.config';
+import { TooManyRequestsError } from '../utils/errors';
+import { issueAuthToken, consumeAuthToken } from './authToken.service';
+import { getAuthenticatedUser } from './account.service';
+import { sendMagicLinkEmail } from './email.service';
+
+const MAGIC_LINK_EXPIRATION_MINUTES = parseInt(process.env.MAGIC_LINK_EXPIRATION_MINUTES || '15');
+const MAX_MAGIC_LINKS_PER_EMAIL = parseInt(process.env.MAX_MAGIC_LINKS_PER_EMAIL || '3');
+const MAX_MAGIC_LINKS_PER_IP = parseInt(process.env.MAX_MAGIC_LINKS_PER_IP || '10');
+const MAGIC_LINK_WINDOW_MINUTES = parseInt(process.env.MAGIC_LINK_WINDOW_MINUTES || '15');
+
+/**
+ * Reject the request when the email or IP has asked for too many links recently
+ * Counted per email whether or not an account exists, so limits do not reveal it
+ */
+const assertMagicLinkNotThrottled = async (email: string, ipAddress: string) => {
+  const windowStart = new Date(Date.now() - MAGIC_LINK_WINDOW_MINUTES * 60 * 1000);
+
+  const [emailRequests, ipRequests] = await Promise.all([
+    prisma.magicLinkRequest.count({
+      where: { email, requestedAt: { gte: windowStart } }
+    }),
+    prisma.magicLinkRequest.count({
+      where: { ipAddress, requestedAt: { gte: windowStart } }
+    })
+  ]);
+
+  if (emailRequests >= MAX_MAGIC_LINKS_PER_EMAIL || ipRequests >= MAX_MAGIC_LINKS_PER_IP) {
+    throw new TooManyRequestsError('Too many login link requests. Please try again later.');
+  }
+};
+
+/**
+ * Email a single-use login link to a verified investor
+ * Always resolves the same way so callers cannot tell whether the email is registered
+ */
+export const requestMagicLink = async (email: string, ipAddress: string) => {
+  const normalizedEmail = email.toLowerCase();
+
+  await assertMagicLinkNotThrottled(normalizedEmail, ipAddress);
+
+  await prisma.magicLinkRequest.create({
+    data: { email: normalizedEmail, ipAddress }
+  });
+
+  const investor = await prisma.investor.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true, email: true, fullName: true, isActive: true, emailVerifiedAt: true }
+  });
+
+  if (!investor || !investor.isActive || !investor.emailVerifiedAt) {
+    return;
+  }
+
+  const token = await issueAuthToken(
+    investor.id,
+    'INVESTOR',
+    'MAGIC_LINK',
+    new Date(Date.now() + MAGIC_LINK_EXPIRATION_MINUTES * 60 * 1000)
+  );
+
+  try {
+    await sendMagicLinkEmail(investor.email, investor.fullName, token, MAGIC_LINK_EXPIRATION_MINUTES);
+  } catch (emailError) {
+    console.warn('Failed to send magic link email:', emailError);
+  }
+};
+
+/**
+ * Consume a login link and return the investor it was issued to
+ */
+export const consumeMagicLink = async (token: string) => {
+  const { userId, role } = await consumeAuthToken(token, 'MAGIC_LINK');
+
+  return getAuthenticatedUser(userId, role);
+};
@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/prisma.config';
+import { getOidcConfig, OidcConfig } from '../config/oidc.config';
+import { generateToken, hashToken, isTokenExpired } from '../utils/token.utils';
+import { BadRequestError, ServiceUnavailableError, UnauthorizedError } from '../utils/errors';
+import { isEmailInUse } from './account.service';
+
+const AUTH_REQUEST_EXPIRATION_MINUTES = 10;
+
+// Provider metadata and signing keys are re-fetched after this long
+const PROVIDER_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const ALLOWED_ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256', 'RS384', 'RS512',
+  'PS256', 'PS384', 'PS512',
+  'ES256', 'ES384', 'ES512'
+];
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+type ProviderJwk = crypto.webcrypto.JsonWebKey & { kid?: string };
+
+interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+let metadataCache: { discoveryUrl: string; metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: { jwksUri: string; keys: ProviderJwk[]; fetchedAt: number } | null = null;
+
+const requireOidcConfig = (): OidcConfig => {
+  const config = getOidcConfig();
+
+  if (!config) {
+    throw new ServiceUnavailableError('Single sign-on is not configured');
+  }
+
+  return config;
+};
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  let response: Response;
+
+  try {
+    response = await fetch(url, { headers: { Accept: 'application/json' } });
+  } catch (error) {
+    throw new ServiceUnavailableError('Identity provider is unreachable');
+  }
+
+  if (!response.ok) {
+    throw new ServiceUnavailableError('Identity provider returned an error');
+  }
+
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Load the provider's endpoints from its discovery document
+ */
+const getProviderMetadata = async (config: OidcConfig): Promise<ProviderMetadata> => {
+  if (
+    metadataCache &&
+    metadataCache.discoveryUrl === config.discoveryUrl &&
+    Date.now() - metadataCache.fetchedAt < PROVIDER_CACHE_TTL_MS
+  ) {
+    return metadataCache.metadata;
+  }
+
+  const metadata = await fetchJson<ProviderMetadata>(config.discoveryUrl);
+
+  if (!metadata.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new ServiceUnavailableError('Identity provider discovery document is incomplete');
+  }
+
+  metadataCache = { discoveryUrl: config.discoveryUrl, metadata, fetchedAt: Date.now() };
+
+  return metadata;
+};
+
+const loadSigningKeys = async (jwksUri: string, forceRefresh: boolean) => {
+  if (
+    !forceRefresh &&
+    jwksCache &&
+    jwksCache.jwksUri === jwksUri &&
+    Date.now() - jwksCache.fetchedAt < PROVIDER_CACHE_TTL_MS
+  ) {
+    return jwksCache.keys;
+  }
+
+  const { keys } = await fetchJson<{ keys: ProviderJwk[] }>(jwksUri);
+  jwksCache = { jwksUri, keys: keys || [], fetchedAt: Date.now() };
+
+  return jwksCache.keys;
+};
+
+/**
+ * Find the provider key that signed an ID token
+ * Keys are re-fetched once when the kid is unknown, to pick up key rotation
+ */
+const getSigningKey = async (jwksUri: string, kid?: string) => {
+  const findKey = (keys: ProviderJwk[]) => {
+    const signingKeys = keys.filter(key => key.use !== 'enc');
+    return kid
+      ? signingKeys.find(key => key.kid === kid)
+      : signingKeys.length === 1 ? signingKeys[0] : undefined;
+  };
+
+  const jwk = findKey(await loadSigningKeys(jwksUri, false))
+    || findKey(await loadSigningKeys(jwksUri, true));
+
+  if (!jwk) {
+    throw new UnauthorizedError('Single sign-on failed');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+const toBase64Url = (buffer: Buffer) => {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Whether admins can sign in with the identity provider
+ */
+export const isOidcEnabled = (): boolean => getOidcConfig() !== null;
+
+/**
+ * Start an authorization code flow with PKCE
+ * @returns URL to send the browser to
+ */
+export const startOidcLogin = async () => {
+  const config = requireOidcConfig();
+  const metadata = await getProviderMetadata(config);
+
+  const state = generateToken();
+  const nonce = generateToken();
+  const codeVerifier = generateToken(48);
+  const codeChallenge = toBase64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await prisma.oidcAuthRequest.create({
+    data: {
+      stateHash: hashToken(state),
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + AUTH_REQUEST_EXPIRATION_MINUTES * 60 * 1000)
+    }
+  });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+
+  return {
+    authorizationUrl: `${metadata.authorization_endpoint}?${params.toString()}`
+  };
+};
+
+/**
+ * Exchange an authorization code for a verified ID token
+ */
+const exchangeCode = async (
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<IdTokenClaims> => {
+  const credentials = Buffer.from(
+    `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+  ).toString('base64');
+
+  let response: Response;
+
+  try {
+    response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+        Authorization: `Basic ${credentials}`
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.redirectUri,
+        code_verifier: codeVerifier
+      }).toString()
+    });
+  } catch (error) {
+    throw new ServiceUnavailableError('Identity provider is unreachable');
+  }
+
+  if (!response.ok) {
+    throw new UnauthorizedError('Single sign-on failed');
+  }
+
+  const { id_token: idToken } = await response.json() as { id_token?: string };
+
+  if (!idToken) {
+    throw new UnauthorizedError('Single sign-on failed');
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new UnauthorizedError('Single sign-on failed');
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+
+  let claims: IdTokenClaims;
+
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ALLOWED_ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: config.clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS
+    }) as IdTokenClaims;
+  } catch (error) {
+    throw new UnauthorizedError('Single sign-on failed');
+  }
+
+  if (!claims.sub || claims.nonce !== nonce) {
+    throw new UnauthorizedError('Single sign-on failed');
+  }
+
+  return claims;
+};
+
+/**
+ * Find the admin for a verified identity
+ * Admins are matched by the provider's subject once linked, otherwise by email.
+ * New admins are only created when OIDC_AUTO_CREATE_ADMINS is enabled.
+ */
+const resolveAdmin = async (config: OidcConfig, claims: IdTokenClaims) => {
+  const email = claims.email?.toLowerCase();
+
+  // Providers that omit email_verified have not vouched for the address
+  if (!email || claims.email_verified !== true) {
+    throw new UnauthorizedError('Your identity provider did not share a verified email address');
+  }
+
+  if (config.allowedEmailDomain && email.split('@')[1] !== config.allowedEmailDomain) {
+    throw new UnauthorizedError('This email domain is not allowed to sign in');
+  }
+
+  const adminSelect = { id: true, email: true, isActive: true, oidcSubject: true };
+
+  const linkedAdmin = await prisma.admin.findUnique({
+    where: { oidcSubject: claims.sub },
+    select: adminSelect
+  });
+
+  if (linkedAdmin) {
+    return linkedAdmin;
+  }
+
+  const admin = await prisma.admin.findUnique({
+    where: { email },
+    select: adminSelect
+  });
+
+  if (admin) {
+    // An admin already linked to a different identity cannot be taken over by email
+    if (admin.oidcSubject) {
+      throw new UnauthorizedError('This account is linked to a different identity');
+    }
+
+    return prisma.admin.update({
+      where: { id: admin.id },
+      data: { oidcSubject: claims.sub },
+      select: adminSelect
+    });
+  }
+
+  if (!config.autoCreateAdmins || !config.allowedEmailDomain || !config.defaultRoleSlug) {
+    throw new UnauthorizedError('No admin account exists for this identity');
+  }
+
+  const [role, emailInUse] = await Promise.all([
+    prisma.adminRole.findUnique({ where: { slug: config.defaultRoleSlug }, select: { id: true } }),
+    isEmailInUse(email)
+  ]);
+
+  if (!role) {
+    throw new ServiceUnavailableError('Single sign-on default role is not configured correctly');
+  }
+
+  if (emailInUse) {
+    throw new UnauthorizedError('This email is already used by a non-admin account');
+  }
+
+  return prisma.admin.create({
+    data: {
+      email,
+      username: claims.name || email.split('@')[0],
+      oidcSubject: claims.sub,
+      roleId: role.id,
+      isActive: true
+    },
+    select: adminSelect
+  });
+};
+
+/**
+ * Complete sign-in after the provider redirects back with a code
+ * @returns The ID of the signed-in admin
+ */
+export const completeOidcLogin = async (code: string, state: string) => {
+  const config = requireOidcConfig();
+
+  const request = await prisma.oidcAuthRequest.findUnique({
+    where: { stateHash: hashToken(state) }
+  });
+
+  if (!request || request.usedAt || isTokenExpired(request.expiresAt)) {
+    throw new BadRequestError('Invalid or expired sign-in request');
+  }
+
+  // Each request can only be completed once
+  const claimed = await prisma.oidcAuthRequest.updateMany({
+    where: { id: request.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (claimed.count === 0) {
+    throw new BadRequestError('Invalid or expired sign-in request');
+  }
+
+  const metadata = await getProviderMetadata(config);
+  const claims = await exchangeCode(config, metadata, code, request.codeVerifier, request.nonce);
+  const admin = await resolveAdmin(config, claims);
+
+  if (!admin.isActive) {
+    throw new UnauthorizedError('Account is inactive');
+  }
+
+  return { adminId: admin.id };
+};
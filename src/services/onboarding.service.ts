@@ -1,18 +1,59 @@
-import { OnboardingStatus, MediaType } from '@prisma/client';
+import { OnboardingStatus, MediaType, ContactMethod } from '@prisma/client';
 import prisma from '../config/prisma.config';
 import { generateToken, getTokenExpiration, isTokenExpired } from '../utils/token.utils';
 import { hashPassword } from '../utils/password.utils';
-import { sendOnboardingApprovalEmail, sendOnboardingRejectionEmail } from './email.service';
+import {
+  sendOnboardingApprovalEmail,
+  sendOnboardingRejectionEmail,
+  sendRegistrationLinkRequestedEmail
+} from './email.service';
+import { isEmailInUse } from './account.service';
+import { duplicateMatchInclude, scanOnboardingRequestForDuplicates } from './onboardingDuplicate.service';
+import { openReviewRound } from './businessReviewRound.service';
+import { resolveRegistrationCategory } from './category.service';
+import {
+  OPEN_ONBOARDING_STATUSES,
+  reviewAssigneeSelect,
+  getOverdueCutoff,
+  withReviewAge,
+  assertAssignableReviewer
+} from './reviewQueue.service';
 import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors';
+import { PERMISSIONS } from '../config/permissions.config';
+import { resolveNepalAddress, formatLocation } from '../utils/address.utils';
 import { moveFileToBusinessFolder, getFileUrl, deleteFile } from '../config/upload.config';
 
+// A business can only alert admins about an expired link this often
+const LINK_REQUEST_COOLDOWN_HOURS = parseInt(process.env.REGISTRATION_LINK_REQUEST_COOLDOWN_HOURS || '24');
+
+// Admin who reviewed a request, the contact log and possible duplicates, shown to admins
+const onboardingReviewInclude = {
+  assignee: reviewAssigneeSelect,
+  invitedBy: reviewAssigneeSelect,
+  duplicateMatches: duplicateMatchInclude,
+  reviewedBy: {
+    select: { id: true, username: true }
+  },
+  contactNotes: {
+    include: {
+      admin: {
+        select: { id: true, username: true }
+      }
+    },
+    orderBy: { contactedAt: 'desc' as const }
+  }
+};
+
+// Uploaded file during registration (a multer upload or a file saved with a draft)
+export type RegistrationFile = Pick<Express.Multer.File, 'path' | 'originalname' | 'size' | 'mimetype'>;
+
 // Type for uploaded files during registration
-interface RegistrationFiles {
-  companyLogo: Express.Multer.File | null;
-  registrationCertificate: Express.Multer.File | null;
-  panCertificate: Express.Multer.File | null;
-  pitchDeck: Express.Multer.File | null;
-  galleryImages: Express.Multer.File[];
+export interface RegistrationFiles {
+  companyLogo: RegistrationFile | null;
+  registrationCertificate: RegistrationFile | null;
+  panCertificate: RegistrationFile | null;
+  pitchDeck: RegistrationFile | null;
+  galleryImages: RegistrationFile[];
 }
 
 /**
@@ -22,6 +63,8 @@ export const createOnboardingRequest = async (data: {
   businessName: string;
   email: string;
   phoneNumber: string;
+  registrationNumber?: string;
+  panNumber?: string;
   message?: string;
 }) => {
   // Check for duplicate email
@@ -41,19 +84,33 @@ export const createOnboardingRequest = async (data: {
       businessName: data.businessName,
       email: data.email,
       phoneNumber: data.phoneNumber,
+      registrationNumber: data.registrationNumber || null,
+      panNumber: data.panNumber || null,
       message: data.message || null,
       status: 'PENDING'
     }
   });
 
+  // Flag possible duplicates for admins (don't fail the submission if this fails)
+  try {
+    await scanOnboardingRequestForDuplicates(request.id);
+  } catch (scanError) {
+    console.warn('Failed to check onboarding request for duplicates:', scanError);
+  }
+
   return request;
 };
 
 /**
  * List onboarding requests (Admin)
+ * @param filters.assigneeId - Admin ID for a reviewer's queue, or null for unassigned requests
+ * @param filters.overdue - Only open requests past the review SLA
  */
 export const listOnboardingRequests = async (filters: {
   status?: OnboardingStatus;
+  flagged?: boolean;
+  assigneeId?: string | null;
+  overdue?: boolean;
   page?: number;
   limit?: number;
 }) => {
@@ -65,10 +122,21 @@ export const listOnboardingRequests = async (filters: {
   if (filters.status) {
     where.status = filters.status;
   }
+  if (filters.flagged !== undefined) {
+    where.duplicateScore = filters.flagged ? { gt: 0 } : 0;
+  }
+  if (filters.assigneeId !== undefined) {
+    where.assigneeId = filters.assigneeId;
+  }
+  if (filters.overdue) {
+    where.status = filters.status || { in: OPEN_ONBOARDING_STATUSES };
+    where.submittedAt = { lt: getOverdueCutoff() };
+  }
 
   const [requests, total] = await Promise.all([
     prisma.businessOnboardingRequest.findMany({
       where,
+      include: onboardingReviewInclude,
       orderBy: { submittedAt: 'desc' },
       skip,
       take: limit
@@ -77,7 +145,9 @@ export const listOnboardingRequests = async (filters: {
   ]);
 
   return {
-    requests,
+    requests: requests.map(request =>
+      withReviewAge(request, request.submittedAt, OPEN_ONBOARDING_STATUSES.includes(request.status))
+    ),
     pagination: {
       page,
       limit,
@@ -87,10 +157,122 @@ export const listOnboardingRequests = async (filters: {
   };
 };
 
+/**
+ * Assign an onboarding request to a reviewer, or clear the assignee with null (Admin)
+ */
+export const assignOnboardingRequest = async (requestId: string, assigneeId: string | null) => {
+  const request = await prisma.businessOnboardingRequest.findUnique({
+    where: { id: requestId },
+    select: { id: true }
+  });
+
+  if (!request) {
+    throw new NotFoundError('Onboarding request not found');
+  }
+
+  if (assigneeId) {
+    await assertAssignableReviewer(assigneeId);
+  }
+
+  const updated = await prisma.businessOnboardingRequest.update({
+    where: { id: requestId },
+    data: {
+      assigneeId,
+      assignedAt: assigneeId ? new Date() : null
+    },
+    include: { assignee: reviewAssigneeSelect }
+  });
+
+  return withReviewAge(updated, updated.submittedAt, OPEN_ONBOARDING_STATUSES.includes(updated.status));
+};
+
+/**
+ * Mark an onboarding request as contacted (Admin)
+ * @param note - Optional contact note logged at the same time
+ */
+export const markOnboardingRequestContacted = async (
+  requestId: string,
+  adminId: string,
+  note?: { method: ContactMethod; note: string; contactedAt?: Date }
+) => {
+  const request = await prisma.businessOnboardingRequest.findUnique({
+    where: { id: requestId }
+  });
+
+  if (!request) {
+    throw new NotFoundError('Onboarding request not found');
+  }
+
+  if (request.status !== 'PENDING') {
+    throw new BadRequestError(`Cannot mark a ${request.status.toLowerCase()} request as contacted`);
+  }
+
+  return prisma.businessOnboardingRequest.update({
+    where: { id: requestId },
+    data: {
+      status: 'CONTACTED',
+      contactedAt: new Date(),
+      ...(note && {
+        contactNotes: {
+          create: {
+            adminId,
+            method: note.method,
+            note: note.note,
+            contactedAt: note.contactedAt
+          }
+        }
+      })
+    },
+    include: onboardingReviewInclude
+  });
+};
+
+/**
+ * Log a call, meeting or other contact with a prospective business (Admin)
+ * Logging contact on a pending request moves it to CONTACTED
+ */
+export const addOnboardingContactNote = async (
+  requestId: string,
+  adminId: string,
+  data: { method: ContactMethod; note: string; contactedAt?: Date }
+) => {
+  const request = await prisma.businessOnboardingRequest.findUnique({
+    where: { id: requestId },
+    select: { id: true, status: true }
+  });
+
+  if (!request) {
+    throw new NotFoundError('Onboarding request not found');
+  }
+
+  const [contactNote] = await prisma.$transaction([
+    prisma.onboardingContactNote.create({
+      data: {
+        requestId,
+        adminId,
+        method: data.method,
+        note: data.note,
+        contactedAt: data.contactedAt
+      },
+      include: {
+        admin: {
+          select: { id: true, username: true }
+        }
+      }
+    }),
+    prisma.businessOnboardingRequest.updateMany({
+      where: { id: requestId, status: 'PENDING' },
+      data: { status: 'CONTACTED', contactedAt: new Date() }
+    })
+  ]);
+
+  return contactNote;
+};
+
 /**
  * Approve onboarding request and generate token
  */
-export const approveOnboardingRequest = async (requestId: string) => {
+export const approveOnboardingRequest = async (requestId: string, adminId: string) => {
   const request = await prisma.businessOnboardingRequest.findUnique({
     where: { id: requestId }
   });
@@ -107,6 +289,10 @@ export const approveOnboardingRequest = async (requestId: string) => {
     throw new BadRequestError('Cannot approve a rejected request');
   }
 
+  if (request.status === 'MERGED') {
+    throw new BadRequestError('Cannot approve a merged request');
+  }
+
   // Generate unique token
   const token = generateToken();
   const tokenExpiresAt = getTokenExpiration();
@@ -117,7 +303,8 @@ export const approveOnboardingRequest = async (requestId: string) => {
       status: 'APPROVED',
       onboardingToken: token,
       tokenExpiresAt,
-      reviewedAt: new Date()
+      reviewedAt: new Date(),
+      reviewedById: adminId
     }
   });
 
@@ -135,10 +322,113 @@ export const approveOnboardingRequest = async (requestId: string) => {
   return updated;
 };
 
+/**
+ * Issue a new registration link for an approved request that was never used (Admin)
+ * The previous token stops working as soon as it is replaced
+ */
+export const regenerateRegistrationLink = async (requestId: string) => {
+  const request = await prisma.businessOnboardingRequest.findUnique({
+    where: { id: requestId }
+  });
+
+  if (!request) {
+    throw new NotFoundError('Onboarding request not found');
+  }
+
+  if (request.status !== 'APPROVED') {
+    throw new BadRequestError('Only approved requests have a registration link');
+  }
+
+  if (request.createdBusinessLoginId) {
+    throw new BadRequestError('This business has already completed registration');
+  }
+
+  const token = generateToken();
+  const tokenExpiresAt = getTokenExpiration();
+
+  const updated = await prisma.businessOnboardingRequest.update({
+    where: { id: requestId },
+    data: {
+      onboardingToken: token,
+      tokenExpiresAt,
+      linkRequestedAt: null
+    }
+  });
+
+  try {
+    await sendOnboardingApprovalEmail(
+      updated.email,
+      updated.businessName,
+      token
+    );
+  } catch (emailError) {
+    console.warn('Failed to send registration link email (continuing anyway):', emailError);
+  }
+
+  return updated;
+};
+
+/**
+ * Let a business whose registration link expired ask admins for a new one
+ * Returns nothing either way so the endpoint does not reveal which emails applied
+ */
+export const requestNewRegistrationLink = async (email: string) => {
+  const request = await prisma.businessOnboardingRequest.findFirst({
+    where: {
+      email: { equals: email, mode: 'insensitive' },
+      status: 'APPROVED',
+      createdBusinessLoginId: null
+    },
+    orderBy: { reviewedAt: 'desc' }
+  });
+
+  if (!request || !isTokenExpired(request.tokenExpiresAt)) {
+    return;
+  }
+
+  // Claim the cooldown atomically so parallel requests notify admins only once
+  const cooldownStart = new Date(Date.now() - LINK_REQUEST_COOLDOWN_HOURS * 60 * 60 * 1000);
+  const claimed = await prisma.businessOnboardingRequest.updateMany({
+    where: {
+      id: request.id,
+      OR: [
+        { linkRequestedAt: null },
+        { linkRequestedAt: { lte: cooldownStart } }
+      ]
+    },
+    data: { linkRequestedAt: new Date() }
+  });
+
+  if (claimed.count !== 1) {
+    return;
+  }
+
+  const reviewers = await prisma.admin.findMany({
+    where: {
+      isActive: true,
+      role: { permissions: { has: PERMISSIONS.ONBOARDING_REVIEW } }
+    },
+    select: { email: true, username: true }
+  });
+
+  for (const reviewer of reviewers) {
+    try {
+      await sendRegistrationLinkRequestedEmail(
+        reviewer.email,
+        reviewer.username,
+        request.businessName,
+        request.email
+      );
+    } catch (emailError) {
+      console.warn('Failed to notify admin about registration link request:', emailError);
+    }
+  }
+};
+
 /**
  * Reject onboarding request
  */
-export const rejectOnboardingRequest = async (requestId: string, reason: string) => {
+export const rejectOnboardingRequest = async (requestId: string, adminId: string, reason: string) => {
   const request = await prisma.businessOnboardingRequest.findUnique({
     where: { id: requestId }
   });
@@ -151,12 +441,17 @@ export const rejectOnboardingRequest = async (requestId: string, reason: string)
     throw new BadRequestError('Cannot reject an approved request');
   }
 
+  if (request.status === 'MERGED') {
+    throw new BadRequestError('Cannot reject a merged request');
+  }
+
   const updated = await prisma.businessOnboardingRequest.update({
     where: { id: requestId },
     data: {
       status: 'REJECTED',
       rejectionReason: reason,
-      reviewedAt: new Date()
+      reviewedAt: new Date(),
+      reviewedById: adminId
     }
   });
 
@@ -171,9 +466,9 @@ export const rejectOnboardingRequest = async (requestId: string, reason: string)
 };
 
 /**
- * Validate registration token
+ * Load the onboarding request behind a registration token that can still be used
  */
-export const validateRegistrationToken = async (token: string) => {
+export const getRegistrableRequest = async (token: string) => {
   const request = await prisma.businessOnboardingRequest.findUnique({
     where: { onboardingToken: token }
   });
@@ -194,11 +489,29 @@ export const validateRegistrationToken = async (token: string) => {
     throw new BadRequestError('Token has already been used');
   }
 
+  return request;
+};
+
+/**
+ * Validate registration token
+ */
+export const validateRegistrationToken = async (token: string) => {
+  const request = await getRegistrableRequest(token);
+
+  // First visit to the registration link, tracked for invitation conversion
+  if (!request.linkOpenedAt) {
+    await prisma.businessOnboardingRequest.updateMany({
+      where: { id: request.id, linkOpenedAt: null },
+      data: { linkOpenedAt: new Date() }
+    });
+  }
+
   return {
     isValid: true,
     businessName: request.businessName,
     email: request.email,
-    phoneNumber: request.phoneNumber
+    phoneNumber: request.phoneNumber,
+    prefill: request.prefill
   };
 };
 
@@ -212,32 +525,10 @@ export const completeBusinessRegistration = async (
   uploadedFiles?: RegistrationFiles
 ) => {
   // Validate token
-  const request = await prisma.businessOnboardingRequest.findUnique({
-    where: { onboardingToken: token }
-  });
-
-  if (!request) {
-    throw new NotFoundError('Invalid token');
-  }
-
-  if (request.status !== 'APPROVED') {
-    throw new BadRequestError('Token is not valid');
-  }
+  const request = await getRegistrableRequest(token);
 
-  if (isTokenExpired(request.tokenExpiresAt)) {
-    throw new BadRequestError('Token has expired');
-  }
-
-  if (request.createdBusinessLoginId) {
-    throw new BadRequestError('Token has already been used');
-  }
-
-  // Check if email already exists in business logins
-  const existingBusinessLogin = await prisma.businessLogin.findUnique({
-    where: { email: request.email }
-  });
-
-  if (existingBusinessLogin) {
+  // Check if email already belongs to an account
+  if (await isEmailInUse(request.email)) {
     throw new ConflictError('Email already registered');
   }
 
@@ -250,27 +541,28 @@ export const completeBusinessRegistration = async (
     throw new ConflictError('Registration number already exists');
   }
 
-  // Find or create category based on industry name
-  let category = await prisma.category.findFirst({
-    where: { name: businessData.industry }
+  // Match the industry to a category (created when unknown, unless limited to existing categories)
+  const category = await resolveRegistrationCategory(businessData.industry);
+
+  // Check the address against the Nepal reference data ("city" is the municipality)
+  const { address, errors: addressErrors } = resolveNepalAddress({
+    province: businessData.province,
+    district: businessData.district,
+    municipality: businessData.city
   });
 
-  if (!category) {
-    // Create category if it doesn't exist
-    const slug = businessData.industry.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-    category = await prisma.category.upsert({
-      where: { slug: slug },
-      update: {},
-      create: {
-        name: businessData.industry,
-        slug: slug
-      }
-    });
+  if (!address) {
+    throw new BadRequestError(addressErrors.map(error => error.message).join('; '));
   }
 
   // Hash password
   const passwordHash = await hashPassword(password);
 
+  const draftFiles = await prisma.registrationDraftFile.findMany({
+    where: { draft: { requestId: request.id } },
+    select: { filePath: true }
+  });
+
   // Create business login and business in transaction
   const result = await prisma.$transaction(async (tx) => {
     // Create business login
@@ -283,9 +575,7 @@ export const completeBusinessRegistration = async (
     });
 
     // Map form data to database schema
-    const location = businessData.city && businessData.district
-      ? `${businessData.city}, ${businessData.district}`
-      : businessData.city || businessData.district || 'Not specified';
+    const location = formatLocation(address);
 
     // Create business
     const business = await tx.business.create({
@@ -298,6 +588,10 @@ export const completeBusinessRegistration = async (
         businessType: businessData.companySize || 'Not specified',
         yearEstablished: businessData.foundedYear ? parseInt(businessData.foundedYear) : new Date().getFullYear(),
         location: location,
+        province: address.province,
+        district: address.district,
+        municipality: address.municipality,
+        wardNumber: businessData.wardNumber ? parseInt(businessData.wardNumber) : null,
         teamSize: businessData.companySize || 'Not specified',
         fundingStage: businessData.fundingStage || null,
         // Financial fields with defaults
@@ -335,6 +629,11 @@ export const completeBusinessRegistration = async (
       data: { createdBusinessLoginId: businessLogin.id }
     });
 
+    // Any saved draft is superseded by the completed registration
+    await tx.registrationDraft.deleteMany({
+      where: { requestId: request.id }
+    });
+
     return { businessLogin, business };
   });
 
@@ -349,6 +648,19 @@ export const completeBusinessRegistration = async (
     }
   }
 
+  // First review round, recorded once the uploaded media is in place
+  try {
+    await openReviewRound(result.business.id);
+  } catch (roundError) {
+    // Approving or rejecting records the round if this fails
+    console.error('Error recording review round:', roundError);
+  }
+
+  // Remove draft uploads that were not used (files promoted above have already been moved)
+  for (const draftFile of draftFiles) {
+    deleteFile(draftFile.filePath);
+  }
+
   // Fetch updated business with logo URL
   const updatedBusiness = await prisma.business.findUnique({
     where: { id: result.business.id }
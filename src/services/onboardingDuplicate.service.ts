@@ -0,0 +1,469 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import {
+  normalizeCompanyName,
+  normalizePhoneNumber,
+  normalizeIdentifier,
+  getCompanyEmailDomain,
+  stringSimilarity
+} from '../utils/similarity.utils';
+import { recordAuditLog } from './audit.service';
+
+// Matches scoring below this are not flagged
+const DUPLICATE_SCORE_THRESHOLD = parseInt(process.env.ONBOARDING_DUPLICATE_THRESHOLD || '40');
+
+// Upper bound on candidates loaded per table before scoring
+const CANDIDATE_LIMIT = 50;
+
+// Possible duplicates shown with an onboarding request (Admin)
+export const duplicateMatchInclude = {
+  where: { status: { in: ['OPEN' as const, 'LINKED' as const] } },
+  include: {
+    matchedRequest: {
+      select: { id: true, businessName: true, email: true, phoneNumber: true, status: true, submittedAt: true }
+    },
+    matchedBusiness: {
+      select: { id: true, name: true, registrationNumber: true, contactEmail: true, status: true }
+    }
+  },
+  orderBy: { score: 'desc' as const }
+};
+
+interface DuplicateSubject {
+  name: string;
+  email: string;
+  phone: string;
+  registrationNumber?: string | null;
+  panNumber?: string | null;
+}
+
+const toDuplicateSubject = (request: {
+  businessName: string;
+  email: string;
+  phoneNumber: string;
+  registrationNumber: string | null;
+  panNumber: string | null;
+}): DuplicateSubject => ({
+  name: request.businessName,
+  email: request.email,
+  phone: request.phoneNumber,
+  registrationNumber: request.registrationNumber,
+  panNumber: request.panNumber
+});
+
+/**
+ * Score how likely two applicants are the same company
+ * @returns Score from 0 to 100 and the reasons that contributed to it
+ */
+const scoreDuplicate = (subject: DuplicateSubject, candidate: DuplicateSubject) => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (
+    subject.registrationNumber &&
+    candidate.registrationNumber &&
+    normalizeIdentifier(subject.registrationNumber) === normalizeIdentifier(candidate.registrationNumber)
+  ) {
+    score += 60;
+    reasons.push('Same registration number');
+  }
+
+  if (
+    subject.panNumber &&
+    candidate.panNumber &&
+    normalizeIdentifier(subject.panNumber) === normalizeIdentifier(candidate.panNumber)
+  ) {
+    score += 60;
+    reasons.push('Same PAN number');
+  }
+
+  const nameSimilarity = stringSimilarity(
+    normalizeCompanyName(subject.name),
+    normalizeCompanyName(candidate.name)
+  );
+
+  if (nameSimilarity === 1) {
+    score += 50;
+    reasons.push('Same business name');
+  } else if (nameSimilarity >= 0.85) {
+    score += 40;
+    reasons.push('Very similar business name');
+  } else if (nameSimilarity >= 0.7) {
+    score += 25;
+    reasons.push('Similar business name');
+  }
+
+  const phone = normalizePhoneNumber(subject.phone);
+  if (phone.length >= 7 && phone === normalizePhoneNumber(candidate.phone)) {
+    score += 30;
+    reasons.push('Same phone number');
+  }
+
+  if (subject.email.toLowerCase() === candidate.email.toLowerCase()) {
+    score += 40;
+    reasons.push('Same email address');
+  } else {
+    const domain = getCompanyEmailDomain(subject.email);
+    if (domain && domain === getCompanyEmailDomain(candidate.email)) {
+      score += 20;
+      reasons.push('Same email domain');
+    }
+  }
+
+  return { score: Math.min(score, 100), reasons };
+};
+
+/**
+ * Build the OR filters that narrow candidates before scoring
+ */
+const buildCandidateFilters = (
+  subject: DuplicateSubject,
+  fields: { name: string; email: string; phone: string }
+) => {
+  const filters: Record<string, unknown>[] = [
+    { [fields.email]: { equals: subject.email, mode: 'insensitive' } }
+  ];
+
+  const nameWords = normalizeCompanyName(subject.name)
+    .split(' ')
+    .filter(word => word.length >= 3)
+    .slice(0, 3);
+  for (const word of nameWords) {
+    filters.push({ [fields.name]: { contains: word, mode: 'insensitive' } });
+  }
+
+  const phone = normalizePhoneNumber(subject.phone);
+  if (phone.length >= 7) {
+    filters.push({ [fields.phone]: { endsWith: phone.slice(-7) } });
+  }
+
+  const domain = getCompanyEmailDomain(subject.email);
+  if (domain) {
+    filters.push({ [fields.email]: { endsWith: `@${domain}`, mode: 'insensitive' } });
+  }
+
+  if (subject.registrationNumber) {
+    filters.push({ registrationNumber: { equals: subject.registrationNumber, mode: 'insensitive' } });
+  }
+
+  if (subject.panNumber) {
+    filters.push({ panNumber: { equals: subject.panNumber, mode: 'insensitive' } });
+  }
+
+  return filters;
+};
+
+/**
+ * Store the highest open match score on the request so flagged requests can be filtered
+ */
+const refreshDuplicateScore = async (requestId: string, tx: Prisma.TransactionClient = prisma) => {
+  const { _max } = await tx.onboardingDuplicateMatch.aggregate({
+    where: { requestId, status: 'OPEN' },
+    _max: { score: true }
+  });
+
+  await tx.businessOnboardingRequest.update({
+    where: { id: requestId },
+    data: { duplicateScore: _max.score || 0 }
+  });
+};
+
+/**
+ * Compare an onboarding request with other requests and registered businesses
+ * Open matches are replaced; matches an admin already linked, dismissed or merged are kept
+ */
+export const scanOnboardingRequestForDuplicates = async (requestId: string) => {
+  const request = await prisma.businessOnboardingRequest.findUnique({
+    where: { id: requestId }
+  });
+
+  if (!request) {
+    throw new NotFoundError('Onboarding request not found');
+  }
+
+  const subject = toDuplicateSubject(request);
+
+  const [candidateRequests, candidateBusinesses, decided] = await Promise.all([
+    prisma.businessOnboardingRequest.findMany({
+      where: {
+        id: { not: request.id },
+        status: { not: 'MERGED' },
+        OR: buildCandidateFilters(subject, { name: 'businessName', email: 'email', phone: 'phoneNumber' })
+      },
+      take: CANDIDATE_LIMIT
+    }),
+    prisma.business.findMany({
+      where: {
+        // The business created from this request is not a duplicate of it
+        ...(request.createdBusinessLoginId && { businessLoginId: { not: request.createdBusinessLoginId } }),
+        OR: buildCandidateFilters(subject, { name: 'name', email: 'contactEmail', phone: 'contactPhone' })
+      },
+      take: CANDIDATE_LIMIT
+    }),
+    prisma.onboardingDuplicateMatch.findMany({
+      where: { requestId: request.id, status: { not: 'OPEN' } },
+      select: { matchedRequestId: true, matchedBusinessId: true }
+    })
+  ]);
+
+  const matches: Prisma.OnboardingDuplicateMatchCreateManyInput[] = [];
+
+  for (const candidate of candidateRequests) {
+    if (decided.some(match => match.matchedRequestId === candidate.id)) continue;
+
+    const { score, reasons } = scoreDuplicate(subject, toDuplicateSubject(candidate));
+
+    if (score >= DUPLICATE_SCORE_THRESHOLD) {
+      matches.push({ requestId: request.id, matchedRequestId: candidate.id, score, reasons });
+    }
+  }
+
+  for (const candidate of candidateBusinesses) {
+    if (decided.some(match => match.matchedBusinessId === candidate.id)) continue;
+
+    const { score, reasons } = scoreDuplicate(subject, {
+      name: candidate.name,
+      email: candidate.contactEmail,
+      phone: candidate.contactPhone,
+      registrationNumber: candidate.registrationNumber,
+      panNumber: candidate.panNumber
+    });
+
+    if (score >= DUPLICATE_SCORE_THRESHOLD) {
+      matches.push({ requestId: request.id, matchedBusinessId: candidate.id, score, reasons });
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.onboardingDuplicateMatch.deleteMany({
+      where: { requestId: request.id, status: 'OPEN' }
+    });
+
+    if (matches.length > 0) {
+      await tx.onboardingDuplicateMatch.createMany({ data: matches });
+    }
+
+    await refreshDuplicateScore(request.id, tx);
+  });
+
+  return prisma.onboardingDuplicateMatch.findMany({
+    ...duplicateMatchInclude,
+    where: { requestId: request.id, status: { in: ['OPEN', 'LINKED'] } }
+  });
+};
+
+/**
+ * Dismiss a possible duplicate as unrelated (Admin)
+ */
+export const dismissDuplicateMatch = async (requestId: string, matchId: string, adminId: string) => {
+  const match = await prisma.onboardingDuplicateMatch.findFirst({
+    where: { id: matchId, requestId }
+  });
+
+  if (!match) {
+    throw new NotFoundError('Duplicate match not found');
+  }
+
+  if (match.status !== 'OPEN') {
+    throw new BadRequestError(`This match has already been ${match.status.toLowerCase()}`);
+  }
+
+  await prisma.onboardingDuplicateMatch.update({
+    where: { id: match.id },
+    data: { status: 'DISMISSED', resolvedById: adminId, resolvedAt: new Date() }
+  });
+
+  await refreshDuplicateScore(requestId);
+
+  return { success: true };
+};
+
+/**
+ * Load two different onboarding requests for linking or merging
+ */
+const findRequestPair = async (requestId: string, otherRequestId: string) => {
+  if (requestId === otherRequestId) {
+    throw new BadRequestError('A request cannot be linked or merged with itself');
+  }
+
+  const [request, other] = await Promise.all([
+    prisma.businessOnboardingRequest.findUnique({ where: { id: requestId } }),
+    prisma.businessOnboardingRequest.findUnique({ where: { id: otherRequestId } })
+  ]);
+
+  if (!request || !other) {
+    throw new NotFoundError('Onboarding request not found');
+  }
+
+  return { request, other };
+};
+
+/**
+ * Record that two onboarding requests belong to the same company, keeping both (Admin)
+ */
+export const linkOnboardingRequests = async (
+  requestId: string,
+  relatedRequestId: string,
+  adminId: string,
+  ipAddress?: string
+) => {
+  const { request, other } = await findRequestPair(requestId, relatedRequestId);
+
+  const existing = await prisma.onboardingDuplicateMatch.findFirst({
+    where: {
+      OR: [
+        { requestId: request.id, matchedRequestId: other.id },
+        { requestId: other.id, matchedRequestId: request.id }
+      ]
+    }
+  });
+
+  const resolution = { status: 'LINKED' as const, resolvedById: adminId, resolvedAt: new Date() };
+
+  let match;
+  if (existing) {
+    match = await prisma.onboardingDuplicateMatch.update({
+      where: { id: existing.id },
+      data: resolution
+    });
+  } else {
+    const { score, reasons } = scoreDuplicate(toDuplicateSubject(request), toDuplicateSubject(other));
+
+    match = await prisma.onboardingDuplicateMatch.create({
+      data: {
+        requestId: request.id,
+        matchedRequestId: other.id,
+        score,
+        reasons: reasons.length > 0 ? reasons : ['Linked by admin'],
+        ...resolution
+      }
+    });
+  }
+
+  await refreshDuplicateScore(match.requestId);
+
+  await recordAuditLog({
+    adminId,
+    action: 'onboarding.link',
+    targetType: 'BusinessOnboardingRequest',
+    targetId: request.id,
+    details: { relatedRequestId: other.id },
+    ipAddress
+  });
+
+  return match;
+};
+
+/**
+ * Merge a duplicate onboarding request into another one (Admin)
+ * Contact notes move to the kept request, missing details are copied over,
+ * and the duplicate is closed as MERGED
+ */
+export const mergeOnboardingRequests = async (
+  duplicateId: string,
+  targetId: string,
+  adminId: string,
+  ipAddress?: string
+) => {
+  const { request: duplicate, other: target } = await findRequestPair(duplicateId, targetId);
+
+  if (duplicate.status === 'MERGED') {
+    throw new BadRequestError('This request has already been merged');
+  }
+
+  if (duplicate.status === 'APPROVED') {
+    throw new BadRequestError('Approved requests cannot be merged into another request');
+  }
+
+  if (target.status === 'MERGED') {
+    throw new BadRequestError('Cannot merge into a request that was itself merged');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.onboardingContactNote.updateMany({
+      where: { requestId: duplicate.id },
+      data: { requestId: target.id }
+    });
+
+    await tx.businessOnboardingRequest.update({
+      where: { id: target.id },
+      data: {
+        registrationNumber: target.registrationNumber || duplicate.registrationNumber,
+        panNumber: target.panNumber || duplicate.panNumber,
+        message: target.message || duplicate.message
+      }
+    });
+
+    await tx.businessOnboardingRequest.update({
+      where: { id: duplicate.id },
+      data: {
+        status: 'MERGED',
+        mergedIntoId: target.id,
+        onboardingToken: null,
+        tokenExpiresAt: null,
+        reviewedAt: new Date(),
+        reviewedById: adminId
+      }
+    });
+
+    await tx.onboardingDuplicateMatch.updateMany({
+      where: {
+        OR: [
+          { requestId: duplicate.id, matchedRequestId: target.id },
+          { requestId: target.id, matchedRequestId: duplicate.id }
+        ]
+      },
+      data: { status: 'MERGED', resolvedById: adminId, resolvedAt: new Date() }
+    });
+
+    // A merged request no longer needs duplicate review of its own
+    await tx.onboardingDuplicateMatch.deleteMany({
+      where: { requestId: duplicate.id, status: 'OPEN' }
+    });
+
+    // Matches against the merged request are closed; any pair with the kept request was
+    // already flagged when whichever of the two came later was scanned
+    const staleMatches = await tx.onboardingDuplicateMatch.findMany({
+      where: { matchedRequestId: duplicate.id, status: 'OPEN' },
+      select: { requestId: true }
+    });
+
+    await tx.onboardingDuplicateMatch.deleteMany({
+      where: { matchedRequestId: duplicate.id, status: 'OPEN' }
+    });
+
+    const affectedRequestIds = new Set([
+      duplicate.id,
+      target.id,
+      ...staleMatches.map(match => match.requestId)
+    ]);
+
+    for (const requestId of affectedRequestIds) {
+      await refreshDuplicateScore(requestId, tx);
+    }
+  });
+
+  await recordAuditLog({
+    adminId,
+    action: 'onboarding.merge',
+    targetType: 'BusinessOnboardingRequest',
+    targetId: target.id,
+    details: {
+      mergedRequestId: duplicate.id,
+      mergedEmail: duplicate.email,
+      mergedBusinessName: duplicate.businessName
+    },
+    ipAddress
+  });
+
+  return prisma.businessOnboardingRequest.findUnique({
+    where: { id: target.id },
+    include: {
+      duplicateMatches: duplicateMatchInclude,
+      mergedRequests: {
+        select: { id: true, businessName: true, email: true, phoneNumber: true, submittedAt: true }
+      }
+    }
+  });
+};
@@ -0,0 +1,200 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { generateToken, getTokenExpiration, isTokenExpired } from '../utils/token.utils';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { runSerializableTransaction } from '../utils/transaction.utils';
+import { registrationFieldsSchema } from '../validators/onboarding.validator';
+import { isEmailInUse } from './account.service';
+import { sendBusinessInvitationEmail } from './email.service';
+import { scanOnboardingRequestForDuplicates } from './onboardingDuplicate.service';
+import { reviewAssigneeSelect } from './reviewQueue.service';
+
+// How far an invited business has got: link sent, link opened, registered, business approved
+export type InvitationStage = 'SENT' | 'OPENED' | 'REGISTERED' | 'APPROVED';
+
+const invitationStageWhere: Record<InvitationStage, Prisma.BusinessOnboardingRequestWhereInput> = {
+  SENT: { linkOpenedAt: null, createdBusinessLoginId: null },
+  OPENED: { linkOpenedAt: { not: null }, createdBusinessLoginId: null },
+  REGISTERED: { createdBusinessLogin: { business: { is: { status: { not: 'APPROVED' } } } } },
+  APPROVED: { createdBusinessLogin: { business: { is: { status: 'APPROVED' } } } }
+};
+
+const invitationInclude = {
+  invitedBy: reviewAssigneeSelect,
+  createdBusinessLogin: {
+    select: {
+      business: {
+        select: { id: true, name: true, status: true }
+      }
+    }
+  }
+};
+
+type InvitationWithBusiness = Prisma.BusinessOnboardingRequestGetPayload<{ include: typeof invitationInclude }>;
+
+/**
+ * Add the conversion stage to an invitation and drop the registration token
+ */
+const toInvitationResponse = (invitation: InvitationWithBusiness) => {
+  const { onboardingToken, createdBusinessLogin, ...rest } = invitation;
+  const business = createdBusinessLogin?.business || null;
+
+  let stage: InvitationStage = 'SENT';
+  if (business?.status === 'APPROVED') {
+    stage = 'APPROVED';
+  } else if (invitation.createdBusinessLoginId) {
+    stage = 'REGISTERED';
+  } else if (invitation.linkOpenedAt) {
+    stage = 'OPENED';
+  }
+
+  return {
+    ...rest,
+    stage,
+    business,
+    linkExpired: !invitation.createdBusinessLoginId && isTokenExpired(invitation.tokenExpiresAt)
+  };
+};
+
+/**
+ * Invite a business met outside the platform (Admin)
+ * Creates a pre-approved onboarding request and emails the registration link straight away
+ * @param data.prefill - Registration form values to fill in for the business
+ */
+export const inviteBusiness = async (
+  adminId: string,
+  data: {
+    businessName: string;
+    email: string;
+    phoneNumber: string;
+    registrationNumber?: string;
+    panNumber?: string;
+    message?: string;
+    prefill?: Record<string, unknown>;
+  }
+) => {
+  const email = data.email.toLowerCase();
+
+  const admin = await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: { username: true }
+  });
+
+  if (!admin) {
+    throw new NotFoundError('Admin not found');
+  }
+
+  const prefill = data.prefill ? registrationFieldsSchema.partial().parse(data.prefill) : undefined;
+  const token = generateToken();
+
+  // Checked and created in one serializable transaction so two admins inviting the
+  // same email at once cannot both send a live registration link
+  const invitation = await runSerializableTransaction(async (tx) => {
+    if (await isEmailInUse(email, tx)) {
+      throw new ConflictError('An account with this email already exists');
+    }
+
+    const existing = await tx.businessOnboardingRequest.findFirst({
+      where: {
+        email,
+        status: { in: ['PENDING', 'CONTACTED', 'APPROVED'] }
+      },
+      select: { status: true }
+    });
+
+    if (existing) {
+      throw new ConflictError(
+        existing.status === 'APPROVED'
+          ? 'This business already has a registration link; regenerate it instead'
+          : 'This business already has an onboarding request; approve it instead'
+      );
+    }
+
+    const now = new Date();
+
+    return tx.businessOnboardingRequest.create({
+      data: {
+        businessName: data.businessName,
+        email,
+        phoneNumber: data.phoneNumber,
+        registrationNumber: data.registrationNumber || null,
+        panNumber: data.panNumber || null,
+        message: data.message || null,
+        status: 'APPROVED',
+        onboardingToken: token,
+        tokenExpiresAt: getTokenExpiration(),
+        reviewedAt: now,
+        reviewedById: adminId,
+        invitedById: adminId,
+        invitedAt: now,
+        prefill
+      },
+      include: invitationInclude
+    });
+  });
+
+  // Flag possible duplicates for admins (don't fail the invitation if this fails)
+  try {
+    await scanOnboardingRequestForDuplicates(invitation.id);
+  } catch (scanError) {
+    console.warn('Failed to check invitation for duplicates:', scanError);
+  }
+
+  try {
+    await sendBusinessInvitationEmail(email, data.businessName, admin.username, token);
+  } catch (emailError) {
+    console.warn('Failed to send invitation email (continuing anyway):', emailError);
+  }
+
+  // Returned once so the admin can also share the link in person
+  return { ...toInvitationResponse(invitation), onboardingToken: token };
+};
+
+/**
+ * List business invitations with their conversion stage (Admin)
+ * The summary counts how many invitations reached each stage
+ * @param filters.invitedById - Only invitations sent by this admin
+ */
+export const listBusinessInvitations = async (filters: {
+  invitedById?: string;
+  stage?: InvitationStage;
+  page?: number;
+  limit?: number;
+}) => {
+  const page = filters.page || 1;
+  const limit = filters.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const base: Prisma.BusinessOnboardingRequestWhereInput = {
+    invitedById: filters.invitedById || { not: null }
+  };
+  const where = filters.stage ? { ...base, ...invitationStageWhere[filters.stage] } : base;
+
+  const [invitations, total, sent, opened, registered, approved] = await Promise.all([
+    prisma.businessOnboardingRequest.findMany({
+      where,
+      include: invitationInclude,
+      orderBy: { invitedAt: 'desc' },
+      skip,
+      take: limit
+    }),
+    prisma.businessOnboardingRequest.count({ where }),
+    prisma.businessOnboardingRequest.count({ where: base }),
+    prisma.businessOnboardingRequest.count({
+      where: { ...base, OR: [{ linkOpenedAt: { not: null } }, { createdBusinessLoginId: { not: null } }] }
+    }),
+    prisma.businessOnboardingRequest.count({ where: { ...base, createdBusinessLoginId: { not: null } } }),
+    prisma.businessOnboardingRequest.count({ where: { ...base, ...invitationStageWhere.APPROVED } })
+  ]);
+
+  return {
+    invitations: invitations.map(toInvitationResponse),
+    summary: { sent, opened, registered, approved },
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
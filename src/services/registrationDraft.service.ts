@@ -0,0 +1,248 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { GALLERY_LIMIT, getFileUrl, deleteFile } from '../config/upload.config';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import {
+  registrationDetailsSchema,
+  registrationStepSchemas,
+  RegistrationStep
+} from '../validators/onboarding.validator';
+import {
+  getRegistrableRequest,
+  completeBusinessRegistration,
+  RegistrationFile,
+  RegistrationFiles
+} from './onboarding.service';
+
+// Upload fields that hold a single file; a new upload replaces the saved one
+const SINGLE_FILE_FIELDS = ['companyLogo', 'registrationCertificate', 'panCertificate', 'pitchDeck'] as const;
+
+type DraftFileField = typeof SINGLE_FILE_FIELDS[number] | 'galleryImages';
+
+const draftInclude = {
+  files: {
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
+
+type DraftWithFiles = Prisma.RegistrationDraftGetPayload<{ include: typeof draftInclude }>;
+
+/**
+ * Shape a draft for API responses (server file paths are replaced by URLs)
+ */
+const toDraftResponse = (draft: DraftWithFiles | null) => ({
+  data: (draft?.data ?? {}) as Record<string, unknown>,
+  currentStep: draft?.currentStep ?? null,
+  updatedAt: draft?.updatedAt ?? null,
+  files: (draft?.files ?? []).map(file => ({
+    id: file.id,
+    fieldName: file.fieldName,
+    fileName: file.fileName,
+    fileSize: file.fileSize,
+    mimeType: file.mimeType,
+    fileUrl: getFileUrl(file.filePath),
+    createdAt: file.createdAt
+  }))
+});
+
+const toRegistrationFile = (file: { filePath: string; fileName: string; fileSize: number; mimeType: string }): RegistrationFile => ({
+  path: file.filePath,
+  originalname: file.fileName,
+  size: file.fileSize,
+  mimetype: file.mimeType
+});
+
+/**
+ * Get the saved registration draft for a token
+ * Also returns the details from the onboarding request so the form can be prefilled
+ */
+export const getRegistrationDraft = async (token: string) => {
+  const request = await getRegistrableRequest(token);
+
+  const draft = await prisma.registrationDraft.findUnique({
+    where: { requestId: request.id },
+    include: draftInclude
+  });
+
+  return {
+    businessName: request.businessName,
+    email: request.email,
+    phoneNumber: request.phoneNumber,
+    tokenExpiresAt: request.tokenExpiresAt,
+    prefill: request.prefill,
+    draft: toDraftResponse(draft)
+  };
+};
+
+/**
+ * Save the fields of one form step into the draft
+ * Only the step's own fields are kept; values from other steps are left untouched
+ */
+export const saveRegistrationDraftStep = async (
+  token: string,
+  step: RegistrationStep,
+  data: Record<string, unknown>
+) => {
+  const request = await getRegistrableRequest(token);
+  const stepData = registrationStepSchemas[step].parse(data);
+
+  const existing = await prisma.registrationDraft.findUnique({
+    where: { requestId: request.id },
+    select: { data: true }
+  });
+
+  const merged = {
+    ...((existing?.data ?? {}) as Prisma.JsonObject),
+    ...stepData
+  };
+
+  const draft = await prisma.registrationDraft.upsert({
+    where: { requestId: request.id },
+    update: { data: merged, currentStep: step },
+    create: { requestId: request.id, data: merged, currentStep: step },
+    include: draftInclude
+  });
+
+  return toDraftResponse(draft);
+};
+
+/**
+ * Attach uploaded files to the draft
+ * Uploads are removed from disk again if they cannot be saved
+ */
+export const addRegistrationDraftFiles = async (
+  token: string,
+  files: Partial<Record<DraftFileField, Express.Multer.File[]>>
+) => {
+  const uploads = Object.entries(files).flatMap(([fieldName, fieldFiles]) =>
+    (fieldFiles || []).map(file => ({ fieldName, file }))
+  );
+
+  let draftId: string;
+
+  try {
+    if (uploads.length === 0) {
+      throw new BadRequestError('No files uploaded');
+    }
+
+    const request = await getRegistrableRequest(token);
+
+    const draft = await prisma.registrationDraft.upsert({
+      where: { requestId: request.id },
+      update: {},
+      create: { requestId: request.id },
+      include: draftInclude
+    });
+    draftId = draft.id;
+
+    const newGalleryImages = uploads.filter(upload => upload.fieldName === 'galleryImages').length;
+    const savedGalleryImages = draft.files.filter(file => file.fieldName === 'galleryImages').length;
+
+    if (savedGalleryImages + newGalleryImages > GALLERY_LIMIT) {
+      throw new BadRequestError(`A maximum of ${GALLERY_LIMIT} gallery images can be uploaded`);
+    }
+
+    const replaced = draft.files.filter(file =>
+      SINGLE_FILE_FIELDS.some(field => field === file.fieldName && files[field]?.length)
+    );
+
+    await prisma.$transaction([
+      prisma.registrationDraftFile.deleteMany({
+        where: { id: { in: replaced.map(file => file.id) } }
+      }),
+      prisma.registrationDraftFile.createMany({
+        data: uploads.map(({ fieldName, file }) => ({
+          draftId: draft.id,
+          fieldName,
+          filePath: file.path,
+          fileName: file.originalname,
+          fileSize: file.size,
+          mimeType: file.mimetype
+        }))
+      }),
+      prisma.registrationDraft.update({
+        where: { id: draft.id },
+        data: { updatedAt: new Date() }
+      })
+    ]);
+
+    for (const file of replaced) {
+      deleteFile(file.filePath);
+    }
+  } catch (error) {
+    for (const { file } of uploads) {
+      deleteFile(file.path);
+    }
+    throw error;
+  }
+
+  const draft = await prisma.registrationDraft.findUnique({
+    where: { id: draftId },
+    include: draftInclude
+  });
+
+  return toDraftResponse(draft);
+};
+
+/**
+ * Remove an uploaded file from the draft
+ */
+export const deleteRegistrationDraftFile = async (token: string, fileId: string) => {
+  const request = await getRegistrableRequest(token);
+
+  const file = await prisma.registrationDraftFile.findFirst({
+    where: { id: fileId, draft: { requestId: request.id } }
+  });
+
+  if (!file) {
+    throw new NotFoundError('File not found');
+  }
+
+  await prisma.registrationDraftFile.delete({
+    where: { id: file.id }
+  });
+
+  deleteFile(file.filePath);
+
+  return { success: true };
+};
+
+/**
+ * Complete registration from the saved draft
+ * The draft must contain every required field; missing ones are reported as validation errors
+ */
+export const submitRegistrationDraft = async (token: string, password: string) => {
+  const request = await getRegistrableRequest(token);
+
+  const draft = await prisma.registrationDraft.findUnique({
+    where: { requestId: request.id },
+    include: draftInclude
+  });
+
+  if (!draft) {
+    throw new BadRequestError('No registration draft has been saved');
+  }
+
+  // Values the inviting admin filled in apply unless the business changed them
+  const businessData = registrationDetailsSchema.parse({
+    ...((request.prefill ?? {}) as Prisma.JsonObject),
+    ...(draft.data as Prisma.JsonObject)
+  });
+
+  const fileFor = (fieldName: DraftFileField) => {
+    const file = draft.files.find(draftFile => draftFile.fieldName === fieldName);
+    return file ? toRegistrationFile(file) : null;
+  };
+
+  const uploadedFiles: RegistrationFiles = {
+    companyLogo: fileFor('companyLogo'),
+    registrationCertificate: fileFor('registrationCertificate'),
+    panCertificate: fileFor('panCertificate'),
+    pitchDeck: fileFor('pitchDeck'),
+    galleryImages: draft.files
+      .filter(file => file.fieldName === 'galleryImages')
+      .map(toRegistrationFile)
+  };
+
+  return completeBusinessRegistration(token, password, businessData, uploadedFiles);
+};
@@ -0,0 +1,168 @@
+import { BusinessStatus, OnboardingStatus } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { PERMISSIONS } from '../config/permissions.config';
+import { BadRequestError } from '../utils/errors';
+
+// Days an onboarding request or pending business may wait before it counts as overdue
+const REVIEW_SLA_DAYS = parseInt(process.env.REVIEW_SLA_DAYS || '3');
+
+// Review times are averaged over items reviewed within this many days
+const REVIEW_METRICS_WINDOW_DAYS = parseInt(process.env.REVIEW_METRICS_WINDOW_DAYS || '30');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that still wait on an admin
+export const OPEN_ONBOARDING_STATUSES: OnboardingStatus[] = ['PENDING', 'CONTACTED'];
+export const OPEN_BUSINESS_STATUSES: BusinessStatus[] = ['PENDING'];
+
+// Assignee shown with review queue items
+export const reviewAssigneeSelect = {
+  select: { id: true, username: true, email: true }
+};
+
+/**
+ * Submissions older than this date are overdue
+ */
+export const getOverdueCutoff = (days: number = REVIEW_SLA_DAYS): Date => {
+  return new Date(Date.now() - days * DAY_MS);
+};
+
+/**
+ * When a business entered the review queue: its latest resubmission, or else its registration
+ */
+export const getBusinessSubmittedAt = (business: { createdAt: Date; resubmittedAt: Date | null }): Date => {
+  return business.resubmittedAt || business.createdAt;
+};
+
+/**
+ * Business filter matching getBusinessSubmittedAt before a date
+ */
+export const businessSubmittedBefore = (cutoff: Date) => ({
+  OR: [
+    { resubmittedAt: { lt: cutoff } },
+    { resubmittedAt: null, createdAt: { lt: cutoff } }
+  ]
+});
+
+/**
+ * Add age and SLA status to a review queue item
+ * @param submittedAt - When the item entered the queue
+ * @param isOpen - Whether it still waits on an admin
+ */
+export const withReviewAge = <T>(item: T, submittedAt: Date, isOpen: boolean) => {
+  const slaDueAt = new Date(submittedAt.getTime() + REVIEW_SLA_DAYS * DAY_MS);
+
+  return {
+    ...item,
+    ageInDays: Math.floor((Date.now() - submittedAt.getTime()) / DAY_MS),
+    slaDueAt,
+    isOverdue: isOpen && slaDueAt.getTime() < Date.now()
+  };
+};
+
+/**
+ * Make sure an admin can be assigned review work
+ */
+export const assertAssignableReviewer = async (adminId: string) => {
+  const admin = await prisma.admin.findFirst({
+    where: {
+      id: adminId,
+      isActive: true,
+      role: { permissions: { has: PERMISSIONS.ONBOARDING_REVIEW } }
+    },
+    select: { id: true }
+  });
+
+  if (!admin) {
+    throw new BadRequestError('Assignee must be an active admin who can review onboarding');
+  }
+};
+
+/**
+ * Summarize review times from submitted/reviewed timestamp pairs
+ */
+const summarizeReviewTimes = (items: { submittedAt: Date; reviewedAt: Date | null }[]) => {
+  const hours = items
+    .filter(item => item.reviewedAt)
+    .map(item => (item.reviewedAt!.getTime() - item.submittedAt.getTime()) / (60 * 60 * 1000))
+    .sort((a, b) => a - b);
+
+  if (hours.length === 0) {
+    return { reviewedCount: 0, averageReviewHours: null, medianReviewHours: null };
+  }
+
+  const middle = Math.floor(hours.length / 2);
+  const median = hours.length % 2 ? hours[middle] : (hours[middle - 1] + hours[middle]) / 2;
+
+  return {
+    reviewedCount: hours.length,
+    averageReviewHours: Math.round((hours.reduce((sum, value) => sum + value, 0) / hours.length) * 10) / 10,
+    medianReviewHours: Math.round(median * 10) / 10
+  };
+};
+
+/**
+ * Queue sizes, aging and review times for onboarding requests and pending businesses (Admin)
+ * @param olderThanDays - Also count open items older than this many days (defaults to the SLA)
+ */
+export const getReviewMetrics = async (olderThanDays: number = REVIEW_SLA_DAYS) => {
+  const overdueCutoff = getOverdueCutoff();
+  const olderThanCutoff = getOverdueCutoff(olderThanDays);
+  const windowStart = getOverdueCutoff(REVIEW_METRICS_WINDOW_DAYS);
+
+  const openRequests = { status: { in: OPEN_ONBOARDING_STATUSES } };
+  const openBusinesses = { status: { in: OPEN_BUSINESS_STATUSES } };
+
+  const [
+    requestsOpen,
+    requestsOverdue,
+    requestsOlderThan,
+    requestsUnassigned,
+    reviewedRequests,
+    businessesOpen,
+    businessesOverdue,
+    businessesOlderThan,
+    businessesUnassigned,
+    reviewedBusinesses
+  ] = await Promise.all([
+    prisma.businessOnboardingRequest.count({ where: openRequests }),
+    prisma.businessOnboardingRequest.count({ where: { ...openRequests, submittedAt: { lt: overdueCutoff } } }),
+    prisma.businessOnboardingRequest.count({ where: { ...openRequests, submittedAt: { lt: olderThanCutoff } } }),
+    prisma.businessOnboardingRequest.count({ where: { ...openRequests, assigneeId: null } }),
+    prisma.businessOnboardingRequest.findMany({
+      // Invitations are approved when sent, so they would skew review times
+      where: { reviewedAt: { gte: windowStart }, status: { in: ['APPROVED', 'REJECTED'] }, invitedById: null },
+      select: { submittedAt: true, reviewedAt: true }
+    }),
+    prisma.business.count({ where: openBusinesses }),
+    prisma.business.count({ where: { ...openBusinesses, ...businessSubmittedBefore(overdueCutoff) } }),
+    prisma.business.count({ where: { ...openBusinesses, ...businessSubmittedBefore(olderThanCutoff) } }),
+    prisma.business.count({ where: { ...openBusinesses, reviewAssigneeId: null } }),
+    prisma.business.findMany({
+      where: { reviewedAt: { gte: windowStart } },
+      select: { createdAt: true, resubmittedAt: true, reviewedAt: true }
+    })
+  ]);
+
+  return {
+    slaDays: REVIEW_SLA_DAYS,
+    olderThanDays,
+    windowDays: REVIEW_METRICS_WINDOW_DAYS,
+    onboardingRequests: {
+      open: requestsOpen,
+      overdue: requestsOverdue,
+      olderThan: requestsOlderThan,
+      unassigned: requestsUnassigned,
+      ...summarizeReviewTimes(reviewedRequests)
+    },
+    businesses: {
+      open: businessesOpen,
+      overdue: businessesOverdue,
+      olderThan: businessesOlderThan,
+      unassigned: businessesUnassigned,
+      ...summarizeReviewTimes(
+        reviewedBusinesses.map(business => ({ submittedAt: getBusinessSubmittedAt(business), reviewedAt: business.reviewedAt }))
+      )
+    }
+  };
+};
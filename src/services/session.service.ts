@@ -0,0 +1,326 @@
+import { LoginMethod, UserRole } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { generateToken, getTokenExpiration, hashToken, isTokenExpired } from '../utils/token.utils';
+import { signAccessToken, getAccessTokenExpiresIn } from '../utils/jwt.utils';
+import { UnauthorizedError, NotFoundError } from '../utils/errors';
+import { getAuthenticatedUser } from './account.service';
+
+const REFRESH_TOKEN_EXPIRATION_HOURS = parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS || '7') * 24;
+
+// lastUsedAt is refreshed at most this often so every request does not write
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Device details recorded on a session
+ */
+export interface SessionClient {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const truncateUserAgent = (userAgent?: string) => userAgent?.slice(0, 500);
+
+/**
+ * Create a refresh token for a session
+ * Returns the plain token; only its hash is stored
+ */
+const issueRefreshToken = async (
+  sessionId: string,
+  expiresAt: Date = getTokenExpiration(REFRESH_TOKEN_EXPIRATION_HOURS)
+) => {
+  const refreshToken = generateToken();
+
+  await prisma.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt
+    }
+  });
+
+  return { refreshToken, expiresAt };
+};
+
+/**
+ * Start a new session and issue an access/refresh token pair
+ * @param loginMethod - How the user signed in; magic-link sessions are limited to investor routes
+ */
+export const createSession = async (
+  userId: string,
+  role: UserRole,
+  client: SessionClient = {},
+  loginMethod: LoginMethod = 'PASSWORD'
+) => {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      role,
+      loginMethod,
+      ipAddress: client.ipAddress,
+      userAgent: truncateUserAgent(client.userAgent),
+      expiresAt: getTokenExpiration(REFRESH_TOKEN_EXPIRATION_HOURS)
+    }
+  });
+
+  const { refreshToken } = await issueRefreshToken(session.id);
+
+  return {
+    accessToken: signAccessToken(userId, role, session.id),
+    refreshToken,
+    expiresIn: getAccessTokenExpiresIn()
+  };
+};
+
+/**
+ * Start a session on a business login for a super admin viewing it as the business
+ * The session cannot be extended past expiresAt by refreshing
+ */
+export const createImpersonationSession = async (
+  businessLoginId: string,
+  impersonatorId: string,
+  expiresAt: Date,
+  client: SessionClient = {}
+) => {
+  const session = await prisma.session.create({
+    data: {
+      userId: businessLoginId,
+      role: 'BUSINESS',
+      impersonatorId,
+      ipAddress: client.ipAddress,
+      userAgent: truncateUserAgent(client.userAgent),
+      expiresAt
+    }
+  });
+
+  const { refreshToken } = await issueRefreshToken(session.id, expiresAt);
+
+  return {
+    sessionId: session.id,
+    accessToken: signAccessToken(businessLoginId, 'BUSINESS', session.id),
+    refreshToken,
+    expiresIn: getAccessTokenExpiresIn()
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair
+ * Refresh tokens are single-use; presenting a used token revokes the whole session
+ */
+export const rotateRefreshToken = async (refreshToken: string, client: SessionClient = {}) => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: true }
+  });
+
+  if (!stored) {
+    throw new UnauthorizedError('Invalid refresh token');
+  }
+
+  if (stored.usedAt) {
+    // Token reuse means it has leaked - end the session for everyone holding it
+    await revokeSession(stored.sessionId);
+    throw new UnauthorizedError('Refresh token has already been used');
+  }
+
+  if (
+    stored.session.revokedAt ||
+    isTokenExpired(stored.expiresAt) ||
+    isTokenExpired(stored.session.expiresAt)
+  ) {
+    throw new UnauthorizedError('Session has expired');
+  }
+
+  // Deactivated accounts cannot keep their sessions alive
+  await getAuthenticatedUser(stored.session.userId, stored.session.role);
+
+  const nextRefreshToken = generateToken();
+  // Impersonation sessions keep their original time limit
+  const expiresAt = stored.session.impersonatorId
+    ? stored.session.expiresAt
+    : getTokenExpiration(REFRESH_TOKEN_EXPIRATION_HOURS);
+
+  // Only one concurrent refresh may claim the token
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (claimed.count === 0) {
+    await revokeSession(stored.sessionId);
+    throw new UnauthorizedError('Refresh token has already been used');
+  }
+
+  await prisma.$transaction([
+    prisma.refreshToken.create({
+      data: {
+        sessionId: stored.sessionId,
+        tokenHash: hashToken(nextRefreshToken),
+        expiresAt
+      }
+    }),
+    prisma.session.update({
+      where: { id: stored.sessionId },
+      data: {
+        expiresAt,
+        lastUsedAt: new Date(),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+        ...(client.userAgent && { userAgent: truncateUserAgent(client.userAgent) })
+      }
+    })
+  ]);
+
+  return {
+    accessToken: signAccessToken(stored.session.userId, stored.session.role, stored.sessionId),
+    refreshToken: nextRefreshToken,
+    expiresIn: getAccessTokenExpiresIn()
+  };
+};
+
+/**
+ * Revoke the session a refresh token belongs to (logout)
+ * Unknown tokens are ignored so logout is always safe to call
+ */
+export const revokeSessionByRefreshToken = async (refreshToken: string) => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: { sessionId: true }
+  });
+
+  if (stored) {
+    await revokeSession(stored.sessionId);
+  }
+};
+
+/**
+ * Revoke a single session
+ */
+export const revokeSession = async (sessionId: string) => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+/**
+ * Check that a session is still usable for the given user
+ * @returns How the session was started and the impersonating admin, if any
+ */
+export const assertActiveSession = async (sessionId: string, userId: string, role: UserRole) => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      role: true,
+      revokedAt: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      loginMethod: true,
+      createdAt: true,
+      impersonator: {
+        select: { id: true, username: true, email: true, isActive: true }
+      }
+    }
+  });
+
+  if (
+    !session ||
+    session.userId !== userId ||
+    session.role !== role ||
+    session.revokedAt ||
+    isTokenExpired(session.expiresAt) ||
+    (session.impersonator && !session.impersonator.isActive)
+  ) {
+    throw new UnauthorizedError('Session has expired');
+  }
+
+  if (Date.now() - session.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+
+  if (!session.impersonator) {
+    return { loginMethod: session.loginMethod, impersonation: undefined };
+  }
+
+  return {
+    loginMethod: session.loginMethod,
+    impersonation: {
+      adminId: session.impersonator.id,
+      adminUsername: session.impersonator.username,
+      adminEmail: session.impersonator.email,
+      startedAt: session.createdAt,
+      expiresAt: session.expiresAt
+    }
+  };
+};
+
+/**
+ * Revoke every session of an account
+ * @param exceptSessionId - Keep this session alive (e.g. the one making the request)
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  role: UserRole,
+  exceptSessionId?: string
+) => {
+  await prisma.session.updateMany({
+    where: {
+      userId,
+      role,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date() }
+  });
+};
+
+/**
+ * List active sessions of an account
+ * @param currentSessionId - Session making the request, flagged as current
+ */
+export const listActiveSessions = async (
+  userId: string,
+  role: UserRole,
+  currentSessionId: string
+) => {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      role,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      lastUsedAt: true,
+      createdAt: true,
+      expiresAt: true,
+      impersonatorId: true
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+
+  return sessions.map(({ impersonatorId, ...session }) => ({
+    ...session,
+    isCurrent: session.id === currentSessionId,
+    isImpersonation: !!impersonatorId
+  }));
+};
+
+/**
+ * Revoke one of the account's own sessions
+ */
+export const revokeOwnSession = async (userId: string, role: UserRole, sessionId: string) => {
+  const revoked = await prisma.session.updateMany({
+    where: { id: sessionId, userId, role, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+
+  if (revoked.count === 0) {
+    throw new NotFoundError('Session not found');
+  }
+};
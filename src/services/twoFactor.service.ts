@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { LoginMethod, UserRole } from '@prisma/client';
+import prisma from '../config/prisma.config';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp.utils';
+import { hashToken } from '../utils/token.utils';
+import { verifyPassword } from '../utils/password.utils';
+import { BadRequestError, ForbiddenError, NotFoundError, UnauthorizedError } from '../utils/errors';
+import {
+  issueAuthToken,
+  findValidAuthToken,
+  consumeAuthToken,
+  recordAuthTokenFailure
+} from './authToken.service';
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Capital Bridge Nepal';
+const CHALLENGE_EXPIRATION_MINUTES = 5;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Whether every admin must have two-factor authentication enabled
+ */
+export const isAdminTwoFactorRequired = (): boolean => {
+  return process.env.REQUIRE_ADMIN_TWO_FACTOR === 'true';
+};
+
+const twoFactorSelect = {
+  id: true,
+  email: true,
+  passwordHash: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorLastUsedStep: true
+};
+
+const getTwoFactorAccount = async (userId: string, role: UserRole) => {
+  const account = role === 'ADMIN'
+    ? await prisma.admin.findUnique({ where: { id: userId }, select: twoFactorSelect })
+    : role === 'INVESTOR'
+      ? await prisma.investor.findUnique({ where: { id: userId }, select: twoFactorSelect })
+      : await prisma.businessLogin.findUnique({ where: { id: userId }, select: twoFactorSelect });
+
+  if (!account) {
+    throw new NotFoundError('Account not found');
+  }
+
+  return account;
+};
+
+const updateTwoFactorAccount = async (
+  userId: string,
+  role: UserRole,
+  data: {
+    twoFactorEnabled?: boolean;
+    twoFactorSecret?: string | null;
+    twoFactorLastUsedStep?: number | null;
+  }
+) => {
+  if (role === 'ADMIN') {
+    await prisma.admin.update({ where: { id: userId }, data });
+  } else if (role === 'INVESTOR') {
+    await prisma.investor.update({ where: { id: userId }, data });
+  } else {
+    await prisma.businessLogin.update({ where: { id: userId }, data });
+  }
+};
+
+/**
+ * Mark a TOTP time step as used, unless it (or a later one) already is
+ * The check and the write are one statement, so a code cannot be accepted twice in parallel
+ * @returns Whether this call claimed the step
+ */
+const claimTotpStep = async (userId: string, role: UserRole, step: number): Promise<boolean> => {
+  const args = {
+    where: {
+      id: userId,
+      OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }]
+    },
+    data: { twoFactorLastUsedStep: step }
+  };
+
+  const { count } = role === 'ADMIN'
+    ? await prisma.admin.updateMany(args)
+    : role === 'INVESTOR'
+      ? await prisma.investor.updateMany(args)
+      : await prisma.businessLogin.updateMany(args);
+
+  return count > 0;
+};
+
+const normalizeRecoveryCode = (code: string): string => {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+};
+
+/**
+ * Replace an account's recovery codes with a fresh set
+ * @returns Plain codes to show the user once; only hashes are stored
+ */
+const generateRecoveryCodes = async (userId: string, role: UserRole): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({
+      where: { userId, role }
+    }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({
+        userId,
+        role,
+        codeHash: hashToken(normalizeRecoveryCode(code))
+      }))
+    })
+  ]);
+
+  return codes;
+};
+
+/**
+ * Check a TOTP code or an unused recovery code
+ * Accepted codes cannot be used again
+ */
+const verifySecondFactor = async (
+  account: Awaited<ReturnType<typeof getTwoFactorAccount>>,
+  role: UserRole,
+  code: string
+): Promise<boolean> => {
+  if (!account.twoFactorEnabled || !account.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(account.twoFactorSecret, code, account.twoFactorLastUsedStep);
+  if (step !== null) {
+    return claimTotpStep(account.id, role, step);
+  }
+
+  const usedRecoveryCode = await prisma.recoveryCode.updateMany({
+    where: {
+      userId: account.id,
+      role,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  });
+
+  return usedRecoveryCode.count > 0;
+};
+
+/**
+ * Start two-factor enrollment
+ * Generates a new secret; it is not active until confirmed with enableTwoFactor
+ */
+export const beginTwoFactorSetup = async (userId: string, role: UserRole) => {
+  const account = await getTwoFactorAccount(userId, role);
+
+  if (account.twoFactorEnabled) {
+    throw new BadRequestError('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await updateTwoFactorAccount(userId, role, {
+    twoFactorSecret: secret,
+    twoFactorLastUsedStep: null
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, account.email, TWO_FACTOR_ISSUER)
+  };
+};
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @returns One-time recovery codes
+ */
+export const enableTwoFactor = async (userId: string, role: UserRole, code: string) => {
+  const account = await getTwoFactorAccount(userId, role);
+
+  if (account.twoFactorEnabled) {
+    throw new BadRequestError('Two-factor authentication is already enabled');
+  }
+
+  if (!account.twoFactorSecret) {
+    throw new BadRequestError('Start two-factor setup before enabling it');
+  }
+
+  const step = verifyTotp(account.twoFactorSecret, code);
+  if (step === null) {
+    throw new BadRequestError('Invalid verification code');
+  }
+
+  await updateTwoFactorAccount(userId, role, {
+    twoFactorEnabled: true,
+    twoFactorLastUsedStep: step
+  });
+
+  const recoveryCodes = await generateRecoveryCodes(userId, role);
+
+  return { recoveryCodes };
+};
+
+/**
+ * Turn off two-factor authentication
+ * Requires the current password and a valid code
+ */
+export const disableTwoFactor = async (
+  userId: string,
+  role: UserRole,
+  password: string,
+  code: string
+) => {
+  if (role === 'ADMIN' && isAdminTwoFactorRequired()) {
+    throw new ForbiddenError('Two-factor authentication is required for admin accounts');
+  }
+
+  const account = await getTwoFactorAccount(userId, role);
+
+  if (!account.twoFactorEnabled) {
+    throw new BadRequestError('Two-factor authentication is not enabled');
+  }
+
+  const isPasswordValid = !!account.passwordHash && await verifyPassword(password, account.passwordHash);
+  if (!isPasswordValid) {
+    throw new UnauthorizedError('Current password is incorrect');
+  }
+
+  if (!(await verifySecondFactor(account, role, code))) {
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  await updateTwoFactorAccount(userId, role, {
+    twoFactorEnabled: false,
+    twoFactorSecret: null,
+    twoFactorLastUsedStep: null
+  });
+
+  await prisma.recoveryCode.deleteMany({
+    where: { userId, role }
+  });
+
+  return { success: true };
+};
+
+/**
+ * Issue a new set of recovery codes, invalidating the old ones
+ */
+export const regenerateRecoveryCodes = async (userId: string, role: UserRole, code: string) => {
+  const account = await getTwoFactorAccount(userId, role);
+
+  if (!account.twoFactorEnabled) {
+    throw new BadRequestError('Two-factor authentication is not enabled');
+  }
+
+  if (!(await verifySecondFactor(account, role, code))) {
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  const recoveryCodes = await generateRecoveryCodes(userId, role);
+
+  return { recoveryCodes };
+};
+
+/**
+ * Issue a short-lived challenge after the first step of login
+ * @param loginMethod - How that first step was done; the session started after the challenge keeps it
+ */
+export const createTwoFactorChallenge = async (
+  userId: string,
+  role: UserRole,
+  loginMethod: LoginMethod = 'PASSWORD'
+) => {
+  const expiresAt = new Date(Date.now() + CHALLENGE_EXPIRATION_MINUTES * 60 * 1000);
+
+  return issueAuthToken(userId, role, 'TWO_FACTOR_CHALLENGE', expiresAt, undefined, loginMethod);
+};
+
+/**
+ * Complete login by answering a two-factor challenge
+ * @returns The account to start a session for and how the user signed in
+ */
+export const completeTwoFactorChallenge = async (challengeToken: string, code: string) => {
+  const challenge = await findValidAuthToken(challengeToken, 'TWO_FACTOR_CHALLENGE');
+  const account = await getTwoFactorAccount(challenge.userId, challenge.role);
+
+  if (!(await verifySecondFactor(account, challenge.role, code))) {
+    await recordAuthTokenFailure(challenge.id, MAX_CHALLENGE_ATTEMPTS);
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  const { userId, role, loginMethod } = await consumeAuthToken(challengeToken, 'TWO_FACTOR_CHALLENGE');
+
+  return { userId, role, loginMethod: loginMethod || ('PASSWORD' as const) };
+};
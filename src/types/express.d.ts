@@ -1,11 +1,33 @@
+import { BusinessMemberRole, BusinessStatus, LoginMethod } from '@prisma/client';
+
 declare global {
   namespace Express {
     interface Request {
       user?: {
         id: string;
         email: string;
-        role: 'ADMIN' | 'BUSINESS';
+        role: 'ADMIN' | 'BUSINESS' | 'INVESTOR';
         username?: string;
+        twoFactorEnabled: boolean;
+        sessionId: string;
+        loginMethod: LoginMethod;
+        adminRole?: string;
+        permissions?: string[];
+        businessId?: string;
+        businessRole?: BusinessMemberRole;
+        businessStatus?: BusinessStatus;
+        impersonation?: {
+          adminId: string;
+          adminUsername: string;
+          adminEmail: string;
+          startedAt: Date;
+          expiresAt: Date;
+        };
+      };
+      apiKey?: {
+        id: string;
+        businessId: string;
+        scopes: string[];
       };
     }
   }
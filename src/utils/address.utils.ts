@@ -0,0 +1,158 @@
+import nepalAddresses from '../config/nepal-addresses.json';
+
+export type LocalLevelType =
+  | 'METROPOLITAN_CITY'
+  | 'SUB_METROPOLITAN_CITY'
+  | 'MUNICIPALITY'
+  | 'RURAL_MUNICIPALITY';
+
+export interface LocalLevel {
+  name: string;
+  type: LocalLevelType;
+  aliases?: string[];
+}
+
+export interface District {
+  name: string;
+  aliases?: string[];
+  localLevels: LocalLevel[];
+}
+
+export interface Province {
+  number: number;
+  name: string;
+  aliases?: string[];
+  districts: District[];
+}
+
+export interface NepalAddress {
+  province: string;
+  district: string;
+  municipality: string | null;
+}
+
+export const NEPAL_PROVINCES = nepalAddresses.provinces as Province[];
+
+// Words people add around place names ("Kathmandu District", "Pokhara Metropolitan City")
+const PLACE_NAME_NOISE = /\b(province|pradesh|district|jilla|sub[\s-]?metropolitan|metropolitan|metro|city|rural|municipality|mahanagarpalika|upamahanagarpalika|nagarpalika|gaunpalika|gaupalika)\b/g;
+
+const normalizePlaceName = (name: string): string => {
+  return name
+    .toLowerCase()
+    .replace(/[().,]/g, ' ')
+    .replace(PLACE_NAME_NOISE, ' ')
+    // Spacing and hyphens vary between sources ("Tara Khola", "Tarakhola", "Balan-Bihul")
+    .replace(/[\s-]+/g, '');
+};
+
+const matchesPlace = (input: string, place: { name: string; aliases?: string[] }): boolean => {
+  const normalized = normalizePlaceName(input);
+  return [place.name, ...(place.aliases || [])].some(name => normalizePlaceName(name) === normalized);
+};
+
+/**
+ * Find a province by name, alias ("Province 1") or number
+ */
+export const findProvince = (input: string): Province | null => {
+  const number = parseInt(input.replace(/\D/g, ''));
+
+  return NEPAL_PROVINCES.find(province =>
+    matchesPlace(input, province) || (/^\s*\d+\s*$/.test(input) && province.number === number)
+  ) || null;
+};
+
+/**
+ * Find a district by name or alias, together with its province
+ */
+export const findDistrict = (input: string): { province: Province; district: District } | null => {
+  for (const province of NEPAL_PROVINCES) {
+    const district = province.districts.find(candidate => matchesPlace(input, candidate));
+    if (district) {
+      return { province, district };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check an address against the reference data and return canonical names
+ * @returns The canonical address, or the problems found
+ */
+export const resolveNepalAddress = (input: {
+  province?: string | null;
+  district: string;
+  municipality?: string | null;
+}): { address: NepalAddress | null; errors: { field: 'province' | 'district' | 'municipality'; message: string }[] } => {
+  const match = findDistrict(input.district);
+
+  if (!match) {
+    return { address: null, errors: [{ field: 'district', message: `Unknown district: ${input.district}` }] };
+  }
+
+  const errors: { field: 'province' | 'district' | 'municipality'; message: string }[] = [];
+
+  if (input.province && findProvince(input.province) !== match.province) {
+    errors.push({
+      field: 'province',
+      message: `${match.district.name} district is in ${match.province.name} Province`
+    });
+  }
+
+  let municipality = input.municipality?.trim() || null;
+
+  if (municipality) {
+    const localLevel = match.district.localLevels.find(candidate => matchesPlace(municipality!, candidate));
+
+    if (localLevel) {
+      municipality = localLevel.name;
+    } else {
+      errors.push({
+        field: 'municipality',
+        message: `${municipality} is not a local level in ${match.district.name} district`
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { address: null, errors };
+  }
+
+  return {
+    address: {
+      province: match.province.name,
+      district: match.district.name,
+      municipality
+    },
+    errors
+  };
+};
+
+/**
+ * Build the display location kept on Business.location ("Municipality, District")
+ */
+export const formatLocation = (address: { municipality?: string | null; district: string }): string => {
+  return address.municipality ? `${address.municipality}, ${address.district}` : address.district;
+};
+
+/**
+ * Parse a free-text location such as "Pokhara, Kaski" into a structured address
+ * The last comma-separated part that names a district is used; the part before it becomes the municipality
+ * @returns The address, or null when no district can be recognized
+ */
+export const parseLocation = (location: string): NepalAddress | null => {
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean);
+
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const match = findDistrict(parts[i]);
+    if (!match) continue;
+
+    const candidate = i > 0 ? parts[i - 1] : null;
+    const { address } = resolveNepalAddress({ district: match.district.name, municipality: candidate });
+
+    // Keep the district even when the municipality part is not a listed local level
+    return address || { province: match.province.name, district: match.district.name, municipality: null };
+  }
+
+  return null;
+};
@@ -42,3 +42,15 @@ export class ConflictError extends AppError {
     super(409, message);
   }
 }
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = 'Too many requests') {
+    super(429, message);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string = 'Service unavailable') {
+    super(503, message);
+  }
+}
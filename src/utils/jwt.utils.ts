@@ -0,0 +1,69 @@
+import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
+import { UnauthorizedError } from './errors';
+
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+const ACCESS_TOKEN_EXPIRATION_MINUTES = parseInt(process.env.ACCESS_TOKEN_EXPIRATION_MINUTES || '15');
+
+export interface AccessTokenPayload {
+  sub: string;
+  role: UserRole;
+  sid: string;
+}
+
+const getAccessTokenSecret = (): string => {
+  const secret = process.env.JWT_ACCESS_SECRET;
+
+  if (!secret) {
+    throw new Error('JWT_ACCESS_SECRET is not configured');
+  }
+
+  return secret;
+};
+
+/**
+ * Sign an access token for an authenticated session
+ * @param userId - Admin or BusinessLogin ID
+ * @param role - User role
+ * @param sessionId - Session the token belongs to
+ * @returns Signed JWT
+ */
+export const signAccessToken = (userId: string, role: UserRole, sessionId: string): string => {
+  return jwt.sign({ role, sid: sessionId }, getAccessTokenSecret(), {
+    subject: userId,
+    expiresIn: ACCESS_TOKEN_EXPIRATION_MINUTES * 60
+  });
+};
+
+/**
+ * Verify an access token and return its payload
+ * @param token - Signed JWT
+ * @returns Decoded payload
+ */
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  let decoded: string | jwt.JwtPayload;
+
+  try {
+    decoded = jwt.verify(token, getAccessTokenSecret());
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new UnauthorizedError('Access token has expired');
+    }
+    throw new UnauthorizedError('Invalid authentication token');
+  }
+
+  if (typeof decoded === 'string' || !decoded.sub || !decoded.role || !decoded.sid) {
+    throw new UnauthorizedError('Invalid authentication token');
+  }
+
+  return {
+    sub: decoded.sub,
+    role: decoded.role,
+    sid: decoded.sid
+  };
+};
+
+/**
+ * Access token lifetime in seconds (returned to clients)
+ */
+export const getAccessTokenExpiresIn = (): number => ACCESS_TOKEN_EXPIRATION_MINUTES * 60;
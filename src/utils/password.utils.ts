@@ -1,6 +1,20 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import commonPasswords from '../config/common-passwords.json';
 
-const SALT_ROUNDS = 10;
+// Raising the cost upgrades existing hashes the next time their owner logs in
+const SALT_ROUNDS = parseInt(process.env.BCRYPT_COST || '12');
+
+// Password rules for new passwords (registration, reset, change, invitations)
+// bcrypt only uses the first 72 bytes, so longer passwords are rejected rather than silently truncated
+const PASSWORD_MIN_LENGTH = parseInt(process.env.PASSWORD_MIN_LENGTH || '8');
+const PASSWORD_MAX_LENGTH = Math.min(parseInt(process.env.PASSWORD_MAX_LENGTH || '72'), 72);
+const PASSWORD_REQUIRE_LOWERCASE = process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false';
+const PASSWORD_REQUIRE_UPPERCASE = process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false';
+const PASSWORD_REQUIRE_NUMBER = process.env.PASSWORD_REQUIRE_NUMBER !== 'false';
+const PASSWORD_REQUIRE_SYMBOL = process.env.PASSWORD_REQUIRE_SYMBOL === 'true';
+
+const COMMON_PASSWORDS = new Set<string>(commonPasswords);
 
 /**
  * Hash a password
@@ -22,15 +36,81 @@ export const verifyPassword = async (password: string, hash: string): Promise<bo
 };
 
 /**
- * Generate a temporary password
- * @param length - Password length (default: 12)
+ * Check whether a hash was made with a different cost than the current one
+ * @param hash - Hashed password
+ * @returns boolean
+ */
+export const needsRehash = (hash: string): boolean => {
+  try {
+    return bcrypt.getRounds(hash) !== SALT_ROUNDS;
+  } catch (error) {
+    return true;
+  }
+};
+
+/**
+ * Check a new password against the password policy
+ * @param password - Plain text password
+ * @returns Messages for every rule the password breaks (empty when it is allowed)
+ */
+export const getPasswordPolicyErrors = (password: string): string[] => {
+  const errors: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+
+  if (Buffer.byteLength(password) > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+
+  if (PASSWORD_REQUIRE_LOWERCASE && !/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+
+  if (PASSWORD_REQUIRE_UPPERCASE && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+
+  if (PASSWORD_REQUIRE_NUMBER && !/[0-9]/.test(password)) {
+    errors.push('Password must contain a number');
+  }
+
+  if (PASSWORD_REQUIRE_SYMBOL && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain a symbol');
+  }
+
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    errors.push('This password is too common. Please choose a different one');
+  }
+
+  return errors;
+};
+
+/**
+ * Generate a temporary password that satisfies the password policy
+ * @param length - Password length (default: 16)
  * @returns Random password
  */
-export const generateTemporaryPassword = (length: number = 12): string => {
-  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-  let password = '';
-  for (let i = 0; i < length; i++) {
-    password += charset.charAt(Math.floor(Math.random() * charset.length));
+export const generateTemporaryPassword = (length: number = 16): string => {
+  const lowercase = 'abcdefghijkmnopqrstuvwxyz';
+  const uppercase = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+  const numbers = '23456789';
+  const symbols = '!@#$%^&*';
+  const charset = lowercase + uppercase + numbers + symbols;
+
+  const pick = (chars: string) => chars.charAt(crypto.randomInt(chars.length));
+
+  // One character from every class, the rest from the full set, then shuffled
+  const characters = [pick(lowercase), pick(uppercase), pick(numbers), pick(symbols)];
+  while (characters.length < length) {
+    characters.push(pick(charset));
+  }
+
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [characters[i], characters[j]] = [characters[j], characters[i]];
   }
-  return password;
+
+  return characters.join('');
 };
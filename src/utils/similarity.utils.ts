@@ -0,0 +1,90 @@
+// Words that do not tell two company names apart
+const COMPANY_NAME_STOPWORDS = new Set([
+  'the', 'and', 'pvt', 'private', 'ltd', 'limited', 'co', 'company', 'inc', 'corp',
+  'corporation', 'llc', 'plc', 'group', 'nepal', 'p', 'l'
+]);
+
+// Free mailbox providers; sharing one says nothing about two businesses being related
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.in', 'hotmail.com', 'outlook.com',
+  'live.com', 'msn.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com',
+  'gmx.com', 'mail.com', 'yandex.com', 'zoho.com'
+]);
+
+/**
+ * Normalize a company name for comparison
+ * Lowercases, drops punctuation and legal suffixes such as "Pvt. Ltd."
+ * @param name - Company name
+ * @returns Normalized name
+ */
+export const normalizeCompanyName = (name: string): string => {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !COMPANY_NAME_STOPWORDS.has(word))
+    .join(' ');
+};
+
+/**
+ * Normalize a phone number to its last 10 digits (drops +977 and formatting)
+ * @param phone - Phone number as entered
+ * @returns Digits only
+ */
+export const normalizePhoneNumber = (phone: string): string => {
+  return phone.replace(/\D/g, '').slice(-10);
+};
+
+/**
+ * Normalize an official identifier such as a registration or PAN number
+ * @param value - Identifier as entered
+ * @returns Uppercase letters and digits only
+ */
+export const normalizeIdentifier = (value: string): string => {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+/**
+ * Get the domain of an email address unless it belongs to a free mailbox provider
+ * @param email - Email address
+ * @returns Lowercase domain, or null for free providers
+ */
+export const getCompanyEmailDomain = (email: string): string | null => {
+  const domain = email.toLowerCase().split('@')[1];
+
+  if (!domain || FREE_EMAIL_DOMAINS.has(domain)) {
+    return null;
+  }
+
+  return domain;
+};
+
+/**
+ * Similarity of two strings (Sørensen–Dice coefficient over character pairs)
+ * Empty strings match nothing, so names made only of stopwords never count as the same
+ * @returns 1 for identical strings, 0 for nothing in common
+ */
+export const stringSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const pair = a.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2);
+    const count = pairs.get(pair) || 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length - 2);
+};
@@ -30,3 +30,13 @@ export const isTokenExpired = (expiresAt: Date | null): boolean => {
   if (!expiresAt) return true;
   return new Date() > expiresAt;
 };
+
+/**
+ * Hash a token for storage
+ * Only the hash is persisted so a leaked database row cannot be replayed
+ * @param token - Plain token string
+ * @returns SHA-256 hex digest
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238) compatible with authenticator apps
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+
+// Accept codes from one step before/after to tolerate clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, '0');
+};
+
+const getCurrentTimeStep = (): number => Math.floor(Date.now() / 1000 / TIME_STEP_SECONDS);
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32 encoded secret (160 bits)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Verify a TOTP code
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param lastUsedStep - Time step of the last accepted code, to prevent replay
+ * @returns The matching time step, or null if the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, lastUsedStep?: number | null): number | null => {
+  const normalizedCode = code.replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalizedCode) || normalizedCode.length !== CODE_DIGITS) {
+    return null;
+  }
+
+  const secretBuffer = base32Decode(secret);
+  const currentStep = getCurrentTimeStep();
+
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+
+    if (lastUsedStep !== null && lastUsedStep !== undefined && step <= lastUsedStep) {
+      continue;
+    }
+
+    const expected = generateHotp(secretBuffer, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalizedCode))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build an otpauth:// URI for QR codes in authenticator apps
+ * @param secret - Base32 encoded secret
+ * @param accountName - Usually the user's email
+ * @param issuer - Name shown in the authenticator app
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: CODE_DIGITS.toString(),
+    period: TIME_STEP_SECONDS.toString()
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,25 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.config';
+
+const MAX_SERIALIZATION_RETRIES = 3;
+
+/**
+ * Run a check-then-write transaction at serializable isolation
+ * When a concurrent transaction invalidates what was read, the database aborts one of them;
+ * it is retried so the checks run again against the new state
+ */
+export const runSerializableTransaction = async <T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      const isSerializationFailure = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+
+      if (!isSerializationFailure || attempt >= MAX_SERIALIZATION_RETRIES) {
+        throw error;
+      }
+    }
+  }
+};
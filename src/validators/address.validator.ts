@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { findProvince, resolveNepalAddress } from '../utils/address.utils';
+
+// Pokhara has the most wards of any local level (33)
+const MAX_WARD_NUMBER = 33;
+
+/**
+ * Ward number sent as a form field (multipart bodies are strings)
+ */
+export const wardNumberFieldSchema = z.string()
+  .regex(/^\d{1,2}$/, 'Ward number must be a number')
+  .refine(value => Number(value) >= 1 && Number(value) <= MAX_WARD_NUMBER, 'Invalid ward number')
+  .optional()
+  .or(z.literal(''));
+
+/**
+ * Ward number sent as JSON
+ */
+export const wardNumberSchema = z.number()
+  .int('Ward number must be an integer')
+  .min(1, 'Invalid ward number')
+  .max(MAX_WARD_NUMBER, 'Invalid ward number');
+
+/**
+ * Check province, district and municipality against the Nepal reference data
+ * Use with superRefine on schemas that contain these fields (shared by registration and profile updates)
+ * @param municipalityField - Field holding the municipality ("city" on the registration form)
+ * @param requireDistrict - Reject a province or municipality sent without a district
+ */
+export const refineNepalAddress = (municipalityField: 'city' | 'municipality', requireDistrict: boolean) =>
+  (data: { province?: string; district?: string; city?: string; municipality?: string }, ctx: z.RefinementCtx) => {
+    const municipality = data[municipalityField];
+
+    if (!data.district) {
+      if (requireDistrict && (data.province || municipality)) {
+        ctx.addIssue({ code: 'custom', path: ['district'], message: 'District is required when setting the province or municipality' });
+      } else if (data.province && !findProvince(data.province)) {
+        ctx.addIssue({ code: 'custom', path: ['province'], message: `Unknown province: ${data.province}` });
+      }
+      return;
+    }
+
+    const { errors } = resolveNepalAddress({
+      province: data.province,
+      district: data.district,
+      municipality
+    });
+
+    for (const error of errors) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [error.field === 'municipality' ? municipalityField : error.field],
+        message: error.message
+      });
+    }
+  };
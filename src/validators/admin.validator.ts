@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+/**
+ * List admins validation
+ */
+export const listAdminsSchema = z.object({
+  query: z.object({
+    isActive: z.enum(['true', 'false']).optional()
+  })
+});
+
+/**
+ * Invite admin validation
+ */
+export const inviteAdminSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+      .max(255, 'Email is too long'),
+    username: z.string()
+      .min(2, 'Name must be at least 2 characters')
+      .max(100, 'Name is too long'),
+    roleId: z.string().uuid('Invalid role ID')
+  })
+});
+
+/**
+ * Admin ID param validation (deactivate, reactivate, resend invitation)
+ */
+export const adminIdSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid admin ID')
+  })
+});
+
+/**
+ * Update admin role validation
+ */
+export const updateAdminRoleSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid admin ID')
+  }),
+  body: z.object({
+    roleId: z.string().uuid('Invalid role ID')
+  })
+});
+
+/**
+ * List audit logs validation
+ */
+export const listAuditLogsSchema = z.object({
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+    adminId: z.string().uuid('Invalid admin ID').optional(),
+    targetType: z.string().max(50).optional(),
+    targetId: z.string().uuid('Invalid target ID').optional(),
+    action: z.string().max(100).optional()
+  })
+});
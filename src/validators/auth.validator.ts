@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { newPasswordSchema } from './password.validator';
 
 /**
  * Login validation schema
@@ -12,3 +13,185 @@ export const loginSchema = z.object({
       .min(1, 'Password is required')
   })
 });
+
+/**
+ * Refresh token validation schema (refresh and logout)
+ */
+export const refreshTokenSchema = z.object({
+  body: z.object({
+    refreshToken: z.string()
+      .min(64, 'Invalid refresh token')
+      .max(64, 'Invalid refresh token')
+  })
+});
+
+/**
+ * Forgot password validation schema
+ */
+export const forgotPasswordSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+      .toLowerCase()
+  })
+});
+
+/**
+ * Reset password validation schema
+ */
+export const resetPasswordSchema = z.object({
+  body: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format'),
+    password: newPasswordSchema
+  })
+});
+
+/**
+ * Unlock account with emailed token
+ */
+export const unlockAccountSchema = z.object({
+  body: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format')
+  })
+});
+
+/**
+ * Unlock account (Admin)
+ */
+export const adminUnlockAccountSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid account ID')
+  }),
+  body: z.object({
+    role: z.enum(['ADMIN', 'BUSINESS', 'INVESTOR'])
+  })
+});
+
+/**
+ * Second login step with a TOTP or recovery code
+ */
+export const verifyTwoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: z.string()
+      .min(64, 'Invalid challenge token')
+      .max(64, 'Invalid challenge token'),
+    code: z.string()
+      .min(6, 'Verification code is required')
+      .max(20, 'Invalid verification code')
+  })
+});
+
+/**
+ * Two-factor code (enable, regenerate recovery codes)
+ */
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: z.string()
+      .min(6, 'Verification code is required')
+      .max(20, 'Invalid verification code')
+  })
+});
+
+/**
+ * Disable two-factor authentication
+ */
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string()
+      .min(1, 'Password is required'),
+    code: z.string()
+      .min(6, 'Verification code is required')
+      .max(20, 'Invalid verification code')
+  })
+});
+
+/**
+ * Validate team invitation token
+ */
+export const invitationTokenSchema = z.object({
+  params: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format')
+  })
+});
+
+/**
+ * Accept team invitation
+ */
+export const acceptInvitationSchema = z.object({
+  body: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format'),
+    password: newPasswordSchema
+  })
+});
+
+/**
+ * Revoke a single session
+ */
+export const revokeSessionSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid session ID')
+  })
+});
+
+/**
+ * Revoke all sessions
+ */
+export const revokeAllSessionsSchema = z.object({
+  query: z.object({
+    includeCurrent: z.enum(['true', 'false']).optional()
+  })
+});
+
+/**
+ * Confirm email change with emailed token
+ */
+export const confirmEmailChangeSchema = z.object({
+  body: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format')
+  })
+});
+
+/**
+ * Request magic login link validation
+ */
+export const requestMagicLinkSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+  })
+});
+
+/**
+ * Magic link login validation
+ */
+export const verifyMagicLinkSchema = z.object({
+  body: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format')
+  })
+});
+
+/**
+ * OIDC callback validation
+ */
+export const oidcCallbackSchema = z.object({
+  body: z.object({
+    code: z.string()
+      .min(1, 'Authorization code is required')
+      .max(2048, 'Authorization code is too long'),
+    state: z.string()
+      .min(64, 'Invalid state')
+      .max(64, 'Invalid state')
+  })
+});
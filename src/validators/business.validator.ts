@@ -23,22 +23,126 @@ export const rejectBusinessSchema = z.object({
   })
 });
 
+/**
+ * Phase 4: Assign a business review to a reviewer (null to unassign)
+ */
+export const assignBusinessReviewSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid business ID')
+  }),
+  body: z.object({
+    assigneeId: z.string().uuid('Invalid assignee ID').nullable()
+  })
+});
+
+/**
+ * Review history of a business (Admin)
+ */
+export const businessReviewRoundsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid business ID')
+  })
+});
+
+/**
+ * Verification checklist of a business (Admin)
+ */
+export const getVerificationChecklistSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid business ID')
+  })
+});
+
+/**
+ * Record a verification check, or whether it is required for this business (Admin)
+ * required: null restores the default from the verification config
+ */
+export const updateVerificationCheckSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid business ID'),
+    item: z.enum(['REGISTRATION_CERTIFICATE', 'PAN_CERTIFICATE', 'CONTACT_PHONE', 'FINANCIAL_DOCUMENTS'])
+  }),
+  body: z.object({
+    status: z.enum(['PENDING', 'PASSED', 'FAILED']).optional(),
+    notes: z.string().max(1000, 'Notes too long').nullable().optional(),
+    required: z.boolean().nullable().optional()
+  }).refine(
+    data => data.status !== undefined || data.notes !== undefined || data.required !== undefined,
+    'Provide a status, notes or whether the check is required'
+  )
+});
+
 /**
  * Query filters for listing pending businesses
  */
 export const listPendingBusinessesSchema = z.object({
   query: z.object({
+    assignee: z.union([z.enum(['me', 'unassigned']), z.string().uuid('Invalid assignee ID')]).optional(),
+    overdue: z.enum(['true', 'false']).optional(),
     page: z.string().regex(/^\d+$/).transform(Number).optional(),
     limit: z.string().regex(/^\d+$/).transform(Number).optional()
   })
 });
 
+const categoryIdParamSchema = z.object({
+  categoryId: z.string().regex(/^\d+$/, 'Invalid category ID')
+});
+
+const categorySlugSchema = z.string()
+  .min(1)
+  .max(100)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens');
+
+/**
+ * Create a category; parentId makes it a subcategory (Admin)
+ */
+export const createCategorySchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(2, 'Category name must be at least 2 characters').max(100),
+    slug: categorySlugSchema.optional(),
+    description: z.string().max(1000).nullable().optional(),
+    parentId: z.number().int().positive().nullable().optional()
+  })
+});
+
+/**
+ * Update a category; parentId null moves it to the top level (Admin)
+ */
+export const updateCategorySchema = z.object({
+  params: categoryIdParamSchema,
+  body: z.object({
+    name: z.string().trim().min(2, 'Category name must be at least 2 characters').max(100).optional(),
+    slug: categorySlugSchema.optional(),
+    description: z.string().max(1000).nullable().optional(),
+    parentId: z.number().int().positive().nullable().optional()
+  })
+});
+
+/**
+ * Delete an unused category (Admin)
+ */
+export const deleteCategorySchema = z.object({
+  params: categoryIdParamSchema
+});
+
+/**
+ * Merge a duplicate category into another (Admin)
+ */
+export const mergeCategoriesSchema = z.object({
+  params: categoryIdParamSchema,
+  body: z.object({
+    targetCategoryId: z.number().int().positive('Invalid target category ID')
+  })
+});
+
 /**
  * Query filters for listing approved businesses (Public)
  */
 export const listApprovedBusinessesSchema = z.object({
   query: z.object({
-    categoryId: z.string().uuid('Invalid category ID').optional(),
+    categoryId: z.string().regex(/^\d+$/, 'Invalid category ID').optional(),
+    province: z.string().max(50).optional(),
+    district: z.string().max(50).optional(),
     page: z.string().regex(/^\d+$/).transform(Number).optional(),
     limit: z.string().regex(/^\d+$/).transform(Number).optional()
   })
@@ -58,6 +162,8 @@ export const getBusinessByIdSchema = z.object({
  */
 export const listAllBusinessesForAdminSchema = z.object({
   query: z.object({
+    province: z.string().max(50).optional(),
+    district: z.string().max(50).optional(),
     page: z.string().regex(/^\d+$/).transform(Number).optional(),
     limit: z.string().regex(/^\d+$/).transform(Number).optional()
   })
@@ -143,3 +249,17 @@ export const rejectRemovalRequestSchema = z.object({
     id: z.string().uuid('Invalid request ID')
   })
 });
+
+/**
+ * Start impersonation validation
+ */
+export const startImpersonationSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid business ID')
+  }),
+  body: z.object({
+    reason: z.string()
+      .min(5, 'Please give a reason of at least 5 characters')
+      .max(500, 'Reason is too long')
+  })
+});
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { newPasswordSchema } from './password.validator';
+import { refineNepalAddress, wardNumberSchema } from './address.validator';
+import { ALL_API_KEY_SCOPES } from '../config/permissions.config';
 
 /**
  * Update business profile validation
@@ -26,6 +29,17 @@ export const updateBusinessProfileSchema = z.object({
     location: z.string()
       .max(100, 'Location is too long')
       .optional(),
+    // Structured address; location is rebuilt from it when a district is sent
+    province: z.string()
+      .max(50, 'Province is too long')
+      .optional(),
+    district: z.string()
+      .max(50, 'District is too long')
+      .optional(),
+    municipality: z.string()
+      .max(100, 'Municipality is too long')
+      .optional(),
+    wardNumber: wardNumberSchema.nullable().optional(),
     address: z.string()
       .max(255, 'Address is too long')
       .optional(),
@@ -112,7 +126,7 @@ export const updateBusinessProfileSchema = z.object({
       message: 'Minimum investment units cannot be greater than maximum',
       path: ['minimumInvestmentUnits']
     }
-  )
+  ).superRefine(refineNepalAddress('municipality', true))
 });
 
 /**
@@ -132,9 +146,20 @@ export const changePasswordSchema = z.object({
   body: z.object({
     currentPassword: z.string()
       .min(1, 'Current password is required'),
-    newPassword: z.string()
-      .min(8, 'New password must be at least 8 characters')
-      .max(100, 'Password is too long')
+    newPassword: newPasswordSchema
+  })
+});
+
+/**
+ * Change login email validation
+ */
+export const changeEmailSchema = z.object({
+  body: z.object({
+    currentPassword: z.string()
+      .min(1, 'Current password is required'),
+    newEmail: z.string()
+      .email('Invalid email address')
+      .max(255, 'Email is too long')
   })
 });
 
@@ -148,3 +173,67 @@ export const requestRemovalSchema = z.object({
       .optional()
   })
 });
+
+/**
+ * Invite team member validation
+ */
+export const inviteMemberSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+      .max(255, 'Email is too long'),
+    role: z.enum(['EDITOR', 'VIEWER'])
+  })
+});
+
+/**
+ * Update team member role validation
+ */
+export const updateMemberRoleSchema = z.object({
+  params: z.object({
+    memberId: z.string().uuid('Invalid member ID')
+  }),
+  body: z.object({
+    role: z.enum(['EDITOR', 'VIEWER'])
+  })
+});
+
+/**
+ * Remove team member validation
+ */
+export const removeMemberSchema = z.object({
+  params: z.object({
+    memberId: z.string().uuid('Invalid member ID')
+  })
+});
+
+/**
+ * Revoke team invitation validation
+ */
+export const revokeInvitationSchema = z.object({
+  params: z.object({
+    invitationId: z.string().uuid('Invalid invitation ID')
+  })
+});
+
+/**
+ * Create API key validation
+ */
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z.string()
+      .min(1, 'Key name is required')
+      .max(100, 'Key name is too long'),
+    scopes: z.array(z.enum(ALL_API_KEY_SCOPES as [string, ...string[]]))
+      .min(1, 'Select at least one scope')
+  })
+});
+
+/**
+ * API key ID param validation (rotate, revoke)
+ */
+export const apiKeyIdSchema = z.object({
+  params: z.object({
+    keyId: z.string().uuid('Invalid API key ID')
+  })
+});
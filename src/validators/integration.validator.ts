@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+/**
+ * Push a lead from a business's own systems
+ */
+export const createIntegrationInterestSchema = z.object({
+  body: z.object({
+    investorName: z.string()
+      .min(2, 'Name must be at least 2 characters')
+      .max(100, 'Name is too long'),
+    phoneNumber: z.string()
+      .min(1, 'Phone number is required')
+      .max(20, 'Phone number is too long'),
+    email: z.string()
+      .email('Invalid email address')
+      .max(255, 'Email is too long'),
+    message: z.string()
+      .max(1000, 'Message is too long')
+      .optional(),
+    hasConsent: z.boolean()
+      .default(true),
+    source: z.string()
+      .max(100, 'Source name is too long')
+      .optional()
+  })
+});
+
+/**
+ * List own interests
+ */
+export const listIntegrationInterestsSchema = z.object({
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+    status: z.enum(['NOT_CONTACTED', 'INTERESTED', 'NOT_INTERESTED']).optional(),
+    source: z.string().optional()
+  })
+});
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { newPasswordSchema } from './password.validator';
+
+/**
+ * Investor registration validation
+ */
+export const registerInvestorSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+      .max(255, 'Email is too long'),
+    password: newPasswordSchema,
+    fullName: z.string()
+      .min(2, 'Name must be at least 2 characters')
+      .max(100, 'Name is too long'),
+    phoneNumber: z.string()
+      .min(1, 'Phone number is required')
+      .max(20, 'Phone number is too long')
+  })
+});
+
+/**
+ * Email verification validation
+ */
+export const verifyInvestorEmailSchema = z.object({
+  body: z.object({
+    token: z.string()
+      .min(64, 'Invalid token format')
+      .max(64, 'Invalid token format')
+  })
+});
+
+/**
+ * Resend verification validation
+ */
+export const resendVerificationSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+  })
+});
+
+/**
+ * Update investor profile validation
+ */
+export const updateInvestorProfileSchema = z.object({
+  body: z.object({
+    fullName: z.string()
+      .min(2, 'Name must be at least 2 characters')
+      .max(100, 'Name is too long')
+      .optional(),
+    phoneNumber: z.string()
+      .min(1, 'Phone number is required')
+      .max(20, 'Phone number is too long')
+      .optional()
+  })
+});
+
+/**
+ * List own inquiries validation
+ */
+export const listInvestorInterestsSchema = z.object({
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional()
+  })
+});
+
+/**
+ * Submit interest as a logged-in investor
+ * Contact details come from the investor's profile
+ */
+export const submitInvestorInterestSchema = z.object({
+  body: z.object({
+    businessId: z.string().uuid('Invalid business ID'),
+    message: z.string()
+      .max(1000, 'Message is too long')
+      .optional(),
+    hasConsent: z.boolean()
+      .default(true)
+  })
+});
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { newPasswordSchema } from './password.validator';
+import { refineNepalAddress, wardNumberFieldSchema } from './address.validator';
 
 /**
  * Phase 1: Initial inquiry submission
@@ -15,6 +17,12 @@ export const createOnboardingRequestSchema = z.object({
       .regex(/^[0-9+\-\s()]+$/, 'Invalid phone number format')
       .min(10, 'Phone number too short')
       .max(20, 'Phone number too long'),
+    registrationNumber: z.string()
+      .max(100, 'Registration number too long')
+      .optional(),
+    panNumber: z.string()
+      .max(50, 'PAN number too long')
+      .optional(),
     message: z.string()
       .max(1000, 'Message too long')
       .optional()
@@ -44,6 +52,115 @@ export const rejectOnboardingRequestSchema = z.object({
   })
 });
 
+/**
+ * Phase 2: Assign a request to a reviewer (null to unassign)
+ */
+export const assignOnboardingRequestSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  }),
+  body: z.object({
+    assigneeId: z.string().uuid('Invalid assignee ID').nullable()
+  })
+});
+
+/**
+ * Phase 2: Mark request as contacted
+ * A contact note can be logged in the same call
+ */
+export const markContactedSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  }),
+  body: z.object({
+    method: z.enum(['CALL', 'MEETING', 'EMAIL', 'OTHER']).optional(),
+    note: z.string()
+      .min(1, 'Note cannot be empty')
+      .max(2000, 'Note too long')
+      .optional(),
+    contactedAt: z.string().datetime('Invalid date').optional()
+  }).optional()
+});
+
+/**
+ * Phase 2: Contact note
+ */
+export const addContactNoteSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  }),
+  body: z.object({
+    method: z.enum(['CALL', 'MEETING', 'EMAIL', 'OTHER']),
+    note: z.string()
+      .min(1, 'Note cannot be empty')
+      .max(2000, 'Note too long'),
+    contactedAt: z.string().datetime('Invalid date').optional()
+  })
+});
+
+/**
+ * Phase 2: Re-check a request for possible duplicates
+ */
+export const scanDuplicatesSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  })
+});
+
+/**
+ * Phase 2: Dismiss a possible duplicate
+ */
+export const dismissDuplicateSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID'),
+    matchId: z.string().uuid('Invalid match ID')
+  })
+});
+
+/**
+ * Phase 2: Link two requests from the same company
+ */
+export const linkOnboardingRequestsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  }),
+  body: z.object({
+    relatedRequestId: z.string().uuid('Invalid request ID')
+  })
+});
+
+/**
+ * Phase 2: Merge a duplicate request into another
+ */
+export const mergeOnboardingRequestSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  }),
+  body: z.object({
+    targetRequestId: z.string().uuid('Invalid request ID')
+  })
+});
+
+/**
+ * Phase 2: Admin re-issues an unused registration link
+ */
+export const regenerateRegistrationLinkSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid request ID')
+  })
+});
+
+/**
+ * Phase 3: Business asks for a new link after the old one expired
+ */
+export const requestNewRegistrationLinkSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email address')
+      .toLowerCase()
+  })
+});
+
 /**
  * Phase 3: Token validation
  */
@@ -56,60 +173,193 @@ export const validateTokenSchema = z.object({
 });
 
 /**
- * Phase 3: Complete registration
+ * Phase 3: Business fields of the registration form
+ * Shared by the one-shot registration and the saved drafts
  * Updated to match Register.tsx frontend field names
  */
+export const registrationFieldsSchema = z.object({
+  // Company Information (Required)
+  companyName: z.string().min(2, 'Company name must be at least 2 characters').max(255),
+  registrationNumber: z.string().min(1, 'Registration number is required').max(100),
+  industry: z.string().min(1, 'Industry is required').max(100),
+
+  // Company Information (Optional)
+  panNumber: z.string().max(50).optional().or(z.literal('')),
+  foundedYear: z.string().max(4).optional().or(z.literal('')),
+  companySize: z.string().max(50).optional().or(z.literal('')),
+
+  // Contact Information (Required)
+  email: z.string().email('Invalid email address').toLowerCase(),
+  phone: z.string().min(10, 'Phone number must be at least 10 characters').max(20),
+  address: z.string().min(1, 'Street address is required').max(255),
+  city: z.string().min(1, 'City is required').max(100),
+  district: z.string().min(1, 'District is required').max(100),
+
+  // Contact Information (Optional)
+  province: z.string().max(50).optional().or(z.literal('')),
+  wardNumber: wardNumberFieldSchema,
+  website: z.string().optional(),
+
+  // Business Details (Required)
+  description: z.string().min(10, 'Description must be at least 10 characters').max(2000),
+
+  // Business Details (Optional)
+  vision: z.string().max(1000, 'Vision is too long').optional(),
+  mission: z.string().max(1000, 'Mission is too long').optional(),
+  fundingStage: z.string().optional(),
+  investmentSought: z.string().optional(),
+  useOfFunds: z.string().optional(),
+  revenueModel: z.string().optional(),
+  promoterProfile: z.string().optional(),
+
+  // Investment Parameters (Optional)
+  paidUpCapital: z.string().optional(),
+  minimumInvestmentUnits: z.string().optional(),
+  maximumInvestmentUnits: z.string().optional(),
+  pricePerUnit: z.string().optional(),
+  expectedReturnOptions: z.string().optional(),
+  estimatedMarketValuation: z.string().optional(),
+  ipoTimeHorizon: z.string().optional(),
+
+  // Social Media (Optional)
+  linkedin: z.string().optional(),
+  facebook: z.string().optional(),
+  twitter: z.string().optional(),
+  instagram: z.string().optional()
+}).strip(); // Strip unknown fields like confirmPassword and acceptTerms (frontend-only validation)
+
+/**
+ * Phase 3: Registration form fields with the address checked against the Nepal reference data
+ * ("city" is the municipality)
+ */
+export const registrationDetailsSchema = registrationFieldsSchema.superRefine(refineNepalAddress('city', false));
+
+/**
+ * Phase 3: Complete registration
+ */
 export const completeRegistrationSchema = z.object({
-  body: z.object({
+  body: registrationFieldsSchema.extend({
     // Authentication
     token: z.string().min(64).max(64),
-    password: z.string()
-      .min(8, 'Password must be at least 8 characters'),
-
-    // Company Information (Required)
-    companyName: z.string().min(2, 'Company name must be at least 2 characters').max(255),
-    registrationNumber: z.string().min(1, 'Registration number is required').max(100),
-    industry: z.string().min(1, 'Industry is required').max(100),
-
-    // Company Information (Optional)
-    panNumber: z.string().max(50).optional().or(z.literal('')),
-    foundedYear: z.string().max(4).optional().or(z.literal('')),
-    companySize: z.string().max(50).optional().or(z.literal('')),
-
-    // Contact Information (Required)
-    email: z.string().email('Invalid email address').toLowerCase(),
-    phone: z.string().min(10, 'Phone number must be at least 10 characters').max(20),
-    address: z.string().min(1, 'Street address is required').max(255),
-    city: z.string().min(1, 'City is required').max(100),
-    district: z.string().min(1, 'District is required').max(100),
-
-    // Contact Information (Optional)
-    website: z.string().optional(),
-
-    // Business Details (Required)
-    description: z.string().min(10, 'Description must be at least 10 characters').max(2000),
-
-    // Business Details (Optional)
-    vision: z.string().max(1000, 'Vision is too long').optional(),
-    mission: z.string().max(1000, 'Mission is too long').optional(),
-    fundingStage: z.string().optional(),
-    investmentSought: z.string().optional(),
-    useOfFunds: z.string().optional(),
-    revenueModel: z.string().optional(),
-
-    // Investment Parameters (Optional)
-    minimumInvestmentUnits: z.string().optional(),
-    maximumInvestmentUnits: z.string().optional(),
-    pricePerUnit: z.string().optional(),
-    expectedReturnOptions: z.string().optional(),
-    estimatedMarketValuation: z.string().optional(),
-    ipoTimeHorizon: z.string().optional(),
-
-    // Social Media (Optional)
-    linkedin: z.string().optional(),
-    facebook: z.string().optional(),
-    twitter: z.string().optional()
-  }).strip() // Strip unknown fields like confirmPassword and acceptTerms (frontend-only validation)
+    password: newPasswordSchema
+  }).superRefine(refineNepalAddress('city', false))
+});
+
+/**
+ * Phase 3: Registration form steps and the fields each one saves
+ * Every field is optional while drafting; required fields are checked on submit
+ */
+export const registrationStepSchemas = {
+  company: registrationFieldsSchema.pick({
+    companyName: true,
+    registrationNumber: true,
+    industry: true,
+    panNumber: true,
+    foundedYear: true,
+    companySize: true
+  }).partial(),
+  contact: registrationFieldsSchema.pick({
+    email: true,
+    phone: true,
+    address: true,
+    city: true,
+    district: true,
+    province: true,
+    wardNumber: true,
+    website: true,
+    linkedin: true,
+    facebook: true,
+    twitter: true,
+    instagram: true
+  }).partial().superRefine(refineNepalAddress('city', false)),
+  details: registrationFieldsSchema.pick({
+    description: true,
+    vision: true,
+    mission: true,
+    fundingStage: true,
+    investmentSought: true,
+    useOfFunds: true,
+    revenueModel: true,
+    promoterProfile: true
+  }).partial(),
+  investment: registrationFieldsSchema.pick({
+    paidUpCapital: true,
+    minimumInvestmentUnits: true,
+    maximumInvestmentUnits: true,
+    pricePerUnit: true,
+    expectedReturnOptions: true,
+    estimatedMarketValuation: true,
+    ipoTimeHorizon: true
+  }).partial()
+};
+
+export type RegistrationStep = keyof typeof registrationStepSchemas;
+
+const registrationDraftParams = z.object({
+  token: z.string()
+    .min(64, 'Invalid token format')
+    .max(64, 'Invalid token format')
+});
+
+/**
+ * Phase 3: Load a registration draft
+ */
+export const getRegistrationDraftSchema = z.object({
+  params: registrationDraftParams
+});
+
+/**
+ * Phase 3: Save one step of a registration draft
+ */
+export const saveRegistrationDraftStepSchema = z.object({
+  params: registrationDraftParams.extend({
+    step: z.enum(['company', 'contact', 'details', 'investment'])
+  }),
+  body: registrationFieldsSchema.partial().superRefine(refineNepalAddress('city', false))
+});
+
+/**
+ * Phase 3: Remove an uploaded file from a registration draft
+ */
+export const deleteRegistrationDraftFileSchema = z.object({
+  params: registrationDraftParams.extend({
+    fileId: z.string().uuid('Invalid file ID')
+  })
+});
+
+/**
+ * Phase 3: Complete registration from a saved draft
+ */
+export const submitRegistrationDraftSchema = z.object({
+  params: registrationDraftParams,
+  body: z.object({
+    password: newPasswordSchema
+  })
+});
+
+/**
+ * Invite a business directly with a pre-approved request (Admin)
+ * prefill holds registration form values to fill in for the business
+ */
+export const inviteBusinessSchema = z.object({
+  body: createOnboardingRequestSchema.shape.body.extend({
+    prefill: registrationFieldsSchema.partial().optional()
+  })
+});
+
+/**
+ * Query filters for listing business invitations
+ */
+export const listBusinessInvitationsSchema = z.object({
+  query: z.object({
+    invitedBy: z.union([z.literal('me'), z.string().uuid('Invalid admin ID')]).optional(),
+    stage: z.enum(['SENT', 'OPENED', 'REGISTERED', 'APPROVED']).optional(),
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    // Each invitation loads its inviter and business, so keep pages small
+    limit: z.string().regex(/^\d+$/).transform(Number)
+      .pipe(z.number().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100'))
+      .optional()
+  })
 });
 
 /**
@@ -117,8 +367,20 @@ export const completeRegistrationSchema = z.object({
  */
 export const listOnboardingRequestsSchema = z.object({
   query: z.object({
-    status: z.enum(['PENDING', 'CONTACTED', 'APPROVED', 'REJECTED']).optional(),
+    status: z.enum(['PENDING', 'CONTACTED', 'APPROVED', 'REJECTED', 'MERGED']).optional(),
+    flagged: z.enum(['true', 'false']).optional(),
+    assignee: z.union([z.enum(['me', 'unassigned']), z.string().uuid('Invalid assignee ID')]).optional(),
+    overdue: z.enum(['true', 'false']).optional(),
     page: z.string().regex(/^\d+$/).transform(Number).optional(),
     limit: z.string().regex(/^\d+$/).transform(Number).optional()
   })
 });
+
+/**
+ * Query options for review queue metrics
+ */
+export const reviewMetricsSchema = z.object({
+  query: z.object({
+    olderThanDays: z.string().regex(/^\d+$/).transform(Number).optional()
+  })
+});
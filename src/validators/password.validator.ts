@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { getPasswordPolicyErrors } from '../utils/password.utils';
+
+/**
+ * New password validation (shared by every form that sets a password)
+ * Rules are configured in password.utils
+ */
+export const newPasswordSchema = z.string()
+  .superRefine((password, ctx) => {
+    for (const message of getPasswordPolicyErrors(password)) {
+      ctx.addIssue({ code: 'custom', message });
+    }
+  });
@@ -0,0 +1,72 @@
+import { vi, Mock } from 'vitest';
+
+/**
+ * Stand-in for the shared Prisma client in unit tests
+ * Every model method is a vi.fn() that resolves to undefined until a test stubs it;
+ * interactive transactions run their callback against the same mock
+ */
+
+type ModelMock = Record<string, Mock>;
+
+export type PrismaMock = Record<string, ModelMock> & {
+  $transaction: Mock;
+};
+
+const MODEL_METHODS = [
+  'findUnique',
+  'findFirst',
+  'findMany',
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+  'count',
+  'aggregate',
+  'groupBy'
+];
+
+const models = new Map<string, ModelMock>();
+
+const createModelMock = (): ModelMock => {
+  return Object.fromEntries(MODEL_METHODS.map(method => [method, vi.fn()]));
+};
+
+const transaction = vi.fn();
+
+const runTransaction = (operations: unknown) => {
+  if (Array.isArray(operations)) {
+    return Promise.all(operations);
+  }
+
+  return (operations as (tx: PrismaMock) => unknown)(prismaMock);
+};
+
+export const prismaMock = new Proxy({} as PrismaMock, {
+  get: (_target, property) => {
+    if (property === '$transaction') {
+      return transaction;
+    }
+
+    if (typeof property !== 'string' || property.startsWith('$') || property === 'then') {
+      return undefined;
+    }
+
+    if (!models.has(property)) {
+      models.set(property, createModelMock());
+    }
+
+    return models.get(property);
+  }
+});
+
+/**
+ * Drop every stub so each test starts from an empty database
+ */
+export const resetPrismaMock = () => {
+  models.clear();
+  transaction.mockReset();
+  transaction.mockImplementation(runTransaction);
+};
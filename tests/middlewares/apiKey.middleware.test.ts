@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { prismaMock } from '../helpers/prismaMock';
+import { hashToken } from '../../src/utils/token.utils';
+import { API_KEY_SCOPES } from '../../src/config/permissions.config';
+import { authenticateWithApiKey, requireApiKeyScope } from '../../src/middlewares/apiKey.middleware';
+
+const requestWithKey = (key?: string) => ({
+  get: (header: string) => (header.toLowerCase() === 'x-api-key' ? key : undefined)
+}) as unknown as Request;
+
+const storedKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  businessId: 'business-1',
+  scopes: [API_KEY_SCOPES.INTERESTS_CREATE],
+  revokedAt: null,
+  lastUsedAt: new Date(),
+  business: { isActive: true },
+  ...overrides
+});
+
+const runAuthentication = async (req: Request) => {
+  const next = vi.fn();
+  await authenticateWithApiKey(req, {} as Response, next);
+  return next.mock.calls[0][0];
+};
+
+describe('apiKey.middleware', () => {
+  describe('authenticateWithApiKey', () => {
+    it('looks the key up by its hash and attaches its business and scopes', async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue(storedKey());
+      const req = requestWithKey('cbk_plain-key');
+
+      await expect(runAuthentication(req)).resolves.toBeUndefined();
+
+      expect(prismaMock.apiKey.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { keyHash: hashToken('cbk_plain-key') }
+      }));
+      expect(req.apiKey).toEqual({
+        id: 'key-1',
+        businessId: 'business-1',
+        scopes: [API_KEY_SCOPES.INTERESTS_CREATE]
+      });
+    });
+
+    it('rejects requests without a key', async () => {
+      await expect(runAuthentication(requestWithKey())).resolves.toMatchObject({
+        statusCode: 401,
+        message: 'API key required'
+      });
+    });
+
+    it('rejects unknown and revoked keys and keys of deactivated businesses', async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(null);
+      await expect(runAuthentication(requestWithKey('cbk_unknown'))).resolves.toMatchObject({ statusCode: 401 });
+
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(storedKey({ revokedAt: new Date() }));
+      await expect(runAuthentication(requestWithKey('cbk_revoked'))).resolves.toMatchObject({ statusCode: 401 });
+
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(storedKey({ business: { isActive: false } }));
+      await expect(runAuthentication(requestWithKey('cbk_inactive'))).resolves.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('requireApiKeyScope', () => {
+    const runScopeCheck = (apiKey: Request['apiKey']) => {
+      const next = vi.fn();
+      requireApiKeyScope(API_KEY_SCOPES.INTERESTS_READ)({ apiKey } as Request, {} as Response, next);
+      return next.mock.calls[0][0];
+    };
+
+    it('lets keys with the scope through', () => {
+      expect(runScopeCheck({ id: 'key-1', businessId: 'business-1', scopes: [API_KEY_SCOPES.INTERESTS_READ] }))
+        .toBeUndefined();
+    });
+
+    it('forbids keys without the scope', () => {
+      expect(runScopeCheck({ id: 'key-1', businessId: 'business-1', scopes: [API_KEY_SCOPES.INTERESTS_CREATE] }))
+        .toMatchObject({ statusCode: 403 });
+    });
+
+    it('requires an authenticated key', () => {
+      expect(runScopeCheck(undefined)).toMatchObject({ statusCode: 401 });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response } from 'express';
+import { signAccessToken } from '../../src/utils/jwt.utils';
+import { assertActiveSession } from '../../src/services/session.service';
+import { getAuthenticatedUser } from '../../src/services/account.service';
+import { authenticate, authenticateInvestor, requireBusinessRole } from '../../src/middlewares/auth.middleware';
+
+vi.mock('../../src/services/session.service', () => ({
+  assertActiveSession: vi.fn()
+}));
+
+vi.mock('../../src/services/account.service', () => ({
+  getAuthenticatedUser: vi.fn()
+}));
+
+const requestWithToken = (token?: string) => ({
+  headers: token ? { authorization: `Bearer ${token}` } : {},
+  method: 'GET'
+}) as unknown as Request;
+
+const run = async (
+  middleware: typeof authenticate,
+  req: Request
+) => {
+  const next = vi.fn();
+  await middleware(req, { setHeader: vi.fn() } as unknown as Response, next);
+  return next.mock.calls[0][0];
+};
+
+describe('auth.middleware', () => {
+  beforeEach(() => {
+    vi.mocked(getAuthenticatedUser).mockResolvedValue({
+      id: 'investor-1',
+      email: 'investor@example.com',
+      role: 'INVESTOR',
+      username: 'Investor',
+      twoFactorEnabled: false
+    } as never);
+  });
+
+  describe('authenticate', () => {
+    it('attaches the user of an active password session', async () => {
+      vi.mocked(assertActiveSession).mockResolvedValue({ loginMethod: 'PASSWORD', impersonation: undefined });
+      const req = requestWithToken(signAccessToken('investor-1', 'INVESTOR', 'session-1'));
+
+      await expect(run(authenticate, req)).resolves.toBeUndefined();
+
+      expect(assertActiveSession).toHaveBeenCalledWith('session-1', 'investor-1', 'INVESTOR');
+      expect(req.user).toMatchObject({ id: 'investor-1', sessionId: 'session-1', loginMethod: 'PASSWORD' });
+    });
+
+    it('rejects magic-link sessions', async () => {
+      vi.mocked(assertActiveSession).mockResolvedValue({ loginMethod: 'MAGIC_LINK', impersonation: undefined });
+      const req = requestWithToken(signAccessToken('investor-1', 'INVESTOR', 'session-1'));
+
+      await expect(run(authenticate, req)).resolves.toMatchObject({ statusCode: 403 });
+      expect(req.user).toBeUndefined();
+    });
+
+    it('rejects missing and tampered tokens', async () => {
+      await expect(run(authenticate, requestWithToken())).resolves.toMatchObject({ statusCode: 401 });
+
+      const token = signAccessToken('investor-1', 'INVESTOR', 'session-1');
+      await expect(run(authenticate, requestWithToken(`${token}x`))).resolves.toMatchObject({ statusCode: 401 });
+
+      expect(assertActiveSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticateInvestor', () => {
+    it('accepts magic-link sessions', async () => {
+      vi.mocked(assertActiveSession).mockResolvedValue({ loginMethod: 'MAGIC_LINK', impersonation: undefined });
+      const req = requestWithToken(signAccessToken('investor-1', 'INVESTOR', 'session-1'));
+
+      await expect(run(authenticateInvestor, req)).resolves.toBeUndefined();
+      expect(req.user).toMatchObject({ id: 'investor-1', loginMethod: 'MAGIC_LINK' });
+    });
+  });
+
+  describe('requireBusinessRole', () => {
+    const canEdit = requireBusinessRole('OWNER', 'EDITOR');
+
+    const runRoleCheck = (user: Request['user']) => {
+      const next = vi.fn();
+      canEdit({ user } as Request, {} as Response, next);
+      return next.mock.calls[0][0];
+    };
+
+    const member = (businessRole?: 'OWNER' | 'EDITOR' | 'VIEWER') => ({
+      id: 'login-1',
+      email: 'member@example.com',
+      role: 'BUSINESS' as const,
+      twoFactorEnabled: false,
+      sessionId: 'session-1',
+      loginMethod: 'PASSWORD' as const,
+      businessId: businessRole && 'business-1',
+      businessRole
+    });
+
+    it('lets owners and editors through', () => {
+      expect(runRoleCheck(member('OWNER'))).toBeUndefined();
+      expect(runRoleCheck(member('EDITOR'))).toBeUndefined();
+    });
+
+    it('forbids viewers', () => {
+      expect(runRoleCheck(member('VIEWER'))).toMatchObject({ statusCode: 403 });
+    });
+
+    it('requires a business', () => {
+      expect(runRoleCheck(member())).toMatchObject({ statusCode: 404 });
+      expect(runRoleCheck(undefined)).toMatchObject({ statusCode: 401 });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { prismaMock } from '../helpers/prismaMock';
+import { forbidImpersonation, tagImpersonatedRequest } from '../../src/middlewares/impersonation.middleware';
+
+const impersonation = {
+  adminId: 'admin-1',
+  adminUsername: 'Support Admin',
+  adminEmail: 'admin@example.com',
+  startedAt: new Date('2026-01-15T10:00:00Z'),
+  expiresAt: new Date('2026-01-15T10:30:00Z')
+};
+
+const impersonatedUser = {
+  id: 'login-1',
+  email: 'owner@example.com',
+  role: 'BUSINESS' as const,
+  twoFactorEnabled: false,
+  sessionId: 'session-1',
+  loginMethod: 'PASSWORD' as const,
+  businessId: 'business-1',
+  impersonation
+};
+
+const createResponse = () => {
+  const res = new EventEmitter() as EventEmitter & { setHeader: ReturnType<typeof vi.fn>; statusCode: number };
+  res.setHeader = vi.fn();
+  res.statusCode = 200;
+  return res;
+};
+
+describe('impersonation.middleware', () => {
+  describe('forbidImpersonation', () => {
+    it('blocks account-level actions during impersonation', () => {
+      const next = vi.fn();
+      forbidImpersonation({ user: impersonatedUser } as Request, {} as Response, next);
+
+      expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 403 });
+    });
+
+    it('lets the real owner through', () => {
+      const next = vi.fn();
+      forbidImpersonation({ user: { ...impersonatedUser, impersonation: undefined } } as Request, {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('tagImpersonatedRequest', () => {
+    it('sends the banner headers and audits changes with secrets redacted', async () => {
+      prismaMock.auditLog.create.mockResolvedValue({});
+      const req = {
+        user: impersonatedUser,
+        method: 'PUT',
+        originalUrl: '/api/business/profile',
+        ip: '10.0.0.1',
+        body: { name: 'Renamed Traders', currentPassword: 'secret' }
+      } as unknown as Request;
+      const res = createResponse();
+
+      tagImpersonatedRequest(req, res as unknown as Response);
+      res.emit('finish');
+
+      expect(res.setHeader).toHaveBeenCalledWith('X-Impersonation-Admin', 'Support Admin');
+      expect(res.setHeader).toHaveBeenCalledWith('X-Impersonation-Expires-At', impersonation.expiresAt.toISOString());
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          adminId: 'admin-1',
+          action: 'impersonation.request',
+          targetId: 'business-1',
+          method: 'PUT',
+          path: '/api/business/profile',
+          statusCode: 200,
+          details: { body: { name: 'Renamed Traders', currentPassword: '[REDACTED]' } }
+        })
+      });
+    });
+
+    it('does not audit read-only requests', () => {
+      const req = { user: impersonatedUser, method: 'GET', originalUrl: '/api/business/profile' } as unknown as Request;
+      const res = createResponse();
+
+      tagImpersonatedRequest(req, res as unknown as Response);
+      res.emit('finish');
+
+      expect(res.setHeader).toHaveBeenCalled();
+      expect(prismaMock.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { prismaMock } from '../helpers/prismaMock';
+import { SUPER_ADMIN_ROLE_SLUG } from '../../src/config/permissions.config';
+import { revokeAllSessions } from '../../src/services/session.service';
+import { deactivateAdmin, updateAdminRole } from '../../src/services/admin.service';
+
+vi.mock('../../src/services/session.service', () => ({
+  revokeAllSessions: vi.fn()
+}));
+
+vi.mock('../../src/services/email.service', () => ({
+  sendAdminInvitationEmail: vi.fn()
+}));
+
+const superAdmin = { isActive: true, role: { slug: SUPER_ADMIN_ROLE_SLUG } };
+
+const updatedAdmin = {
+  id: 'admin-2',
+  email: 'second@example.com',
+  username: 'Second Admin',
+  isActive: false,
+  passwordHash: 'stored-hash',
+  oidcSubject: null
+};
+
+const serializationFailure = () => new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', {
+  code: 'P2034',
+  clientVersion: Prisma.prismaVersion.client
+});
+
+describe('admin.service', () => {
+  beforeEach(() => {
+    prismaMock.admin.update.mockResolvedValue(updatedAdmin);
+  });
+
+  describe('deactivateAdmin', () => {
+    beforeEach(() => {
+      prismaMock.admin.findUnique
+        .mockResolvedValueOnce({ id: 'admin-2', isActive: true })
+        .mockResolvedValueOnce(superAdmin);
+    });
+
+    it('refuses to deactivate the last active super admin', async () => {
+      prismaMock.admin.count.mockResolvedValue(0);
+
+      await expect(deactivateAdmin('admin-2', 'admin-1')).rejects.toMatchObject({
+        statusCode: 403,
+        message: 'The last active super admin cannot be deactivated or demoted'
+      });
+
+      expect(prismaMock.admin.update).not.toHaveBeenCalled();
+      expect(revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('deactivates a super admin when another one remains and signs them out', async () => {
+      prismaMock.admin.count.mockResolvedValue(1);
+
+      await expect(deactivateAdmin('admin-2', 'admin-1')).resolves.toMatchObject({
+        id: 'admin-2',
+        isActive: false,
+        invitationPending: false
+      });
+
+      expect(prismaMock.admin.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: { not: 'admin-2' }, isActive: true, role: { slug: SUPER_ADMIN_ROLE_SLUG } })
+      });
+      expect(revokeAllSessions).toHaveBeenCalledWith('admin-2', 'ADMIN');
+    });
+
+    it('checks and writes in one serializable transaction', async () => {
+      prismaMock.admin.count.mockResolvedValue(1);
+
+      await deactivateAdmin('admin-2', 'admin-1');
+
+      expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+      });
+    });
+
+    it('runs the check again when a concurrent change aborts the transaction', async () => {
+      prismaMock.admin.findUnique.mockResolvedValueOnce(superAdmin);
+      prismaMock.admin.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+      prismaMock.$transaction.mockImplementationOnce(async (fn: (tx: unknown) => Promise<unknown>) => {
+        await fn(prismaMock);
+        throw serializationFailure();
+      });
+
+      await expect(deactivateAdmin('admin-2', 'admin-1')).rejects.toMatchObject({ statusCode: 403 });
+
+      expect(prismaMock.$transaction).toHaveBeenCalledTimes(2);
+      expect(revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('refuses to deactivate yourself', async () => {
+      await expect(deactivateAdmin('admin-1', 'admin-1')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('updateAdminRole', () => {
+    it('refuses to demote the last active super admin', async () => {
+      prismaMock.adminRole.findUnique.mockResolvedValue({ id: 'role-editor', slug: 'content-editor' });
+      prismaMock.admin.findUnique
+        .mockResolvedValueOnce({ id: 'admin-2' })
+        .mockResolvedValueOnce(superAdmin);
+      prismaMock.admin.count.mockResolvedValue(0);
+
+      await expect(updateAdminRole('admin-2', 'role-editor')).rejects.toMatchObject({ statusCode: 403 });
+
+      expect(prismaMock.admin.update).not.toHaveBeenCalled();
+    });
+
+    it('promotes to super admin without the guard', async () => {
+      prismaMock.adminRole.findUnique.mockResolvedValue({ id: 'role-super', slug: SUPER_ADMIN_ROLE_SLUG });
+      prismaMock.admin.findUnique.mockResolvedValue({ id: 'admin-2' });
+
+      await updateAdminRole('admin-2', 'role-super');
+
+      expect(prismaMock.admin.count).not.toHaveBeenCalled();
+      expect(prismaMock.admin.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'admin-2' },
+        data: { roleId: 'role-super' }
+      }));
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { prismaMock } from '../helpers/prismaMock';
+import { verifyAccessToken } from '../../src/utils/jwt.utils';
+import { assertActiveSession } from '../../src/services/session.service';
+import { startImpersonation, endImpersonation } from '../../src/services/impersonation.service';
+
+vi.mock('../../src/services/account.service', () => ({
+  getAuthenticatedUser: vi.fn()
+}));
+
+const NOW = new Date('2026-01-15T10:00:00Z');
+const IMPERSONATION_MS = 30 * 60 * 1000;
+
+const business = (overrides: Record<string, unknown> = {}) => ({
+  id: 'business-1',
+  name: 'Example Traders',
+  isActive: true,
+  businessLogin: { id: 'login-1', email: 'owner@example.com', isActive: true },
+  ...overrides
+});
+
+describe('impersonation.service', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    prismaMock.session.create.mockResolvedValue({ id: 'session-1' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('startImpersonation', () => {
+    it('opens a time-limited session on the owner login tagged with the admin', async () => {
+      prismaMock.business.findUnique.mockResolvedValue(business());
+
+      const result = await startImpersonation('admin-1', 'business-1', 'Support ticket #42', { ipAddress: '10.0.0.1' });
+
+      const expiresAt = new Date(NOW.getTime() + IMPERSONATION_MS);
+      expect(prismaMock.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'login-1',
+          role: 'BUSINESS',
+          impersonatorId: 'admin-1',
+          expiresAt
+        })
+      });
+      expect(prismaMock.refreshToken.create.mock.calls[0][0].data.expiresAt).toEqual(expiresAt);
+      expect(verifyAccessToken(result.accessToken)).toEqual({ sub: 'login-1', role: 'BUSINESS', sid: 'session-1' });
+      expect(result.impersonation).toEqual({
+        businessId: 'business-1',
+        businessName: 'Example Traders',
+        email: 'owner@example.com',
+        expiresAt
+      });
+    });
+
+    it('records who started it and why', async () => {
+      prismaMock.business.findUnique.mockResolvedValue(business());
+
+      await startImpersonation('admin-1', 'business-1', 'Support ticket #42', { ipAddress: '10.0.0.1' });
+
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          adminId: 'admin-1',
+          action: 'impersonation.start',
+          targetId: 'business-1',
+          sessionId: 'session-1',
+          ipAddress: '10.0.0.1'
+        })
+      });
+    });
+
+    it('refuses inactive businesses and unknown ones', async () => {
+      prismaMock.business.findUnique.mockResolvedValueOnce(business({ isActive: false }));
+      await expect(startImpersonation('admin-1', 'business-1', 'reason')).rejects.toMatchObject({ statusCode: 400 });
+
+      prismaMock.business.findUnique.mockResolvedValueOnce(
+        business({ businessLogin: { id: 'login-1', email: 'owner@example.com', isActive: false } })
+      );
+      await expect(startImpersonation('admin-1', 'business-1', 'reason')).rejects.toMatchObject({ statusCode: 400 });
+
+      prismaMock.business.findUnique.mockResolvedValueOnce(null);
+      await expect(startImpersonation('admin-1', 'missing', 'reason')).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(prismaMock.session.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endImpersonation', () => {
+    it('revokes the session and records the end', async () => {
+      prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+
+      await endImpersonation('admin-1', 'session-1', 'business-1');
+
+      expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'impersonation.end', sessionId: 'session-1' })
+      });
+    });
+  });
+
+  describe('impersonation sessions', () => {
+    const impersonationSession = (impersonatorActive: boolean) => ({
+      userId: 'login-1',
+      role: 'BUSINESS',
+      revokedAt: null,
+      expiresAt: new Date(NOW.getTime() + IMPERSONATION_MS),
+      lastUsedAt: NOW,
+      loginMethod: 'PASSWORD',
+      createdAt: NOW,
+      impersonator: { id: 'admin-1', username: 'Support Admin', email: 'admin@example.com', isActive: impersonatorActive }
+    });
+
+    it('carry the banner details of the impersonating admin', async () => {
+      prismaMock.session.findUnique.mockResolvedValue(impersonationSession(true));
+
+      const { impersonation } = await assertActiveSession('session-1', 'login-1', 'BUSINESS');
+
+      expect(impersonation).toEqual({
+        adminId: 'admin-1',
+        adminUsername: 'Support Admin',
+        adminEmail: 'admin@example.com',
+        startedAt: NOW,
+        expiresAt: new Date(NOW.getTime() + IMPERSONATION_MS)
+      });
+    });
+
+    it('end as soon as the admin is deactivated', async () => {
+      prismaMock.session.findUnique.mockResolvedValue(impersonationSession(false));
+
+      await expect(assertActiveSession('session-1', 'login-1', 'BUSINESS')).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { prismaMock } from '../helpers/prismaMock';
+import { verifyPassword, needsRehash } from '../../src/utils/password.utils';
+import { sendAccountLockedEmail } from '../../src/services/email.service';
+import { issueAuthToken } from '../../src/services/authToken.service';
+import {
+  startLoginAttempt,
+  verifyLoginCredentials,
+  LoginAccount
+} from '../../src/services/loginProtection.service';
+
+vi.mock('../../src/utils/password.utils', () => ({
+  hashPassword: vi.fn().mockResolvedValue('dummy-hash'),
+  verifyPassword: vi.fn(),
+  needsRehash: vi.fn().mockReturnValue(false)
+}));
+
+vi.mock('../../src/services/email.service', () => ({
+  sendAccountLockedEmail: vi.fn()
+}));
+
+vi.mock('../../src/services/authToken.service', () => ({
+  issueAuthToken: vi.fn().mockResolvedValue('unlock-token'),
+  consumeAuthToken: vi.fn()
+}));
+
+vi.mock('../../src/services/account.service', () => ({
+  updateAccountPasswordHash: vi.fn()
+}));
+
+const account = (overrides: Partial<LoginAccount> = {}): LoginAccount => ({
+  id: 'login-1',
+  role: 'BUSINESS',
+  email: 'owner@example.com',
+  name: 'Example Traders',
+  passwordHash: 'stored-hash',
+  failedLoginAttempts: 0,
+  lockedUntil: null,
+  ...overrides
+});
+
+/**
+ * Run a login check to completion, skipping the progressive failure delay
+ * @returns The error it failed with, or null
+ */
+const settle = async (promise: Promise<unknown>) => {
+  const outcome = promise.then(() => null, (error: unknown) => error);
+  await vi.runAllTimersAsync();
+  return outcome;
+};
+
+describe('loginProtection.service', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(verifyPassword).mockReset();
+    vi.mocked(needsRehash).mockReturnValue(false);
+    vi.mocked(sendAccountLockedEmail).mockReset();
+    prismaMock.loginAttempt.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('startLoginAttempt', () => {
+    it('records the attempt as failed before counting the IP failures', async () => {
+      prismaMock.loginAttempt.create.mockResolvedValue({ id: 'attempt-1' });
+      prismaMock.loginAttempt.count.mockResolvedValue(20);
+
+      await expect(startLoginAttempt('owner@example.com', '10.0.0.1')).resolves.toBe('attempt-1');
+
+      expect(prismaMock.loginAttempt.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { email: 'owner@example.com', ipAddress: '10.0.0.1', succeeded: false }
+      }));
+      expect(prismaMock.loginAttempt.create.mock.invocationCallOrder[0])
+        .toBeLessThan(prismaMock.loginAttempt.count.mock.invocationCallOrder[0]);
+    });
+
+    it('throttles an IP once it has too many recent failures', async () => {
+      prismaMock.loginAttempt.create.mockResolvedValue({ id: 'attempt-1' });
+      prismaMock.loginAttempt.count.mockResolvedValue(21);
+
+      await expect(startLoginAttempt('owner@example.com', '10.0.0.1')).rejects.toMatchObject({ statusCode: 429 });
+    });
+  });
+
+  describe('verifyLoginCredentials', () => {
+    it('marks the attempt as succeeded and clears earlier failures', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(true);
+
+      await verifyLoginCredentials(account({ failedLoginAttempts: 2 }), 'attempt-1', 'correct', '10.0.0.1');
+
+      expect(prismaMock.loginAttempt.update).toHaveBeenCalledWith({
+        where: { id: 'attempt-1' },
+        data: { succeeded: true }
+      });
+      expect(prismaMock.businessLogin.update).toHaveBeenCalledWith({
+        where: { id: 'login-1' },
+        data: { failedLoginAttempts: 0, lockedUntil: null }
+      });
+    });
+
+    it('counts a wrong password with an atomic increment', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+      prismaMock.businessLogin.update.mockResolvedValue({ failedLoginAttempts: 1 });
+
+      const error = await settle(verifyLoginCredentials(account(), 'attempt-1', 'wrong', '10.0.0.1'));
+
+      expect(error).toMatchObject({ statusCode: 401, message: 'Invalid email or password' });
+      expect(prismaMock.businessLogin.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'login-1' },
+        data: { failedLoginAttempts: { increment: 1 } }
+      }));
+      expect(prismaMock.businessLogin.updateMany).not.toHaveBeenCalled();
+      expect(prismaMock.loginAttempt.update).not.toHaveBeenCalled();
+    });
+
+    it('locks the account at the failure limit and emails the owner once', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+      prismaMock.businessLogin.update.mockResolvedValue({ failedLoginAttempts: 5 });
+      prismaMock.businessLogin.updateMany.mockResolvedValue({ count: 1 });
+
+      await settle(verifyLoginCredentials(account({ failedLoginAttempts: 4 }), 'attempt-1', 'wrong', '10.0.0.1'));
+
+      const { where, data } = prismaMock.businessLogin.updateMany.mock.calls[0][0];
+      expect(where).toEqual({
+        id: 'login-1',
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: expect.any(Date) } }]
+      });
+      expect(data.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+      expect(issueAuthToken).toHaveBeenCalledWith('login-1', 'BUSINESS', 'ACCOUNT_UNLOCK', expect.any(Date));
+      expect(sendAccountLockedEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not email again when a parallel failure already set the lock', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+      prismaMock.businessLogin.update.mockResolvedValue({ failedLoginAttempts: 6 });
+      prismaMock.businessLogin.updateMany.mockResolvedValue({ count: 0 });
+
+      const error = await settle(verifyLoginCredentials(account({ failedLoginAttempts: 5 }), 'attempt-1', 'wrong', '10.0.0.1'));
+
+      expect(error).toMatchObject({ message: 'Invalid email or password' });
+      expect(sendAccountLockedEmail).not.toHaveBeenCalled();
+    });
+
+    it('rejects the right password while the account is locked, with the same message', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(true);
+      prismaMock.businessLogin.update.mockResolvedValue({ failedLoginAttempts: 6 });
+      prismaMock.businessLogin.updateMany.mockResolvedValue({ count: 0 });
+
+      const lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+      const error = await settle(
+        verifyLoginCredentials(account({ failedLoginAttempts: 5, lockedUntil }), 'attempt-1', 'correct', '10.0.0.1')
+      );
+
+      expect(error).toMatchObject({ statusCode: 401, message: 'Invalid email or password' });
+      expect(prismaMock.loginAttempt.update).not.toHaveBeenCalled();
+    });
+
+    it('starts a fresh count once an earlier lock has expired', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+      prismaMock.businessLogin.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.businessLogin.update.mockResolvedValue({ failedLoginAttempts: 1 });
+
+      const lockedUntil = new Date(Date.now() - 1000);
+      await settle(verifyLoginCredentials(account({ failedLoginAttempts: 5, lockedUntil }), 'attempt-1', 'wrong', '10.0.0.1'));
+
+      expect(prismaMock.businessLogin.updateMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.businessLogin.updateMany).toHaveBeenCalledWith({
+        where: { id: 'login-1', lockedUntil: { lte: expect.any(Date) } },
+        data: { failedLoginAttempts: 0, lockedUntil: null }
+      });
+      expect(sendAccountLockedEmail).not.toHaveBeenCalled();
+    });
+
+    it('fails an unknown email the same way as a wrong password', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+
+      const error = await settle(verifyLoginCredentials(null, 'attempt-1', 'anything', '10.0.0.1'));
+
+      expect(error).toMatchObject({ statusCode: 401, message: 'Invalid email or password' });
+      expect(verifyPassword).toHaveBeenCalledWith('anything', 'dummy-hash');
+    });
+
+    it('never accepts an invited admin without a password', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(true);
+      prismaMock.admin.update.mockResolvedValue({ failedLoginAttempts: 1 });
+
+      const error = await settle(
+        verifyLoginCredentials(account({ role: 'ADMIN', passwordHash: null }), 'attempt-1', 'dummy-password-for-timing', '10.0.0.1')
+      );
+
+      expect(error).toMatchObject({ message: 'Invalid email or password' });
+      expect(prismaMock.loginAttempt.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prismaMock } from '../helpers/prismaMock';
+import { hashToken } from '../../src/utils/token.utils';
+import { verifyAccessToken } from '../../src/utils/jwt.utils';
+import { getAuthenticatedUser } from '../../src/services/account.service';
+import {
+  createSession,
+  rotateRefreshToken,
+  assertActiveSession
+} from '../../src/services/session.service';
+
+vi.mock('../../src/services/account.service', () => ({
+  getAuthenticatedUser: vi.fn()
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const storedRefreshToken = (overrides: Record<string, unknown> = {}, session: Record<string, unknown> = {}) => ({
+  id: 'refresh-1',
+  sessionId: 'session-1',
+  usedAt: null,
+  expiresAt: new Date(Date.now() + HOUR_MS),
+  session: {
+    id: 'session-1',
+    userId: 'user-1',
+    role: 'BUSINESS',
+    revokedAt: null,
+    impersonatorId: null,
+    expiresAt: new Date(Date.now() + HOUR_MS),
+    ...session
+  },
+  ...overrides
+});
+
+describe('session.service', () => {
+  beforeEach(() => {
+    vi.mocked(getAuthenticatedUser).mockReset();
+    prismaMock.session.create.mockResolvedValue({ id: 'session-1' });
+    prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('createSession', () => {
+    it('stores only the hash of the refresh token and signs an access token for the session', async () => {
+      const tokens = await createSession('user-1', 'BUSINESS', { ipAddress: '10.0.0.1' });
+
+      const { data } = prismaMock.refreshToken.create.mock.calls[0][0];
+      expect(data.tokenHash).toBe(hashToken(tokens.refreshToken));
+      expect(JSON.stringify(prismaMock.refreshToken.create.mock.calls)).not.toContain(tokens.refreshToken);
+
+      expect(verifyAccessToken(tokens.accessToken)).toEqual({ sub: 'user-1', role: 'BUSINESS', sid: 'session-1' });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('claims the presented token once and issues a new one', async () => {
+      prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken());
+
+      const tokens = await rotateRefreshToken('old-token');
+
+      expect(prismaMock.refreshToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: hashToken('old-token') } })
+      );
+      expect(prismaMock.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refresh-1', usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+      expect(tokens.refreshToken).not.toBe('old-token');
+      expect(prismaMock.refreshToken.create.mock.calls[0][0].data.tokenHash).toBe(hashToken(tokens.refreshToken));
+      expect(verifyAccessToken(tokens.accessToken).sid).toBe('session-1');
+    });
+
+    it('revokes the whole session when a used token is presented again', async () => {
+      prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken({ usedAt: new Date() }));
+
+      await expect(rotateRefreshToken('old-token')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Refresh token has already been used'
+      });
+
+      expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+      expect(prismaMock.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent refresh as reuse', async () => {
+      prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken());
+      prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(rotateRefreshToken('old-token')).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(prismaMock.session.updateMany).toHaveBeenCalled();
+      expect(prismaMock.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects tokens of revoked or expired sessions', async () => {
+      prismaMock.refreshToken.findUnique.mockResolvedValueOnce(storedRefreshToken({}, { revokedAt: new Date() }));
+      await expect(rotateRefreshToken('old-token')).rejects.toMatchObject({ message: 'Session has expired' });
+
+      prismaMock.refreshToken.findUnique.mockResolvedValueOnce(storedRefreshToken({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(rotateRefreshToken('old-token')).rejects.toMatchObject({ message: 'Session has expired' });
+
+      expect(prismaMock.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tokens', async () => {
+      prismaMock.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(rotateRefreshToken('unknown')).rejects.toMatchObject({ message: 'Invalid refresh token' });
+    });
+
+    it('does not refresh sessions of deactivated accounts', async () => {
+      prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken());
+      vi.mocked(getAuthenticatedUser).mockRejectedValue(new Error('Account is inactive'));
+
+      await expect(rotateRefreshToken('old-token')).rejects.toThrow('Account is inactive');
+
+      expect(prismaMock.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('keeps the original time limit of impersonation sessions', async () => {
+      const impersonationEnds = new Date(Date.now() + 10 * 60 * 1000);
+      prismaMock.refreshToken.findUnique.mockResolvedValue(
+        storedRefreshToken({}, { impersonatorId: 'admin-1', expiresAt: impersonationEnds })
+      );
+
+      await rotateRefreshToken('old-token');
+
+      expect(prismaMock.refreshToken.create.mock.calls[0][0].data.expiresAt).toBe(impersonationEnds);
+      expect(prismaMock.session.update.mock.calls[0][0].data.expiresAt).toBe(impersonationEnds);
+    });
+  });
+
+  describe('assertActiveSession', () => {
+    const activeSession = (overrides: Record<string, unknown> = {}) => ({
+      userId: 'user-1',
+      role: 'BUSINESS',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + HOUR_MS),
+      lastUsedAt: new Date(),
+      loginMethod: 'PASSWORD',
+      createdAt: new Date(),
+      impersonator: null,
+      ...overrides
+    });
+
+    it('returns how the session was started', async () => {
+      prismaMock.session.findUnique.mockResolvedValue(activeSession({ loginMethod: 'MAGIC_LINK' }));
+
+      await expect(assertActiveSession('session-1', 'user-1', 'BUSINESS')).resolves.toEqual({
+        loginMethod: 'MAGIC_LINK',
+        impersonation: undefined
+      });
+    });
+
+    it('rejects revoked sessions and sessions of another account', async () => {
+      prismaMock.session.findUnique.mockResolvedValueOnce(activeSession({ revokedAt: new Date() }));
+      await expect(assertActiveSession('session-1', 'user-1', 'BUSINESS')).rejects.toMatchObject({ statusCode: 401 });
+
+      prismaMock.session.findUnique.mockResolvedValueOnce(activeSession());
+      await expect(assertActiveSession('session-1', 'user-2', 'BUSINESS')).rejects.toMatchObject({ statusCode: 401 });
+
+      prismaMock.session.findUnique.mockResolvedValueOnce(activeSession());
+      await expect(assertActiveSession('session-1', 'user-1', 'ADMIN')).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+});
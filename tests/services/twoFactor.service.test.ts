@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { prismaMock } from '../helpers/prismaMock';
+import { hashToken } from '../../src/utils/token.utils';
+import {
+  findValidAuthToken,
+  consumeAuthToken,
+  recordAuthTokenFailure
+} from '../../src/services/authToken.service';
+import { completeTwoFactorChallenge } from '../../src/services/twoFactor.service';
+
+vi.mock('../../src/services/authToken.service', () => ({
+  issueAuthToken: vi.fn(),
+  findValidAuthToken: vi.fn(),
+  consumeAuthToken: vi.fn(),
+  recordAuthTokenFailure: vi.fn()
+}));
+
+// RFC 6238 test secret; at T = 59s (time step 1) the code is 287082
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE = '287082';
+
+const twoFactorAccount = (overrides: Record<string, unknown> = {}) => ({
+  id: 'admin-1',
+  email: 'admin@example.com',
+  passwordHash: 'stored-hash',
+  twoFactorEnabled: true,
+  twoFactorSecret: SECRET,
+  twoFactorLastUsedStep: null,
+  ...overrides
+});
+
+describe('twoFactor.service', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 59 * 1000 });
+    vi.mocked(findValidAuthToken).mockResolvedValue({ id: 'challenge-1', userId: 'admin-1', role: 'ADMIN' } as never);
+    vi.mocked(consumeAuthToken).mockResolvedValue({ userId: 'admin-1', role: 'ADMIN', loginMethod: 'OIDC' } as never);
+    vi.mocked(recordAuthTokenFailure).mockReset();
+    prismaMock.admin.findUnique.mockResolvedValue(twoFactorAccount());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('completeTwoFactorChallenge', () => {
+    it('claims the TOTP time step with a conditional update and keeps the login method', async () => {
+      prismaMock.admin.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(completeTwoFactorChallenge('challenge', CODE)).resolves.toEqual({
+        userId: 'admin-1',
+        role: 'ADMIN',
+        loginMethod: 'OIDC'
+      });
+
+      expect(prismaMock.admin.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'admin-1',
+          OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: 1 } }]
+        },
+        data: { twoFactorLastUsedStep: 1 }
+      });
+    });
+
+    it('rejects a code replayed in parallel once another request claimed its step', async () => {
+      prismaMock.admin.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(completeTwoFactorChallenge('challenge', CODE)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid verification code'
+      });
+
+      expect(recordAuthTokenFailure).toHaveBeenCalledWith('challenge-1', 5);
+      expect(consumeAuthToken).not.toHaveBeenCalled();
+    });
+
+    it('rejects a code whose step was already used without touching the account', async () => {
+      prismaMock.admin.findUnique.mockResolvedValue(twoFactorAccount({ twoFactorLastUsedStep: 1 }));
+      prismaMock.recoveryCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(completeTwoFactorChallenge('challenge', CODE)).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(prismaMock.admin.updateMany).not.toHaveBeenCalled();
+      expect(consumeAuthToken).not.toHaveBeenCalled();
+    });
+
+    it('accepts an unused recovery code once', async () => {
+      prismaMock.recoveryCode.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      await expect(completeTwoFactorChallenge('challenge', 'ABCDE-12345')).resolves.toMatchObject({ userId: 'admin-1' });
+      await expect(completeTwoFactorChallenge('challenge', 'ABCDE-12345')).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(prismaMock.recoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'admin-1', role: 'ADMIN', codeHash: hashToken('abcde12345'), usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+    });
+
+    it('rejects every code when two-factor authentication is off', async () => {
+      prismaMock.admin.findUnique.mockResolvedValue(twoFactorAccount({ twoFactorEnabled: false }));
+
+      await expect(completeTwoFactorChallenge('challenge', CODE)).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(prismaMock.admin.updateMany).not.toHaveBeenCalled();
+      expect(prismaMock.recoveryCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('defaults to a password login for challenges issued without a method', async () => {
+      prismaMock.admin.updateMany.mockResolvedValue({ count: 1 });
+      vi.mocked(consumeAuthToken).mockResolvedValue({ userId: 'admin-1', role: 'ADMIN', loginMethod: null } as never);
+
+      await expect(completeTwoFactorChallenge('challenge', CODE)).resolves.toMatchObject({ loginMethod: 'PASSWORD' });
+    });
+  });
+});
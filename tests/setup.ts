@@ -0,0 +1,13 @@
+import { vi, beforeEach } from 'vitest';
+import { resetPrismaMock } from './helpers/prismaMock';
+
+// Services talk to the mock instead of a database
+vi.mock('../src/config/prisma.config', async () => {
+  const { prismaMock } = await import('./helpers/prismaMock');
+  return { default: prismaMock };
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetPrismaMock();
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeCompanyName,
+  normalizePhoneNumber,
+  normalizeIdentifier,
+  getCompanyEmailDomain,
+  stringSimilarity
+} from '../../src/utils/similarity.utils';
+
+describe('similarity.utils', () => {
+  it('drops punctuation and legal suffixes from company names', () => {
+    expect(normalizeCompanyName('Himalayan Tea Pvt. Ltd.')).toBe('himalayan tea');
+    expect(normalizeCompanyName('Everest & Sons Co.')).toBe('everest sons');
+  });
+
+  it('normalizes phone numbers and identifiers', () => {
+    expect(normalizePhoneNumber('+977 984-1234567')).toBe('9841234567');
+    expect(normalizeIdentifier(' 123-456/78 ')).toBe('12345678');
+  });
+
+  it('ignores free mailbox domains', () => {
+    expect(getCompanyEmailDomain('owner@gmail.com')).toBeNull();
+    expect(getCompanyEmailDomain('Owner@HimalayanTea.com.np')).toBe('himalayantea.com.np');
+  });
+
+  it('scores identical, similar and unrelated names', () => {
+    expect(stringSimilarity('himalayan tea', 'himalayan tea')).toBe(1);
+    expect(stringSimilarity('himalayan tea', 'himalayan teas')).toBeGreaterThan(0.85);
+    expect(stringSimilarity('himalayan tea', 'kathmandu steel')).toBeLessThan(0.3);
+  });
+
+  it('never treats names made only of stopwords as the same', () => {
+    const a = normalizeCompanyName('Nepal Pvt Ltd');
+    const b = normalizeCompanyName('The Company Limited');
+
+    expect(a).toBe('');
+    expect(b).toBe('');
+    expect(stringSimilarity(a, b)).toBe(0);
+  });
+});
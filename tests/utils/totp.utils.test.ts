@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { verifyTotp, generateTotpSecret } from '../../src/utils/totp.utils';
+
+// RFC 6238 test secret ("12345678901234567890") in base32; at T = 59s the SHA-1 code ends in 287082
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_CODE = '287082';
+const RFC_STEP = 1;
+
+describe('totp.utils', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the RFC 6238 reference code and returns its time step', () => {
+    vi.useFakeTimers({ now: 59 * 1000 });
+
+    expect(verifyTotp(RFC_SECRET, RFC_CODE)).toBe(RFC_STEP);
+    expect(verifyTotp(RFC_SECRET, '287 082')).toBe(RFC_STEP);
+  });
+
+  it('accepts a code one step old to allow for clock drift, but not older', () => {
+    vi.useFakeTimers({ now: 89 * 1000 });
+    expect(verifyTotp(RFC_SECRET, RFC_CODE)).toBe(RFC_STEP);
+
+    vi.setSystemTime(119 * 1000);
+    expect(verifyTotp(RFC_SECRET, RFC_CODE)).toBeNull();
+  });
+
+  it('rejects a code whose step was already used', () => {
+    vi.useFakeTimers({ now: 59 * 1000 });
+
+    expect(verifyTotp(RFC_SECRET, RFC_CODE, RFC_STEP)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, RFC_CODE, RFC_STEP - 1)).toBe(RFC_STEP);
+  });
+
+  it('rejects malformed and wrong codes', () => {
+    vi.useFakeTimers({ now: 59 * 1000 });
+
+    expect(verifyTotp(RFC_SECRET, '28708')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '287083')).toBeNull();
+  });
+
+  it('generates 160-bit base32 secrets', () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    env: {
+      NODE_ENV: 'test',
+      JWT_ACCESS_SECRET: 'test-access-secret'
+    }
+  }
+});